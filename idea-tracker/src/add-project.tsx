@@ -1,10 +1,11 @@
 import { Detail } from "@raycast/api";
 import { AddProjectForm } from "./project-forms";
 import { ProjectFormValues } from "./project-form-types";
+import { collectTags } from "./tags";
 import { useIdeasManager } from "./use-ideas-manager";
 
 export default function AddProjectCommand() {
-  const { isLoading, createProject } = useIdeasManager();
+  const { isLoading, projects, createProject } = useIdeasManager();
 
   if (isLoading) {
     return <Detail isLoading />;
@@ -12,6 +13,7 @@ export default function AddProjectCommand() {
 
   return (
     <AddProjectForm
+      availableTags={collectTags(projects)}
       onSubmit={async (values: ProjectFormValues) => {
         const created = await createProject(values);
         return created !== null;
@@ -2,8 +2,9 @@ import { Action, ActionPanel, Detail, Icon, LaunchType, launchCommand, useNaviga
 import { useCallback, useMemo } from "react";
 import { AppendFeatureForm, EditFeaturesForm, EditProjectForm } from "./project-forms";
 import { AppendFeatureValues } from "./project-form-types";
+import { collectTags } from "./tags";
 import { useIdeasManager } from "./use-ideas-manager";
-import { formatIdeaMarkdown } from "./ideas";
+import { formatAbsoluteDate, formatIdeaMarkdown } from "./ideas";
 
 export default function AppendFeatureCommand() {
   const { isLoading, projects, appendFeature } = useIdeasManager();
@@ -89,7 +90,7 @@ function ProjectDetailView({ projectId }: { projectId: string }) {
   return (
     <Detail
       navigationTitle={project.title}
-      markdown={formatIdeaMarkdown(project)}
+      markdown={formatIdeaMarkdown(project, { formatDate: formatAbsoluteDate })}
       actions={
         <ActionPanel>
           <Action.Push
@@ -99,6 +100,7 @@ function ProjectDetailView({ projectId }: { projectId: string }) {
             target={
               <EditProjectForm
                 project={project}
+                availableTags={collectTags(projects)}
                 onSubmit={async (values) => {
                   const updated = await updateProject(project.id, values);
                   return updated !== null;
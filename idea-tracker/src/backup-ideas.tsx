@@ -0,0 +1,50 @@
+import { Action, ActionPanel, Detail, Form, Icon, Toast, popToRoot, showInFinder, showToast } from "@raycast/api";
+import { useLocalStorage } from "@raycast/utils";
+import { TAG_FILTER_STORAGE_KEY } from "./ideas";
+import { useIdeasManager } from "./use-ideas-manager";
+
+export default function BackupIdeasCommand() {
+  const { isLoading, projects, writeBackup } = useIdeasManager();
+  const { value: tagFilter, isLoading: isTagFilterLoading } = useLocalStorage<string>(TAG_FILTER_STORAGE_KEY);
+
+  if (isLoading || isTagFilterLoading) {
+    return <Detail isLoading />;
+  }
+
+  return (
+    <Form
+      navigationTitle="Backup Ideas"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Write Backup"
+            icon={Icon.SaveDocument}
+            onSubmit={async (values: { folder?: string[] }) => {
+              const folder = values.folder?.[0];
+              if (!folder) {
+                await showToast(Toast.Style.Failure, "Choose a destination folder");
+                return;
+              }
+              const filePath = await writeBackup(folder, tagFilter);
+              if (filePath) {
+                await showInFinder(filePath);
+                await popToRoot();
+              }
+            }}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.FilePicker
+        id="folder"
+        title="Destination Folder"
+        allowMultipleSelection={false}
+        canChooseDirectories
+        canChooseFiles={false}
+      />
+      <Form.Description
+        text={`Writes all ${projects.length} project${projects.length === 1 ? "" : "s"}, including IDs, timestamps and the saved tag filter, to a versioned JSON file.`}
+      />
+    </Form>
+  );
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { makeIdea } from "../test/fixtures";
+import { BACKUP_FORMAT_VERSION, applyBackup, backupFileName, createBackup, diffBackup, parseBackup } from "./backup";
+import { CURRENT_SCHEMA_VERSION } from "./ideas";
+
+describe("createBackup", () => {
+  it("wraps normalized ideas in a versioned document", () => {
+    const backup = createBackup(
+      [
+        {
+          id: "idea-1",
+          title: "Legacy",
+          createdAt: "2025-01-01T00:00:00.000Z",
+          updatedAt: "2025-01-01T00:00:00.000Z",
+        },
+      ],
+      { tagFilter: "mobile", exportedAt: "2025-02-01T10:00:00.000Z" },
+    );
+
+    expect(backup).toEqual({
+      version: BACKUP_FORMAT_VERSION,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      exportedAt: "2025-02-01T10:00:00.000Z",
+      tagFilter: "mobile",
+      ideas: [makeIdea({ id: "idea-1", title: "Legacy" })],
+    });
+  });
+
+  it("builds a filesystem-safe file name from the export time", () => {
+    expect(backupFileName("2025-02-01T10:00:00.000Z")).toBe("idea-tracker-backup-2025-02-01T10-00-00-000Z.json");
+  });
+});
+
+describe("parseBackup", () => {
+  it("round-trips a created backup", () => {
+    const backup = createBackup([makeIdea({ id: "idea-1", tags: ["ops"] })], {
+      exportedAt: "2025-02-01T10:00:00.000Z",
+    });
+    expect(parseBackup(JSON.stringify(backup))).toEqual({ ...backup, tagFilter: undefined });
+  });
+
+  it("upgrades ideas from older schema versions", () => {
+    const parsed = parseBackup(
+      JSON.stringify({
+        version: 1,
+        schemaVersion: 1,
+        ideas: [
+          {
+            id: "idea-1",
+            title: "Legacy",
+            features: [{ id: "f", content: "Old", createdAt: "2025-01-01T00:00:00.000Z" }],
+            createdAt: "2025-01-01T00:00:00.000Z",
+            updatedAt: "2025-01-01T00:00:00.000Z",
+          },
+        ],
+      }),
+    );
+
+    expect(parsed.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(parsed.ideas[0].features[0].status).toBe("idea");
+    expect(parsed.ideas[0].isArchived).toBe(false);
+  });
+
+  it("rejects malformed documents with descriptive errors", () => {
+    expect(() => parseBackup("not json")).toThrow("Backup file is not valid JSON");
+    expect(() => parseBackup("[]")).toThrow("Backup file must contain a JSON object");
+    expect(() => parseBackup(JSON.stringify({ ideas: [] }))).toThrow("Backup file is missing a version");
+    expect(() => parseBackup(JSON.stringify({ version: BACKUP_FORMAT_VERSION + 1, ideas: [] }))).toThrow(
+      "newer than this extension supports",
+    );
+    expect(() =>
+      parseBackup(JSON.stringify({ version: 1, schemaVersion: CURRENT_SCHEMA_VERSION + 1, ideas: [] })),
+    ).toThrow("is not supported");
+    expect(() => parseBackup(JSON.stringify({ version: 1, ideas: [{ id: "idea-1" }] }))).toThrow(
+      'Project 1 is missing "title"',
+    );
+    expect(() =>
+      parseBackup(
+        JSON.stringify({
+          version: 1,
+          ideas: [
+            {
+              ...makeIdea({ id: "idea-1" }),
+              features: [{ id: "f", content: "x", createdAt: "2025-01-01T00:00:00.000Z", status: "shipped" }],
+            },
+          ],
+        }),
+      ),
+    ).toThrow('Project 1, feature 1 has unknown status "shipped"');
+  });
+});
+
+describe("diffBackup", () => {
+  const current = [makeIdea({ id: "keep" }), makeIdea({ id: "edit" }), makeIdea({ id: "gone" })];
+  const incoming = [makeIdea({ id: "keep" }), makeIdea({ id: "edit", title: "Edited" }), makeIdea({ id: "new" })];
+
+  it("reports new, changed and unchanged projects when merging", () => {
+    const diff = diffBackup(current, incoming, "merge");
+    expect(diff.added.map((idea) => idea.id)).toEqual(["new"]);
+    expect(diff.changed.map((idea) => idea.id)).toEqual(["edit"]);
+    expect(diff.removed).toEqual([]);
+    expect(diff.unchangedCount).toBe(1);
+  });
+
+  it("reports removals only when replacing", () => {
+    expect(diffBackup(current, incoming, "replace").removed.map((idea) => idea.id)).toEqual(["gone"]);
+  });
+});
+
+describe("applyBackup", () => {
+  const current = [makeIdea({ id: "keep" }), makeIdea({ id: "edit" })];
+  const incoming = [makeIdea({ id: "edit", title: "Edited" }), makeIdea({ id: "new" })];
+
+  it("merges by id, keeping local-only projects", () => {
+    expect(applyBackup(current, incoming, "merge").map((idea) => [idea.id, idea.title])).toEqual([
+      ["new", "new"],
+      ["keep", "keep"],
+      ["edit", "Edited"],
+    ]);
+  });
+
+  it("replaces everything in replace mode", () => {
+    expect(applyBackup(current, incoming, "replace")).toEqual(incoming);
+  });
+});
@@ -0,0 +1,159 @@
+import {
+  CURRENT_SCHEMA_VERSION,
+  FEATURE_STATUSES,
+  INITIAL_SCHEMA_VERSION,
+  Idea,
+  StoredIdea,
+  migrateIdeas,
+  normalizeIdea,
+} from "./ideas";
+
+export const BACKUP_FORMAT_VERSION = 1;
+
+export type IdeasBackup = {
+  version: number;
+  schemaVersion: number;
+  exportedAt: string;
+  ideas: Idea[];
+  tagFilter?: string;
+};
+
+export type RestoreMode = "replace" | "merge";
+
+export type BackupDiff = {
+  added: Idea[];
+  changed: Idea[];
+  removed: Idea[];
+  unchangedCount: number;
+};
+
+type CreateBackupOptions = {
+  tagFilter?: string;
+  exportedAt?: string;
+};
+
+export function createBackup(ideas: StoredIdea[], options: CreateBackupOptions = {}): IdeasBackup {
+  return {
+    version: BACKUP_FORMAT_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: options.exportedAt ?? new Date().toISOString(),
+    ideas: ideas.map(normalizeIdea),
+    tagFilter: options.tagFilter,
+  };
+}
+
+export function backupFileName(exportedAt: string): string {
+  return `idea-tracker-backup-${exportedAt.replace(/[:.]/g, "-")}.json`;
+}
+
+/**
+ * Parses and validates a backup document, throwing a descriptive error for anything we cannot restore.
+ */
+export function parseBackup(json: string): IdeasBackup {
+  let document: unknown;
+  try {
+    document = JSON.parse(json);
+  } catch {
+    throw new Error("Backup file is not valid JSON");
+  }
+
+  if (!isRecord(document)) {
+    throw new Error("Backup file must contain a JSON object");
+  }
+
+  const { version, schemaVersion = INITIAL_SCHEMA_VERSION, exportedAt, ideas, tagFilter } = document;
+  if (typeof version !== "number") {
+    throw new Error("Backup file is missing a version");
+  }
+  if (version > BACKUP_FORMAT_VERSION) {
+    throw new Error(`Backup version ${version} is newer than this extension supports`);
+  }
+  if (typeof schemaVersion !== "number" || schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Backup schema version ${String(schemaVersion)} is not supported`);
+  }
+  if (!Array.isArray(ideas)) {
+    throw new Error("Backup file does not contain an ideas list");
+  }
+
+  const validated = ideas.map((idea, index) => validateStoredIdea(idea, index));
+  return {
+    version,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: typeof exportedAt === "string" ? exportedAt : new Date(0).toISOString(),
+    ideas: migrateIdeas(validated, schemaVersion).ideas.map(normalizeIdea),
+    tagFilter: typeof tagFilter === "string" ? tagFilter : undefined,
+  };
+}
+
+export function diffBackup(current: StoredIdea[], incoming: Idea[], mode: RestoreMode): BackupDiff {
+  const currentById = new Map(current.map((idea) => [idea.id, normalizeIdea(idea)]));
+  const incomingIds = new Set(incoming.map((idea) => idea.id));
+  const diff: BackupDiff = { added: [], changed: [], removed: [], unchangedCount: 0 };
+
+  for (const idea of incoming) {
+    const existing = currentById.get(idea.id);
+    if (!existing) {
+      diff.added.push(idea);
+    } else if (JSON.stringify(existing) !== JSON.stringify(idea)) {
+      diff.changed.push(idea);
+    } else {
+      diff.unchangedCount += 1;
+    }
+  }
+
+  if (mode === "replace") {
+    diff.removed = [...currentById.values()].filter((idea) => !incomingIds.has(idea.id));
+  }
+
+  return diff;
+}
+
+export function applyBackup<T extends StoredIdea>(current: T[], incoming: Idea[], mode: RestoreMode): (T | Idea)[] {
+  if (mode === "replace") {
+    return incoming;
+  }
+
+  const incomingById = new Map(incoming.map((idea) => [idea.id, idea]));
+  const merged = current.map((idea) => incomingById.get(idea.id) ?? idea);
+  const currentIds = new Set(current.map((idea) => idea.id));
+  return [...incoming.filter((idea) => !currentIds.has(idea.id)), ...merged];
+}
+
+function validateStoredIdea(value: unknown, index: number): StoredIdea {
+  const label = `Project ${index + 1}`;
+  if (!isRecord(value)) {
+    throw new Error(`${label} is not an object`);
+  }
+  for (const field of ["id", "title", "createdAt", "updatedAt"] as const) {
+    if (typeof value[field] !== "string") {
+      throw new Error(`${label} is missing "${field}"`);
+    }
+  }
+  if (value.tags !== undefined && !(Array.isArray(value.tags) && value.tags.every((tag) => typeof tag === "string"))) {
+    throw new Error(`${label} has invalid tags`);
+  }
+  if (value.features !== undefined) {
+    if (!Array.isArray(value.features)) {
+      throw new Error(`${label} has invalid features`);
+    }
+    value.features.forEach((feature, featureIndex) => {
+      const featureLabel = `${label}, feature ${featureIndex + 1}`;
+      if (
+        !isRecord(feature) ||
+        typeof feature.id !== "string" ||
+        typeof feature.content !== "string" ||
+        typeof feature.createdAt !== "string"
+      ) {
+        throw new Error(`${featureLabel} is invalid`);
+      }
+      if (feature.status !== undefined && !(FEATURE_STATUSES as unknown[]).includes(feature.status)) {
+        throw new Error(`${featureLabel} has unknown status "${String(feature.status)}"`);
+      }
+    });
+  }
+  return value as StoredIdea;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,28 @@
+import { LaunchProps, Toast, showHUD, showToast } from "@raycast/api";
+import { captureIdea } from "./capture";
+import { commitStoredIdeas, readStoredIdeas } from "./storage";
+
+type CaptureIdeaArguments = {
+  project?: string;
+  text: string;
+};
+
+export default async function CaptureIdeaCommand({
+  arguments: args,
+}: LaunchProps<{ arguments: CaptureIdeaArguments }>) {
+  try {
+    const projects = await readStoredIdeas();
+    const result = captureIdea(projects, args.project, args.text);
+    if (!result) {
+      await showHUD("Nothing to capture");
+      return;
+    }
+
+    await commitStoredIdeas(projects, result.projects, "Idea captured");
+    const destination =
+      result.usedInbox && args.project?.trim() ? `Inbox (no match for "${args.project.trim()}")` : result.project.title;
+    await showHUD(`Captured to ${destination}`);
+  } catch (error) {
+    await showToast(Toast.Style.Failure, "Failed to capture idea", String(error));
+  }
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { makeIdea } from "../test/fixtures";
+import { captureIdea } from "./capture";
+import { INBOX_PROJECT_ID } from "./ideas";
+import { findProjectByQuery } from "./search";
+
+const projects = [
+  makeIdea({ id: "garden", title: "Garden Planner", tags: ["home"] }),
+  makeIdea({ id: "kit", title: "UI Kit", tags: ["design"] }),
+  makeIdea({ id: "old", title: "Garden Journal", isArchived: true }),
+];
+
+describe("findProjectByQuery", () => {
+  it("prefers exact and prefix title matches", () => {
+    expect(findProjectByQuery(projects, "ui kit")?.id).toBe("kit");
+    expect(findProjectByQuery(projects, "gard")?.id).toBe("garden");
+  });
+
+  it("matches in-order characters and tags", () => {
+    expect(findProjectByQuery(projects, "gpl")?.id).toBe("garden");
+    expect(findProjectByQuery(projects, "design")?.id).toBe("kit");
+  });
+
+  it("skips archived projects and blank queries", () => {
+    expect(findProjectByQuery(projects, "journal")).toBeNull();
+    expect(findProjectByQuery(projects, "  ")).toBeNull();
+    expect(findProjectByQuery(projects, undefined)).toBeNull();
+  });
+});
+
+describe("captureIdea", () => {
+  const options = { timestamp: "2025-02-01T00:00:00.000Z", idFactory: () => "feature-new" };
+
+  it("appends to the matching project", () => {
+    const result = captureIdea(projects, "kit", "Dark mode", options);
+
+    expect(result?.usedInbox).toBe(false);
+    expect(result?.project.id).toBe("kit");
+    expect(result?.project.features.map((feature) => feature.content)).toEqual(["Dark mode"]);
+    expect(result?.project.updatedAt).toBe(options.timestamp);
+    expect(result?.projects).toHaveLength(3);
+  });
+
+  it("creates the Inbox when nothing matches", () => {
+    const result = captureIdea(projects, "nonexistent zzz", "Loose thought", options);
+
+    expect(result?.usedInbox).toBe(true);
+    expect(result?.project.id).toBe(INBOX_PROJECT_ID);
+    expect(result?.projects.find((project) => project.id === INBOX_PROJECT_ID)?.features[0].content).toBe(
+      "Loose thought",
+    );
+    expect(result?.projects).toHaveLength(4);
+  });
+
+  it("reuses an existing Inbox", () => {
+    const withInbox = [...projects, makeIdea({ id: INBOX_PROJECT_ID, title: "Inbox" })];
+    const result = captureIdea(withInbox, undefined, "Another", options);
+
+    expect(result?.projects).toHaveLength(4);
+    expect(result?.project.features).toHaveLength(1);
+  });
+
+  it("ignores empty text", () => {
+    expect(captureIdea(projects, "kit", "   ", options)).toBeNull();
+  });
+});
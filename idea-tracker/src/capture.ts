@@ -0,0 +1,39 @@
+import { Idea, appendFeaturesToIdea, ensureInbox, isInboxIdea } from "./ideas";
+import { findProjectByQuery } from "./search";
+
+export type CaptureResult = {
+  projects: Idea[];
+  project: Idea;
+  usedInbox: boolean;
+};
+
+type CaptureOptions = {
+  timestamp?: string;
+  idFactory?: () => string;
+};
+
+/**
+ * Appends `text` to the project best matching `query`, falling back to the Inbox (created on demand).
+ */
+export function captureIdea(
+  projects: Idea[],
+  query: string | undefined,
+  text: string,
+  options: CaptureOptions = {},
+): CaptureResult | null {
+  if (!text.trim()) {
+    return null;
+  }
+
+  const timestamp = options.timestamp ?? new Date().toISOString();
+  const match = findProjectByQuery(projects, query);
+  const candidates = match ? projects : ensureInbox(projects, timestamp);
+  const target = match ?? candidates.find(isInboxIdea);
+  if (!target) {
+    return null;
+  }
+  const updated = appendFeaturesToIdea(target, text, { ...options, timestamp });
+  const nextProjects = candidates.map((project) => (project.id === target.id ? updated : project));
+
+  return { projects: nextProjects, project: updated, usedInbox: !match };
+}
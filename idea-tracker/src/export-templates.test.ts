@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_EXPORT_TEMPLATES,
+  SAMPLE_EXPORT_IDEA,
+  createExportTemplate,
+  removeExportTemplate,
+  renderExportTemplate,
+  renderIdeasWithTemplate,
+  updateExportTemplate,
+  validateExportTemplate,
+} from "./export-templates";
+
+describe("renderExportTemplate", () => {
+  it("fills placeholders, feature sections and filters", () => {
+    const body = [
+      "# {{title|upper}} ({{status}}, {{progress}})",
+      'Tags: {{tags|join:" · "}}',
+      "Created: {{createdAt|date:YYYY-MM-DD}}",
+      "{{#features}}- [{{checkbox}}] {{content}} – {{status}}{{#links}} [{{title}}]({{url}}){{/links}}",
+      "{{/features}}",
+    ].join("\n");
+
+    expect(renderExportTemplate(body, SAMPLE_EXPORT_IDEA)).toBe(
+      [
+        "# COMPANION APP (Pinned, 1/2)",
+        "Tags: mobile · work/client-a",
+        `Created: ${formatLocalDate(SAMPLE_EXPORT_IDEA.createdAt)}`,
+        "- [x] Realtime sync – Done",
+        "- [ ] Home screen widgets – Planned [Widget guidelines](https://developer.apple.com/widgets/)",
+      ].join("\n"),
+    );
+  });
+
+  it("renders conditional and inverted sections", () => {
+    const body = "{{#summary}}> {{summary}}{{/summary}}{{^features}}No features{{/features}}{{#tags}}#{{.}} {{/tags}}";
+    const bare = { ...SAMPLE_EXPORT_IDEA, summary: undefined, features: [], tags: ["a", "b"] };
+
+    expect(renderExportTemplate(body, bare)).toBe("No features#a #b");
+    expect(renderExportTemplate("{{missing}}{{tags}}", SAMPLE_EXPORT_IDEA)).toBe("mobile, work/client-a");
+  });
+
+  it("keeps pipes inside quoted filter arguments", () => {
+    expect(renderExportTemplate('{{tags | join: " | " | upper}}', SAMPLE_EXPORT_IDEA)).toBe("MOBILE | WORK/CLIENT-A");
+  });
+
+  it("ignores inherited object members", () => {
+    expect(
+      renderExportTemplate(
+        "{{constructor}}{{toString}}{{#features}}{{hasOwnProperty}}{{/features}}",
+        SAMPLE_EXPORT_IDEA,
+      ),
+    ).toBe("");
+  });
+
+  it("joins several projects and renders the built-in templates", () => {
+    const other = { ...SAMPLE_EXPORT_IDEA, id: "other", title: "Other" };
+
+    expect(renderIdeasWithTemplate("{{title}}", [SAMPLE_EXPORT_IDEA, other])).toBe("Companion App\n\nOther");
+    for (const template of DEFAULT_EXPORT_TEMPLATES) {
+      expect(validateExportTemplate(template.body)).toBeUndefined();
+      expect(renderExportTemplate(template.body, SAMPLE_EXPORT_IDEA)).toContain("Companion App");
+    }
+  });
+
+  it("reports unbalanced sections", () => {
+    expect(validateExportTemplate("{{#features}}{{content}}")).toBe("{{#features}} is never closed");
+    expect(validateExportTemplate("{{#features}}{{/tags}}")).toBe("{{/tags}} does not close an open section");
+    expect(validateExportTemplate("{{ }}")).toBe("Empty placeholder at position 1");
+  });
+});
+
+describe("export template storage helpers", () => {
+  it("creates, updates and removes templates", () => {
+    const created = createExportTemplate({ name: " Brief ", body: "{{title}}" }, () => "t1");
+    expect(created).toEqual({ id: "t1", name: "Brief", body: "{{title}}" });
+
+    const updated = updateExportTemplate([created], "t1", { name: "Short", body: "- {{title}}" });
+    expect(updated).toEqual([{ id: "t1", name: "Short", body: "- {{title}}" }]);
+    expect(removeExportTemplate(updated, "t1")).toEqual([]);
+  });
+});
+
+function formatLocalDate(iso: string): string {
+  const date = new Date(iso);
+  return [date.getFullYear(), date.getMonth() + 1, date.getDate()]
+    .map((part) => String(part).padStart(2, "0"))
+    .join("-");
+}
@@ -0,0 +1,333 @@
+import { randomUUID } from "node:crypto";
+import {
+  FEATURE_STATUS_LABELS,
+  Idea,
+  IdeaFeature,
+  formatAbsoluteDate,
+  formatRelativeTime,
+  summarizeFeatureProgress,
+} from "./ideas";
+
+export const EXPORT_TEMPLATES_STORAGE_KEY = "raycast-idea-tracker/export-templates";
+
+export type ExportTemplate = {
+  id: string;
+  name: string;
+  body: string;
+};
+
+export type ExportTemplateDraft = Omit<ExportTemplate, "id">;
+
+export const DEFAULT_EXPORT_TEMPLATES: ExportTemplate[] = [
+  {
+    id: "default-checklist",
+    name: "Checklist",
+    body: [
+      "## {{title}}",
+      "",
+      "{{#features}}- [{{checkbox}}] {{content}}",
+      "{{/features}}{{^features}}_No features yet._{{/features}}",
+    ].join("\n"),
+  },
+  {
+    id: "default-status-update",
+    name: "Status Update",
+    body: [
+      "*{{title}}* · {{status}} · {{progress}} done · updated {{updatedAt|date:relative}}{{#tags}} #{{.}}{{/tags}}",
+      "{{#features}}• {{content}} ({{status}})",
+      "{{/features}}",
+    ].join("\n"),
+  },
+  {
+    id: "default-one-liner",
+    name: "One-Liner",
+    body: "- **{{title}}**{{#summary}}: {{summary}}{{/summary}} _(since {{createdAt|date:YYYY-MM-DD}})_",
+  },
+];
+
+/** Shown in the template form so the syntax is discoverable without leaving Raycast. */
+export const EXPORT_TEMPLATE_HELP = [
+  "Project: {{title}} {{summary}} {{status}} {{tags}} {{createdAt}} {{updatedAt}} {{featureCount}} {{progress}}",
+  "Features: {{#features}}…{{/features}} with {{content}} {{status}} {{checkbox}} {{notes}} {{#links}}{{title}} {{url}}{{/links}}",
+  "Sections: {{#summary}}…{{/summary}} renders when set, {{^features}}…{{/features}} when empty",
+  'Filters: {{tags|join}} {{tags|join:" · "}} {{createdAt|date}} {{updatedAt|date:relative}} {{createdAt|date:YYYY-MM-DD HH:mm}} {{title|upper}}',
+].join("\n");
+
+/** Used for previews when there are no projects yet. */
+export const SAMPLE_EXPORT_IDEA: Idea = {
+  id: "sample",
+  title: "Companion App",
+  summary: "Mobile app that keeps notes in sync with the desktop editor.",
+  tags: ["mobile", "work/client-a"],
+  isPinned: true,
+  isArchived: false,
+  features: [
+    {
+      id: "sample-1",
+      content: "Realtime sync",
+      createdAt: "2025-01-02T09:00:00.000Z",
+      status: "done",
+      statusChangedAt: "2025-01-10T09:00:00.000Z",
+      notes: "Use CRDTs for offline edits.",
+    },
+    {
+      id: "sample-2",
+      content: "Home screen widgets",
+      createdAt: "2025-01-02T09:00:00.000Z",
+      status: "planned",
+      statusChangedAt: "2025-01-02T09:00:00.000Z",
+      links: [{ title: "Widget guidelines", url: "https://developer.apple.com/widgets/" }],
+    },
+  ],
+  createdAt: "2025-01-02T09:00:00.000Z",
+  updatedAt: "2025-01-10T09:00:00.000Z",
+};
+
+type TemplateNode =
+  | { kind: "text"; text: string }
+  | { kind: "value"; expression: string }
+  | { kind: "section"; name: string; inverted: boolean; children: TemplateNode[] };
+
+type TemplateSection = Extract<TemplateNode, { kind: "section" }>;
+
+type TemplateScope = Record<string, unknown>;
+
+const TAG_PATTERN = /\{\{\s*([#^/]?)\s*(.*?)\s*\}\}/g;
+
+export function createExportTemplate(draft: ExportTemplateDraft, idFactory: () => string = randomUUID): ExportTemplate {
+  return { id: idFactory(), name: draft.name.trim(), body: draft.body };
+}
+
+export function updateExportTemplate(
+  templates: ExportTemplate[],
+  templateId: string,
+  draft: ExportTemplateDraft,
+): ExportTemplate[] {
+  return templates.map((template) =>
+    template.id === templateId ? { ...template, name: draft.name.trim(), body: draft.body } : template,
+  );
+}
+
+export function removeExportTemplate(templates: ExportTemplate[], templateId: string): ExportTemplate[] {
+  return templates.filter((template) => template.id !== templateId);
+}
+
+/**
+ * Returns a message describing the first syntax error, or undefined when the template can be rendered.
+ */
+export function validateExportTemplate(body: string): string | undefined {
+  try {
+    parseTemplate(body);
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Renders one project. Names resolve against the innermost section first, so `{{status}}` inside
+ * `{{#features}}` is the feature's status and the project's outside it. Unknown names render as nothing.
+ */
+export function renderExportTemplate(body: string, idea: Idea): string {
+  return renderNodes(parseTemplate(body), [ideaScope(idea)]).trimEnd();
+}
+
+export function renderIdeasWithTemplate(body: string, ideas: Idea[]): string {
+  const nodes = parseTemplate(body);
+  return ideas.map((idea) => renderNodes(nodes, [ideaScope(idea)]).trimEnd()).join("\n\n");
+}
+
+/**
+ * Markdown for preview panes: the rendered project, or the syntax error that prevents rendering.
+ */
+export function formatExportTemplatePreview(body: string, idea: Idea): string {
+  const error = validateExportTemplate(body);
+  if (error) {
+    return `**Template error:** ${error}`;
+  }
+  return renderExportTemplate(body, idea) || "_The template renders nothing for this project._";
+}
+
+function parseTemplate(body: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: { name: string; children: TemplateNode[] }[] = [{ name: "", children: root }];
+  let lastIndex = 0;
+
+  for (const match of body.matchAll(TAG_PATTERN)) {
+    const [raw, sigil, expression] = match;
+    const index = match.index ?? 0;
+    const current = stack[stack.length - 1];
+    if (index > lastIndex) {
+      current.children.push({ kind: "text", text: body.slice(lastIndex, index) });
+    }
+    lastIndex = index + raw.length;
+
+    if (!expression) {
+      throw new Error(`Empty placeholder at position ${index + 1}`);
+    }
+    if (sigil === "#" || sigil === "^") {
+      const section: TemplateSection = { kind: "section", name: expression, inverted: sigil === "^", children: [] };
+      current.children.push(section);
+      stack.push(section);
+    } else if (sigil === "/") {
+      if (stack.length === 1 || current.name !== expression) {
+        throw new Error(`{{/${expression}}} does not close an open section`);
+      }
+      stack.pop();
+    } else {
+      current.children.push({ kind: "value", expression });
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`{{#${stack[stack.length - 1].name}}} is never closed`);
+  }
+  if (lastIndex < body.length) {
+    root.push({ kind: "text", text: body.slice(lastIndex) });
+  }
+  return root;
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: unknown[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.kind) {
+        case "text":
+          return node.text;
+        case "value":
+          return renderValue(node.expression, scopes);
+        case "section":
+          return renderSection(node, scopes);
+      }
+    })
+    .join("");
+}
+
+function renderSection(section: TemplateSection, scopes: unknown[]): string {
+  const value = lookup(section.name, scopes);
+  const isEmpty = Array.isArray(value) ? value.length === 0 : !value;
+  if (section.inverted) {
+    return isEmpty ? renderNodes(section.children, scopes) : "";
+  }
+  if (isEmpty) {
+    return "";
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => renderNodes(section.children, [...scopes, item])).join("");
+  }
+  return renderNodes(section.children, typeof value === "object" ? [...scopes, value] : scopes);
+}
+
+function renderValue(expression: string, scopes: unknown[]): string {
+  const [name, ...filters] = splitFilters(expression);
+  const value = filters.reduce<unknown>((current, filter) => applyFilter(current, filter), lookup(name, scopes));
+  if (Array.isArray(value)) {
+    return value.map(String).join(", ");
+  }
+  return value === undefined || value === null || typeof value === "boolean" ? "" : String(value);
+}
+
+function lookup(name: string, scopes: unknown[]): unknown {
+  if (name === ".") {
+    return scopes[scopes.length - 1];
+  }
+  for (let index = scopes.length - 1; index >= 0; index -= 1) {
+    const scope = scopes[index];
+    if (typeof scope === "object" && scope !== null && Object.hasOwn(scope, name)) {
+      return (scope as TemplateScope)[name];
+    }
+  }
+  return undefined;
+}
+
+function applyFilter(value: unknown, filter: string): unknown {
+  const separatorIndex = filter.indexOf(":");
+  const name = separatorIndex === -1 ? filter : filter.slice(0, separatorIndex).trim();
+  const argument = separatorIndex === -1 ? undefined : unquote(filter.slice(separatorIndex + 1).trim());
+
+  switch (name) {
+    case "join":
+      return Array.isArray(value) ? value.map(String).join(argument ?? ", ") : value;
+    case "date":
+      return typeof value === "string" ? formatTemplateDate(value, argument) : value;
+    case "upper":
+      return typeof value === "string" ? value.toUpperCase() : value;
+    case "lower":
+      return typeof value === "string" ? value.toLowerCase() : value;
+    default:
+      return value;
+  }
+}
+
+function formatTemplateDate(iso: string, pattern?: string): string {
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) {
+    return iso;
+  }
+  if (!pattern) {
+    return formatAbsoluteDate(iso);
+  }
+  if (pattern === "relative") {
+    return formatRelativeTime(iso);
+  }
+  const parts: Record<string, string> = {
+    YYYY: String(date.getFullYear()),
+    MM: String(date.getMonth() + 1).padStart(2, "0"),
+    DD: String(date.getDate()).padStart(2, "0"),
+    HH: String(date.getHours()).padStart(2, "0"),
+    mm: String(date.getMinutes()).padStart(2, "0"),
+  };
+  return pattern.replace(/YYYY|MM|DD|HH|mm/g, (token) => parts[token]);
+}
+
+/** Splits `name | filter: "arg"` on pipes outside quoted filter arguments. */
+function splitFilters(expression: string): string[] {
+  const parts = [""];
+  let quote: string | undefined;
+  for (const char of expression) {
+    if (quote) {
+      quote = char === quote ? undefined : quote;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "|") {
+      parts.push("");
+      continue;
+    }
+    parts[parts.length - 1] += char;
+  }
+  return parts.map((part) => part.trim());
+}
+
+function unquote(value: string): string {
+  const quoted = value.match(/^(["'])(.*)\1$/);
+  return quoted ? quoted[2] : value;
+}
+
+function ideaScope(idea: Idea): TemplateScope {
+  const progress = summarizeFeatureProgress(idea.features);
+  return {
+    id: idea.id,
+    title: idea.title,
+    summary: idea.summary ?? "",
+    status: idea.isArchived ? "Archived" : idea.isPinned ? "Pinned" : "Active",
+    tags: idea.tags,
+    createdAt: idea.createdAt,
+    updatedAt: idea.updatedAt,
+    featureCount: idea.features.length,
+    progress: `${progress.done}/${progress.total}`,
+    features: idea.features.map(featureScope),
+  };
+}
+
+function featureScope(feature: IdeaFeature): TemplateScope {
+  return {
+    content: feature.content,
+    status: FEATURE_STATUS_LABELS[feature.status],
+    checkbox: feature.status === "done" || feature.status === "dropped" ? "x" : " ",
+    notes: feature.notes ?? "",
+    links: feature.links ?? [],
+    attachments: feature.attachments ?? [],
+    createdAt: feature.createdAt,
+    statusChangedAt: feature.statusChangedAt,
+  };
+}
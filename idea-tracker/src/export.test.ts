@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { makeIdea } from "../test/fixtures";
+import { buildExportFiles, formatIdeasCsv, formatIdeasHtml, formatIdeasJson, projectFileNames } from "./export";
+import { parseCsvProjects } from "./importers";
+
+const launch = makeIdea({
+  id: "launch",
+  title: 'Launch "Companion", v2',
+  summary: "Mobile <first>",
+  tags: ["mobile", "retention"],
+  isPinned: true,
+  features: [
+    {
+      id: "f1",
+      content: "Realtime sync",
+      createdAt: "2025-01-02T00:00:00.000Z",
+      status: "done",
+      statusChangedAt: "2025-01-03T00:00:00.000Z",
+      notes: "Use CRDTs\nfor offline",
+      links: [{ title: "RFC", url: "https://example.com/rfc?a=1&b=2" }],
+    },
+    {
+      id: "f2",
+      content: "Widgets",
+      createdAt: "2025-01-02T00:00:00.000Z",
+      status: "planned",
+      statusChangedAt: "2025-01-02T00:00:00.000Z",
+    },
+  ],
+});
+
+const archived = makeIdea({ id: "old", title: "Old Experiment", isArchived: true });
+
+describe("export formatters", () => {
+  it("writes one CSV row per feature with quoting", () => {
+    const lines = formatIdeasCsv([launch, archived]).split("\r\n");
+
+    expect(lines[0]).toBe("Project,Project Status,Tags,Feature,Feature Status,Feature Created,Notes,Links");
+    expect(lines[1]).toBe(
+      '"Launch ""Companion"", v2",Pinned,"mobile, retention",Realtime sync,Done,2025-01-02T00:00:00.000Z,"Use CRDTs\nfor offline",https://example.com/rfc?a=1&b=2',
+    );
+    expect(lines[2]).toContain(",Widgets,Planned,");
+    expect(lines[3]).toBe("Old Experiment,Archived,,,,,,");
+    expect(lines[4]).toBe("");
+  });
+
+  it("guards CSV cells that spreadsheets would run as formulas", () => {
+    const risky = makeIdea({ id: "risky", title: '=HYPERLINK("x")', tags: ["@ops"], summary: undefined });
+    const [, row] = formatIdeasCsv([risky]).split("\r\n");
+
+    expect(row).toBe(`"'=HYPERLINK(""x"")",Active,'@ops,,,,,`);
+    expect(parseCsvProjects(formatIdeasCsv([risky]))[0]).toMatchObject({ title: '=HYPERLINK("x")', tags: ["@ops"] });
+  });
+
+  it("renders only http, https and mailto links as anchors", () => {
+    const feature = {
+      ...launch.features[0],
+      links: [
+        { title: "Script", url: "javascript:alert(1)" },
+        { title: "Mail", url: "mailto:team@example.com" },
+      ],
+    };
+    const html = formatIdeasHtml([{ ...launch, features: [feature] }]);
+
+    expect(html).not.toContain("javascript:");
+    expect(html).toContain("<span>Script</span>");
+    expect(html).toContain('<a href="mailto:team@example.com">Mail</a>');
+  });
+
+  it("renders a standalone HTML page with escaped content", () => {
+    const html = formatIdeasHtml([launch]);
+
+    expect(html.startsWith("<!DOCTYPE html>")).toBe(true);
+    expect(html).toContain("<h2>Launch &quot;Companion&quot;, v2</h2>");
+    expect(html).toContain("<p>Mobile &lt;first&gt;</p>");
+    expect(html).toContain('<a href="https://example.com/rfc?a=1&amp;b=2">RFC</a>');
+    expect(html).toContain('<span class="status-done">Realtime sync</span>');
+  });
+
+  it("serializes projects as JSON", () => {
+    expect(JSON.parse(formatIdeasJson([launch]))).toEqual([launch]);
+  });
+});
+
+describe("buildExportFiles", () => {
+  const exportedAt = "2025-05-01T10:00:00.000Z";
+
+  it("names single-file exports by format", () => {
+    expect(buildExportFiles([launch], "markdown", exportedAt).map((file) => file.fileName)).toEqual([
+      "idea-tracker-export-2025-05-01T10-00-00-000Z.md",
+    ]);
+    expect(buildExportFiles([launch], "csv", exportedAt)[0].fileName).toMatch(/\.csv$/);
+    expect(buildExportFiles([launch], "html", exportedAt)[0].fileName).toMatch(/\.html$/);
+  });
+
+  it("puts one Markdown file per project in a subfolder", () => {
+    const files = buildExportFiles([launch, archived], "markdown-per-project", exportedAt);
+
+    expect(files.map((file) => file.fileName)).toEqual([
+      "idea-tracker-export-2025-05-01T10-00-00-000Z/launch-companion-v2.md",
+      "idea-tracker-export-2025-05-01T10-00-00-000Z/old-experiment.md",
+    ]);
+    expect(files[1].contents.startsWith("# Old Experiment")).toBe(true);
+  });
+
+  it("renders Markdown through an export template when one is chosen", () => {
+    const [file] = buildExportFiles([launch, archived], "markdown", exportedAt, "- {{title}} ({{status}})");
+
+    expect(file.contents).toBe('- Launch "Companion", v2 (Pinned)\n\n- Old Experiment (Archived)');
+  });
+
+  it("numbers repeated file names", () => {
+    expect(
+      projectFileNames([makeIdea({ title: "Café" }), makeIdea({ title: "cafe" }), makeIdea({ title: "!!" })]),
+    ).toEqual(["cafe.md", "cafe-2.md", "project.md"]);
+  });
+});
@@ -0,0 +1,227 @@
+import { renderExportTemplate, renderIdeasWithTemplate } from "./export-templates";
+import {
+  FEATURE_STATUS_LABELS,
+  FeatureLink,
+  Idea,
+  IdeaFeature,
+  formatIdeaMarkdown,
+  formatIdeasMarkdown,
+} from "./ideas";
+
+export type ExportFormat = "markdown" | "markdown-per-project" | "json" | "csv" | "html";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["markdown", "markdown-per-project", "json", "csv", "html"];
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  markdown: "Markdown (single file)",
+  "markdown-per-project": "Markdown (one file per project)",
+  json: "JSON",
+  csv: "CSV (one row per feature)",
+  html: "HTML (standalone page)",
+};
+
+export type ExportScope = "selected" | "filtered" | "all" | "archived";
+
+export const EXPORT_SCOPE_LABELS: Record<ExportScope, string> = {
+  selected: "Selected Project",
+  filtered: "Current Filter",
+  all: "All Projects",
+  archived: "Archived Projects",
+};
+
+export type ExportFile = {
+  /** Relative to the destination folder; may include a subfolder. */
+  fileName: string;
+  contents: string;
+};
+
+const CSV_COLUMNS = [
+  "Project",
+  "Project Status",
+  "Tags",
+  "Feature",
+  "Feature Status",
+  "Feature Created",
+  "Notes",
+  "Links",
+] as const;
+
+export function formatIdeasJson(ideas: Idea[]): string {
+  return JSON.stringify(ideas, null, 2);
+}
+
+/**
+ * One row per feature so the file drops straight into a spreadsheet; projects without features still get a row.
+ */
+export function formatIdeasCsv(ideas: Idea[]): string {
+  const rows: string[][] = [[...CSV_COLUMNS]];
+  for (const idea of ideas) {
+    const projectColumns = [idea.title, projectStatusLabel(idea), idea.tags.join(", ")];
+    if (idea.features.length === 0) {
+      rows.push([...projectColumns, "", "", "", "", ""]);
+      continue;
+    }
+    for (const feature of idea.features) {
+      rows.push([
+        ...projectColumns,
+        feature.content,
+        FEATURE_STATUS_LABELS[feature.status],
+        feature.createdAt,
+        feature.notes ?? "",
+        (feature.links ?? []).map((link) => link.url).join(" "),
+      ]);
+    }
+  }
+  return rows.map((row) => row.map(escapeCsvValue).join(",")).join("\r\n") + "\r\n";
+}
+
+export function formatIdeasHtml(ideas: Idea[], title = "Idea Tracker Export"): string {
+  const body =
+    ideas.length === 0 ? "<p><em>No ideas captured yet.</em></p>" : ideas.map(formatIdeaHtmlSection).join("\n");
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    "<style>",
+    "body { font-family: -apple-system, system-ui, sans-serif; max-width: 760px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; color: #1f2328; }",
+    "section { border-bottom: 1px solid #d0d7de; padding-bottom: 1.5rem; margin-bottom: 1.5rem; }",
+    ".meta { color: #59636e; font-size: 0.9rem; }",
+    ".tag { display: inline-block; background: #eef1f5; border-radius: 4px; padding: 0 6px; margin-right: 4px; }",
+    ".status-done { text-decoration: line-through; color: #59636e; }",
+    ".status-dropped { text-decoration: line-through; color: #a0a8b0; }",
+    ".notes { white-space: pre-wrap; color: #3d444d; margin: 0.25rem 0; }",
+    "</style>",
+    "</head>",
+    "<body>",
+    `<h1>${escapeHtml(title)}</h1>`,
+    body,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Builds the files for an export. Per-project Markdown goes into its own subfolder so it does not scatter files
+ * across the destination. A template body, when given, replaces the standard Markdown layout.
+ */
+export function buildExportFiles(
+  ideas: Idea[],
+  format: ExportFormat,
+  exportedAt: string = new Date().toISOString(),
+  templateBody?: string,
+): ExportFile[] {
+  const baseName = `idea-tracker-export-${exportedAt.replace(/[:.]/g, "-")}`;
+  switch (format) {
+    case "markdown":
+      return [
+        {
+          fileName: `${baseName}.md`,
+          contents: templateBody ? renderIdeasWithTemplate(templateBody, ideas) : formatIdeasMarkdown(ideas),
+        },
+      ];
+    case "markdown-per-project": {
+      const fileNames = projectFileNames(ideas);
+      return ideas.map((idea, index) => ({
+        fileName: `${baseName}/${fileNames[index]}`,
+        contents: templateBody ? renderExportTemplate(templateBody, idea) : formatIdeaMarkdown(idea),
+      }));
+    }
+    case "json":
+      return [{ fileName: `${baseName}.json`, contents: formatIdeasJson(ideas) }];
+    case "csv":
+      return [{ fileName: `${baseName}.csv`, contents: formatIdeasCsv(ideas) }];
+    case "html":
+      return [{ fileName: `${baseName}.html`, contents: formatIdeasHtml(ideas) }];
+  }
+}
+
+/**
+ * Slugs each title into a file name, numbering repeats so two projects never overwrite each other.
+ */
+export function projectFileNames(ideas: Idea[]): string[] {
+  const used = new Map<string, number>();
+  return ideas.map((idea) => {
+    const slug = projectSlug(idea.title);
+    const count = (used.get(slug) ?? 0) + 1;
+    used.set(slug, count);
+    return count === 1 ? `${slug}.md` : `${slug}-${count}.md`;
+  });
+}
+
+export function projectSlug(title: string): string {
+  return (
+    title
+      .toLowerCase()
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "project"
+  );
+}
+
+function projectStatusLabel(idea: Idea): string {
+  return idea.isArchived ? "Archived" : idea.isPinned ? "Pinned" : "Active";
+}
+
+function formatIdeaHtmlSection(idea: Idea): string {
+  const lines = ["<section>", `<h2>${escapeHtml(idea.title)}</h2>`];
+  if (idea.summary) {
+    lines.push(...idea.summary.split(/\n{2,}/).map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`));
+  }
+  const tags = idea.tags.map((tag) => `<span class="tag">${escapeHtml(tag)}</span>`).join("");
+  lines.push(`<p class="meta">${projectStatusLabel(idea)}${tags ? ` · ${tags}` : ""}</p>`);
+  if (idea.features.length > 0) {
+    lines.push("<ul>", ...idea.features.map(formatFeatureHtml), "</ul>");
+  }
+  lines.push("</section>");
+  return lines.join("\n");
+}
+
+function formatFeatureHtml(feature: IdeaFeature): string {
+  const parts = [
+    `<span class="status-${feature.status}">${escapeHtml(feature.content)}</span>`,
+    ` <span class="meta">(${FEATURE_STATUS_LABELS[feature.status]})</span>`,
+  ];
+  if (feature.notes) {
+    parts.push(`<div class="notes">${escapeHtml(feature.notes)}</div>`);
+  }
+  if (feature.links?.length) {
+    const links = feature.links.map(formatLinkHtml);
+    parts.push(`<div class="meta">${links.join(" · ")}</div>`);
+  }
+  return `<li>${parts.join("")}</li>`;
+}
+
+/**
+ * Spreadsheets run cells starting with these as formulas, so such cells are written with a leading `'`.
+ */
+const CSV_FORMULA_PATTERN = /^[=+\-@\t\r]/;
+
+function escapeCsvValue(value: string): string {
+  const text = CSV_FORMULA_PATTERN.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const SAFE_LINK_PATTERN = /^(https?:|mailto:)/i;
+
+/**
+ * Only web and mail links become anchors; anything else (e.g. `javascript:`) is shown as plain text.
+ */
+function formatLinkHtml(link: FeatureLink): string {
+  const url = link.url.trim();
+  return SAFE_LINK_PATTERN.test(url)
+    ? `<a href="${escapeHtml(url)}">${escapeHtml(link.title)}</a>`
+    : `<span>${escapeHtml(link.title)}</span>`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
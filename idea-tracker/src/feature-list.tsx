@@ -0,0 +1,240 @@
+import { Action, ActionPanel, Icon, List } from "@raycast/api";
+import path from "node:path";
+import { useMemo } from "react";
+import { EditFeatureForm } from "./project-forms";
+import {
+  FEATURE_STATUSES,
+  FEATURE_STATUS_LABELS,
+  FeatureDetails,
+  FeatureStatus,
+  Idea,
+  IdeaFeature,
+  formatAbsoluteDate,
+  formatRelativeTime,
+} from "./ideas";
+import { useIdeasManager } from "./use-ideas-manager";
+
+export function FeatureList({ projectId }: { projectId: string }) {
+  const {
+    isLoading,
+    projects,
+    setFeatureStatus,
+    updateFeature,
+    moveFeatureToProject,
+    copyFeatureToProject,
+    moveFeatureWithinProject,
+    discardFeature,
+  } = useIdeasManager();
+  const project = useMemo(() => projects.find((item) => item.id === projectId), [projects, projectId]);
+  const destinations = useMemo(
+    () => projects.filter((item) => item.id !== projectId && !item.isArchived),
+    [projects, projectId],
+  );
+
+  if (!project) {
+    return (
+      <List isLoading={isLoading} navigationTitle="Features">
+        {!isLoading && <List.EmptyView icon={Icon.Warning} title="Project not found" />}
+      </List>
+    );
+  }
+
+  return (
+    <List isLoading={isLoading} navigationTitle={`Features • ${project.title}`} searchBarPlaceholder="Search features">
+      {project.features.length === 0 ? (
+        <List.EmptyView icon={Icon.LightBulb} title="No features yet" description="Append a feature to get started." />
+      ) : (
+        project.features.map((feature, index) => (
+          <FeatureListItem
+            key={feature.id}
+            project={project}
+            feature={feature}
+            index={index}
+            destinations={destinations}
+            onSetStatus={setFeatureStatus}
+            onUpdate={updateFeature}
+            onMove={moveFeatureToProject}
+            onCopy={copyFeatureToProject}
+            onReorder={moveFeatureWithinProject}
+            onDiscard={discardFeature}
+          />
+        ))
+      )}
+    </List>
+  );
+}
+
+function FeatureListItem({
+  project,
+  feature,
+  index,
+  destinations,
+  onSetStatus,
+  onUpdate,
+  onMove,
+  onCopy,
+  onReorder,
+  onDiscard,
+}: {
+  project: Idea;
+  feature: IdeaFeature;
+  index: number;
+  destinations: Idea[];
+  onSetStatus: (projectId: string, featureId: string, status: FeatureStatus) => Promise<Idea | null>;
+  onUpdate: (projectId: string, featureId: string, details: FeatureDetails) => Promise<Idea | null>;
+  onMove: (fromProjectId: string, featureId: string, toProjectId: string) => Promise<Idea | null>;
+  onCopy: (fromProjectId: string, featureId: string, toProjectId: string) => Promise<Idea | null>;
+  onReorder: (projectId: string, featureId: string, offset: number) => Promise<Idea | null>;
+  onDiscard: (projectId: string, featureId: string) => Promise<boolean>;
+}) {
+  const isEditable = !project.isArchived;
+  const links = feature.links ?? [];
+  const attachments = feature.attachments ?? [];
+  const detailAccessories: List.Item.Accessory[] = [
+    ...(feature.notes ? [{ icon: Icon.Text, tooltip: "Has notes" }] : []),
+    ...(links.length > 0 ? [{ icon: Icon.Link, text: `${links.length}`, tooltip: "Links" }] : []),
+    ...(attachments.length > 0
+      ? [{ icon: Icon.Paperclip, text: `${attachments.length}`, tooltip: "Attachments" }]
+      : []),
+  ];
+
+  return (
+    <List.Item
+      id={feature.id}
+      title={feature.content}
+      icon={featureStatusIcon(feature.status)}
+      accessories={[
+        ...detailAccessories,
+        { tag: FEATURE_STATUS_LABELS[feature.status] },
+        { text: formatRelativeTime(feature.createdAt), tooltip: `Added ${formatAbsoluteDate(feature.createdAt)}` },
+      ]}
+      actions={
+        <ActionPanel>
+          {isEditable && (
+            <ActionPanel.Section title="Feature">
+              <Action.Push
+                title="Edit Feature"
+                icon={Icon.Pencil}
+                shortcut={{ modifiers: ["cmd"], key: "e" }}
+                target={
+                  <EditFeatureForm
+                    feature={feature}
+                    onSubmit={async (details) => (await onUpdate(project.id, feature.id, details)) !== null}
+                  />
+                }
+              />
+              <ActionPanel.Submenu
+                title="Set Status"
+                icon={Icon.CircleProgress}
+                shortcut={{ modifiers: ["cmd"], key: "s" }}
+              >
+                {FEATURE_STATUSES.map((status) => (
+                  <Action
+                    key={status}
+                    title={FEATURE_STATUS_LABELS[status]}
+                    icon={featureStatusIcon(status)}
+                    onAction={() => onSetStatus(project.id, feature.id, status)}
+                  />
+                ))}
+              </ActionPanel.Submenu>
+              {index > 0 && (
+                <Action
+                  title="Move Higher"
+                  icon={Icon.ArrowUp}
+                  shortcut={{ modifiers: ["cmd", "opt"], key: "arrowUp" }}
+                  onAction={() => onReorder(project.id, feature.id, -1)}
+                />
+              )}
+              {index < project.features.length - 1 && (
+                <Action
+                  title="Move Lower"
+                  icon={Icon.ArrowDown}
+                  shortcut={{ modifiers: ["cmd", "opt"], key: "arrowDown" }}
+                  onAction={() => onReorder(project.id, feature.id, 1)}
+                />
+              )}
+            </ActionPanel.Section>
+          )}
+          {(links.length > 0 || attachments.length > 0) && (
+            <ActionPanel.Section title="Links">
+              {links.map((link, linkIndex) => (
+                <Action.OpenInBrowser
+                  key={`link-${linkIndex}`}
+                  title={`Open ${link.title}`}
+                  url={link.url}
+                  shortcut={linkIndex === 0 ? { modifiers: ["cmd"], key: "o" } : undefined}
+                />
+              ))}
+              {attachments.map((attachment) => (
+                <Action.Open
+                  key={attachment}
+                  title={`Open ${path.basename(attachment)}`}
+                  target={attachment}
+                  icon={Icon.Paperclip}
+                />
+              ))}
+            </ActionPanel.Section>
+          )}
+          {destinations.length > 0 && (
+            <ActionPanel.Section title="Other Projects">
+              {isEditable && (
+                <ActionPanel.Submenu
+                  title="Move to Project"
+                  icon={Icon.ArrowRight}
+                  shortcut={{ modifiers: ["cmd"], key: "m" }}
+                >
+                  {destinations.map((destination) => (
+                    <Action
+                      key={destination.id}
+                      title={destination.title}
+                      onAction={() => onMove(project.id, feature.id, destination.id)}
+                    />
+                  ))}
+                </ActionPanel.Submenu>
+              )}
+              <ActionPanel.Submenu
+                title="Copy to Project"
+                icon={Icon.CopyClipboard}
+                shortcut={{ modifiers: ["cmd", "shift"], key: "m" }}
+              >
+                {destinations.map((destination) => (
+                  <Action
+                    key={destination.id}
+                    title={destination.title}
+                    onAction={() => onCopy(project.id, feature.id, destination.id)}
+                  />
+                ))}
+              </ActionPanel.Submenu>
+            </ActionPanel.Section>
+          )}
+          {isEditable && (
+            <ActionPanel.Section>
+              <Action
+                title="Move Feature to Trash"
+                icon={Icon.Trash}
+                style={Action.Style.Destructive}
+                shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                onAction={() => onDiscard(project.id, feature.id)}
+              />
+            </ActionPanel.Section>
+          )}
+        </ActionPanel>
+      }
+    />
+  );
+}
+
+export function featureStatusIcon(status: FeatureStatus): Icon {
+  switch (status) {
+    case "planned":
+      return Icon.Calendar;
+    case "in-progress":
+      return Icon.CircleProgress50;
+    case "done":
+      return Icon.CheckCircle;
+    case "dropped":
+      return Icon.XMarkCircle;
+    default:
+      return Icon.LightBulb;
+  }
+}
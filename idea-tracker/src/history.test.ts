@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import {
+  EMPTY_HISTORY,
+  HistoryEntry,
+  MutationHistory,
+  applyProjectChanges,
+  diffProjects,
+  readHistory,
+  recordMutation,
+  redoMutation,
+  undoMutation,
+} from "./history";
+import { Idea, createIdea } from "./ideas";
+
+function entry(label: string): HistoryEntry {
+  return { label, timestamp: "2025-01-01T00:00:00.000Z", changes: [] };
+}
+
+function idea(id: string, title: string = id): Idea {
+  return createIdea({ title, createdAt: "2025-01-01T00:00:00.000Z", idFactory: () => id });
+}
+
+describe("recordMutation", () => {
+  it("pushes onto the undo stack and clears redo", () => {
+    const history = recordMutation({ undo: [entry("a")], redo: [entry("b")] }, entry("c"));
+    expect(history.undo.map((item) => item.label)).toEqual(["a", "c"]);
+    expect(history.redo).toEqual([]);
+  });
+
+  it("keeps only the most recent entries", () => {
+    let history = EMPTY_HISTORY;
+    for (const label of ["a", "b", "c", "d"]) {
+      history = recordMutation(history, entry(label), 3);
+    }
+    expect(history.undo.map((item) => item.label)).toEqual(["b", "c", "d"]);
+  });
+});
+
+describe("undoMutation / redoMutation", () => {
+  it("moves entries between the stacks", () => {
+    const start = { undo: [entry("a"), entry("b")], redo: [] };
+
+    const undone = undoMutation(start);
+    expect(undone?.entry.label).toBe("b");
+    expect(undone?.history).toEqual({ undo: [entry("a")], redo: [entry("b")] });
+
+    const redone = redoMutation(undone!.history);
+    expect(redone?.entry.label).toBe("b");
+    expect(redone?.history).toEqual(start);
+  });
+
+  it("returns null when there is nothing to move", () => {
+    expect(undoMutation(EMPTY_HISTORY)).toBeNull();
+    expect(redoMutation(EMPTY_HISTORY)).toBeNull();
+  });
+});
+
+describe("project changes", () => {
+  const a = idea("a");
+  const b = idea("b");
+  const c = idea("c");
+
+  it("journals only the projects that changed", () => {
+    const renamed = { ...b, title: "B2" };
+    const changes = diffProjects([a, b, c], [idea("d"), a, renamed]);
+
+    expect(changes).toEqual([
+      { id: "b", before: b, beforeIndex: 1, after: renamed, afterIndex: 2 },
+      { id: "c", before: c, beforeIndex: 2 },
+      { id: "d", after: idea("d"), afterIndex: 0 },
+    ]);
+    expect(diffProjects([a, b], [a, { ...b }])).toEqual([]);
+  });
+
+  it("undoes and redoes changes without touching other projects", () => {
+    const renamed = { ...b, title: "B2" };
+    const changes = diffProjects([a, b, c], [a, renamed]);
+    const retagged = { ...a, tags: ["normalized"] };
+
+    const undone = applyProjectChanges([retagged, renamed], changes, "undo");
+    expect(undone).toEqual([retagged, b, c]);
+    expect(applyProjectChanges(undone, changes, "redo")).toEqual([retagged, renamed]);
+  });
+
+  it("drops entries journaled as whole snapshots", () => {
+    const legacy = { undo: [{ label: "old", before: [], after: [] }, entry("new")], redo: [] };
+    expect(readHistory(legacy as unknown as MutationHistory).undo).toEqual([entry("new")]);
+    expect(readHistory(undefined)).toEqual(EMPTY_HISTORY);
+  });
+});
@@ -0,0 +1,142 @@
+import { Idea } from "./ideas";
+import { TrashItem } from "./trash";
+
+export const HISTORY_STORAGE_KEY = "raycast-idea-tracker/history";
+
+export const HISTORY_LIMIT = 20;
+
+/**
+ * One project touched by a mutation. `before` is missing for projects the mutation created and `after` for projects
+ * it removed; the indexes record where in the stored array they sat so undo and redo put them back in place.
+ */
+export type ProjectChange = {
+  id: string;
+  before?: Idea;
+  beforeIndex?: number;
+  after?: Idea;
+  afterIndex?: number;
+};
+
+/**
+ * Only the projects a mutation touched are journaled, so undo leaves writes made to other projects since then (such
+ * as tag normalization) alone.
+ */
+export type HistoryEntry = {
+  label: string;
+  timestamp: string;
+  changes: ProjectChange[];
+  /** Trash entries the mutation created; undo removes them and redo adds them back. */
+  trashAdded?: TrashItem[];
+  /** Trash entries the mutation consumed, e.g. by restoring them; undo puts them back. */
+  trashRemoved?: TrashItem[];
+};
+
+export type MutationHistory = {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+};
+
+export const EMPTY_HISTORY: MutationHistory = { undo: [], redo: [] };
+
+/**
+ * Lists the projects that differ between two versions of the stored array, matched by ID.
+ */
+export function diffProjects(before: Idea[], after: Idea[]): ProjectChange[] {
+  const beforeById = new Map(before.map((idea, index) => [idea.id, { idea, index }]));
+  const afterById = new Map(after.map((idea, index) => [idea.id, { idea, index }]));
+  const changes: ProjectChange[] = [];
+
+  before.forEach((idea, index) => {
+    const next = afterById.get(idea.id);
+    if (!next) {
+      changes.push({ id: idea.id, before: idea, beforeIndex: index });
+    } else if (next.idea !== idea && JSON.stringify(next.idea) !== JSON.stringify(idea)) {
+      changes.push({ id: idea.id, before: idea, beforeIndex: index, after: next.idea, afterIndex: next.index });
+    }
+  });
+  after.forEach((idea, index) => {
+    if (!beforeById.has(idea.id)) {
+      changes.push({ id: idea.id, after: idea, afterIndex: index });
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Rolls `changes` back (`undo`) or forward (`redo`) on top of the current projects. Changed projects are replaced in
+ * place, removed ones dropped and re-created ones inserted at their recorded index.
+ */
+export function applyProjectChanges(projects: Idea[], changes: ProjectChange[], direction: "undo" | "redo"): Idea[] {
+  const targets = changes.map((change) =>
+    direction === "undo"
+      ? { id: change.id, idea: change.before, index: change.beforeIndex }
+      : { id: change.id, idea: change.after, index: change.afterIndex },
+  );
+  const targetsById = new Map(targets.map((target) => [target.id, target]));
+  const present = new Set(projects.map((idea) => idea.id));
+
+  const next = projects.flatMap((idea) => {
+    const target = targetsById.get(idea.id);
+    if (!target) {
+      return [idea];
+    }
+    return target.idea ? [target.idea] : [];
+  });
+
+  const inserts = targets
+    .flatMap(({ id, idea, index }) => (idea && !present.has(id) ? [{ idea, index: index ?? 0 }] : []))
+    .sort((a, b) => a.index - b.index);
+  for (const { idea, index } of inserts) {
+    next.splice(Math.min(index, next.length), 0, idea);
+  }
+
+  return next;
+}
+
+/**
+ * Drops journal entries written before mutations were stored as per-project changes.
+ */
+export function readHistory(history?: MutationHistory): MutationHistory {
+  if (!history) {
+    return EMPTY_HISTORY;
+  }
+  const isCurrent = (entry: HistoryEntry) => Array.isArray(entry.changes);
+  return { undo: history.undo.filter(isCurrent), redo: history.redo.filter(isCurrent) };
+}
+
+/**
+ * Appends a mutation to the undo stack, dropping the oldest entries past `limit`. A new mutation invalidates redo.
+ */
+export function recordMutation(
+  history: MutationHistory,
+  entry: HistoryEntry,
+  limit: number = HISTORY_LIMIT,
+): MutationHistory {
+  return {
+    undo: [...history.undo, entry].slice(-limit),
+    redo: [],
+  };
+}
+
+export function undoMutation(history: MutationHistory): { history: MutationHistory; entry: HistoryEntry } | null {
+  const entry = history.undo[history.undo.length - 1];
+  if (!entry) {
+    return null;
+  }
+  return {
+    entry,
+    history: { undo: history.undo.slice(0, -1), redo: [...history.redo, entry] },
+  };
+}
+
+export function redoMutation(history: MutationHistory): { history: MutationHistory; entry: HistoryEntry } | null {
+  const entry = history.redo[history.redo.length - 1];
+  if (!entry) {
+    return null;
+  }
+  return {
+    entry,
+    history: { undo: [...history.undo, entry], redo: history.redo.slice(0, -1) },
+  };
+}
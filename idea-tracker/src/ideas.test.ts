@@ -1,13 +1,35 @@
 import { describe, expect, it } from "vitest";
 import {
+  CURRENT_SCHEMA_VERSION,
+  IDEA_MIGRATIONS,
+  INBOX_PROJECT_ID,
   Idea,
+  StoredIdea,
+  applyFeatureStatus,
   createFeaturesFromText,
   createIdea,
+  copyFeature,
+  createIdeaFromImport,
+  duplicateIdea,
+  ensureInbox,
+  formatFeatureLinks,
   formatIdeaMarkdown,
   formatIdeasMarkdown,
   mergeFeatureBodies,
+  mergeIdeas,
+  migrateIdeas,
+  moveFeature,
+  nextFeatureStatus,
+  normalizeIdea,
+  parseExportedDate,
+  parseFeatureLinks,
   parseIdeasFromMarkdown,
   parseTagsInput,
+  previousFeatureStatus,
+  reorderFeature,
+  splitIdea,
+  summarizeFeatureProgress,
+  updateFeatureDetails,
 } from "./ideas";
 
 describe("createFeaturesFromText", () => {
@@ -29,8 +51,20 @@ describe("createFeaturesFromText", () => {
     });
 
     expect(features).toEqual([
-      { id: "feature-1", content: "Signup flow", createdAt: "2025-01-01T00:00:00.000Z" },
-      { id: "feature-2", content: "Analytics dashboard", createdAt: "2025-01-01T00:00:00.000Z" },
+      {
+        id: "feature-1",
+        content: "Signup flow",
+        createdAt: "2025-01-01T00:00:00.000Z",
+        status: "idea",
+        statusChangedAt: "2025-01-01T00:00:00.000Z",
+      },
+      {
+        id: "feature-2",
+        content: "Analytics dashboard",
+        createdAt: "2025-01-01T00:00:00.000Z",
+        status: "idea",
+        statusChangedAt: "2025-01-01T00:00:00.000Z",
+      },
     ]);
   });
 });
@@ -61,9 +95,21 @@ describe("createIdea", () => {
 });
 
 describe("mergeFeatureBodies", () => {
-  const baseFeatures = [
-    { id: "feature-1", content: "Prototype", createdAt: "2025-01-01T00:00:00.000Z" },
-    { id: "feature-2", content: "User testing", createdAt: "2025-01-02T00:00:00.000Z" },
+  const baseFeatures: Idea["features"] = [
+    {
+      id: "feature-1",
+      content: "Prototype",
+      createdAt: "2025-01-01T00:00:00.000Z",
+      status: "planned",
+      statusChangedAt: "2025-01-03T00:00:00.000Z",
+    },
+    {
+      id: "feature-2",
+      content: "User testing",
+      createdAt: "2025-01-02T00:00:00.000Z",
+      status: "idea",
+      statusChangedAt: "2025-01-02T00:00:00.000Z",
+    },
   ];
 
   it("updates existing entries and appends new ones while preserving metadata", () => {
@@ -79,9 +125,27 @@ describe("mergeFeatureBodies", () => {
     });
 
     expect(result).toEqual([
-      { id: "feature-1", content: "Prototype plan", createdAt: "2025-01-01T00:00:00.000Z" },
-      { id: "feature-2", content: "User testing", createdAt: "2025-01-02T00:00:00.000Z" },
-      { id: "feature-new-1", content: "Launch", createdAt: "2025-02-01T00:00:00.000Z" },
+      {
+        id: "feature-1",
+        content: "Prototype plan",
+        createdAt: "2025-01-01T00:00:00.000Z",
+        status: "planned",
+        statusChangedAt: "2025-01-03T00:00:00.000Z",
+      },
+      {
+        id: "feature-2",
+        content: "User testing",
+        createdAt: "2025-01-02T00:00:00.000Z",
+        status: "idea",
+        statusChangedAt: "2025-01-02T00:00:00.000Z",
+      },
+      {
+        id: "feature-new-1",
+        content: "Launch",
+        createdAt: "2025-02-01T00:00:00.000Z",
+        status: "idea",
+        statusChangedAt: "2025-02-01T00:00:00.000Z",
+      },
     ]);
   });
 
@@ -90,6 +154,13 @@ describe("mergeFeatureBodies", () => {
     expect(result).toEqual([]);
   });
 
+  it("keeps ids aligned with their fields when a middle entry is blanked", () => {
+    const result = mergeFeatureBodies(baseFeatures, ["", "User testing round 2"], {
+      timestamp: "2025-02-01T00:00:00.000Z",
+    });
+    expect(result).toEqual([{ ...baseFeatures[1], content: "User testing round 2" }]);
+  });
+
   it("does not mutate the original features array", () => {
     const snapshot = JSON.parse(JSON.stringify(baseFeatures));
     mergeFeatureBodies(baseFeatures, ["Prototype"], { timestamp: "2025-02-01T00:00:00.000Z" });
@@ -97,6 +168,209 @@ describe("mergeFeatureBodies", () => {
   });
 });
 
+describe("feature status lifecycle", () => {
+  const feature: Idea["features"][number] = {
+    id: "feature-1",
+    content: "Prototype",
+    createdAt: "2025-01-01T00:00:00.000Z",
+    status: "idea",
+    statusChangedAt: "2025-01-01T00:00:00.000Z",
+  };
+
+  it("advances and reverts through the ordered statuses", () => {
+    expect(nextFeatureStatus("idea")).toBe("planned");
+    expect(nextFeatureStatus("in-progress")).toBe("done");
+    expect(nextFeatureStatus("dropped")).toBeNull();
+    expect(previousFeatureStatus("done")).toBe("in-progress");
+    expect(previousFeatureStatus("idea")).toBeNull();
+  });
+
+  it("stamps statusChangedAt only when the status changes", () => {
+    const planned = applyFeatureStatus(feature, "planned", "2025-02-01T00:00:00.000Z");
+    expect(planned).toEqual({ ...feature, status: "planned", statusChangedAt: "2025-02-01T00:00:00.000Z" });
+    expect(applyFeatureStatus(feature, "idea", "2025-02-01T00:00:00.000Z")).toBe(feature);
+  });
+
+  it("counts done features and ignores dropped ones", () => {
+    expect(
+      summarizeFeatureProgress([
+        { ...feature, id: "a", status: "done" },
+        { ...feature, id: "b", status: "in-progress" },
+        { ...feature, id: "c", status: "dropped" },
+      ]),
+    ).toEqual({ done: 1, total: 2 });
+  });
+});
+
+describe("normalizeIdea", () => {
+  it("fills in status fields for features stored before statuses existed", () => {
+    const idea = normalizeIdea({
+      id: "idea-1",
+      title: "Legacy",
+      features: [{ id: "feature-1", content: "Old bullet", createdAt: "2024-06-01T00:00:00.000Z" }],
+      createdAt: "2024-06-01T00:00:00.000Z",
+      updatedAt: "2024-06-01T00:00:00.000Z",
+    });
+
+    expect(idea.features).toEqual([
+      {
+        id: "feature-1",
+        content: "Old bullet",
+        createdAt: "2024-06-01T00:00:00.000Z",
+        status: "idea",
+        statusChangedAt: "2024-06-01T00:00:00.000Z",
+      },
+    ]);
+    expect(idea.tags).toEqual([]);
+    expect(idea.isPinned).toBe(false);
+  });
+});
+
+describe("migrateIdeas", () => {
+  const currentShape: Idea = {
+    id: "idea-1",
+    title: "Launch",
+    summary: "Ship it",
+    tags: ["growth"],
+    isPinned: true,
+    isArchived: false,
+    features: [
+      {
+        id: "feature-1",
+        content: "Beta",
+        createdAt: "2025-01-01T00:00:00.000Z",
+        status: "done",
+        statusChangedAt: "2025-01-05T00:00:00.000Z",
+      },
+    ],
+    createdAt: "2025-01-01T00:00:00.000Z",
+    updatedAt: "2025-01-05T00:00:00.000Z",
+  };
+
+  const fixtures: [string, number, StoredIdea, Idea][] = [
+    [
+      "v1 without optional collections or flags",
+      1,
+      { id: "idea-1", title: "Bare", createdAt: "2024-01-01T00:00:00.000Z", updatedAt: "2024-01-01T00:00:00.000Z" },
+      {
+        id: "idea-1",
+        title: "Bare",
+        tags: [],
+        isPinned: false,
+        isArchived: false,
+        features: [],
+        createdAt: "2024-01-01T00:00:00.000Z",
+        updatedAt: "2024-01-01T00:00:00.000Z",
+      },
+    ],
+    [
+      "v1 with plain features",
+      1,
+      {
+        id: "idea-2",
+        title: "Plain",
+        tags: ["ops"],
+        features: [{ id: "feature-1", content: "Alerting", createdAt: "2024-02-01T00:00:00.000Z" }],
+        createdAt: "2024-02-01T00:00:00.000Z",
+        updatedAt: "2024-02-01T00:00:00.000Z",
+      },
+      {
+        id: "idea-2",
+        title: "Plain",
+        tags: ["ops"],
+        isPinned: false,
+        isArchived: false,
+        features: [
+          {
+            id: "feature-1",
+            content: "Alerting",
+            createdAt: "2024-02-01T00:00:00.000Z",
+            status: "idea",
+            statusChangedAt: "2024-02-01T00:00:00.000Z",
+          },
+        ],
+        createdAt: "2024-02-01T00:00:00.000Z",
+        updatedAt: "2024-02-01T00:00:00.000Z",
+      },
+    ],
+    [
+      "v2 with flags but no feature statuses",
+      2,
+      {
+        id: "idea-3",
+        title: "Flags",
+        tags: [],
+        isPinned: false,
+        isArchived: true,
+        features: [{ id: "feature-1", content: "Export", createdAt: "2024-03-01T00:00:00.000Z" }],
+        createdAt: "2024-03-01T00:00:00.000Z",
+        updatedAt: "2024-03-01T00:00:00.000Z",
+      },
+      {
+        id: "idea-3",
+        title: "Flags",
+        tags: [],
+        isPinned: false,
+        isArchived: true,
+        features: [
+          {
+            id: "feature-1",
+            content: "Export",
+            createdAt: "2024-03-01T00:00:00.000Z",
+            status: "idea",
+            statusChangedAt: "2024-03-01T00:00:00.000Z",
+          },
+        ],
+        createdAt: "2024-03-01T00:00:00.000Z",
+        updatedAt: "2024-03-01T00:00:00.000Z",
+      },
+    ],
+    [
+      "v3 with untrimmed and duplicate tags",
+      3,
+      {
+        id: "idea-4",
+        title: "Tags",
+        tags: [" Growth", "growth", "B2B ", ""],
+        isPinned: false,
+        isArchived: false,
+        features: [],
+        createdAt: "2024-04-01T00:00:00.000Z",
+        updatedAt: "2024-04-01T00:00:00.000Z",
+      },
+      {
+        id: "idea-4",
+        title: "Tags",
+        tags: ["Growth", "B2B"],
+        isPinned: false,
+        isArchived: false,
+        features: [],
+        createdAt: "2024-04-01T00:00:00.000Z",
+        updatedAt: "2024-04-01T00:00:00.000Z",
+      },
+    ],
+    ["current shape", CURRENT_SCHEMA_VERSION, currentShape, currentShape],
+  ];
+
+  it.each(fixtures)("upgrades %s", (_label, version, stored, expected) => {
+    const result = migrateIdeas([stored], version);
+    expect(result.ideas).toEqual([expected]);
+    expect(result.version).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  it("keeps migrations ordered and reports the ones applied", () => {
+    const versions = IDEA_MIGRATIONS.map((migration) => migration.version);
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(migrateIdeas([], 1).applied).toEqual(versions);
+    expect(migrateIdeas([], CURRENT_SCHEMA_VERSION).applied).toEqual([]);
+  });
+
+  it("is idempotent when re-run over migrated data", () => {
+    const once = migrateIdeas([fixtures[1][2]], 1).ideas;
+    expect(migrateIdeas(once, 1).ideas).toEqual(once);
+  });
+});
+
 describe("formatIdeaMarkdown", () => {
   const stubFormatDate = (iso: string) => `formatted-${iso}`;
 
@@ -109,8 +383,34 @@ describe("formatIdeaMarkdown", () => {
       isPinned: true,
       isArchived: false,
       features: [
-        { id: "feature-1", content: "Realtime sync", createdAt: "2025-01-01T00:00:00.000Z" },
-        { id: "feature-2", content: "Push notifications", createdAt: "2025-01-01T00:00:00.000Z" },
+        {
+          id: "feature-1",
+          content: "Realtime sync",
+          createdAt: "2025-01-01T00:00:00.000Z",
+          status: "done",
+          statusChangedAt: "2025-01-02T00:00:00.000Z",
+        },
+        {
+          id: "feature-2",
+          content: "Push notifications",
+          createdAt: "2025-01-01T00:00:00.000Z",
+          status: "in-progress",
+          statusChangedAt: "2025-01-02T00:00:00.000Z",
+        },
+        {
+          id: "feature-3",
+          content: "Widgets",
+          createdAt: "2025-01-01T00:00:00.000Z",
+          status: "idea",
+          statusChangedAt: "2025-01-01T00:00:00.000Z",
+        },
+        {
+          id: "feature-4",
+          content: "Smartwatch app",
+          createdAt: "2025-01-01T00:00:00.000Z",
+          status: "dropped",
+          statusChangedAt: "2025-01-02T00:00:00.000Z",
+        },
       ],
       createdAt: "2025-01-01T00:00:00.000Z",
       updatedAt: "2025-01-02T12:00:00.000Z",
@@ -131,8 +431,10 @@ describe("formatIdeaMarkdown", () => {
         "",
         "## Features",
         "",
-        "- Realtime sync",
-        "- Push notifications",
+        "- [x] Realtime sync",
+        "- [ ] Push notifications _(In Progress)_",
+        "- [ ] Widgets",
+        "- [x] ~~Smartwatch app~~",
       ].join("\n"),
     );
   });
@@ -235,6 +537,23 @@ describe("parseTagsInput", () => {
   it("splits and trims comma separated tags", () => {
     expect(parseTagsInput("growth,  mobile ,  B2B")).toEqual(["growth", "mobile", "B2B"]);
   });
+
+  it("drops case-insensitive duplicates across picker values and typed tags", () => {
+    expect(parseTagsInput(["Growth", "mobile", "growth, Mobile , web"])).toEqual(["Growth", "mobile", "web"]);
+  });
+
+  it("normalizes each segment of hierarchical tags", () => {
+    expect(parseTagsInput("Work / Client A, /growth/", "kebab-case")).toEqual(["work/client-a", "growth"]);
+  });
+
+  it("applies the configured normalization", () => {
+    expect(parseTagsInput("Side Project, B2B", "lowercase")).toEqual(["side project", "b2b"]);
+    expect(parseTagsInput("Side  Project, snake_case, -Edge-", "kebab-case")).toEqual([
+      "side-project",
+      "snake-case",
+      "edge",
+    ]);
+  });
 });
 
 describe("parseIdeasFromMarkdown", () => {
@@ -258,11 +577,11 @@ describe("parseIdeasFromMarkdown", () => {
     expect(result).toEqual([
       {
         title: "Launch Companion App",
-        features: ["Realtime sync", "Push notifications"],
+        features: [{ content: "Realtime sync" }, { content: "Push notifications" }],
       },
       {
         title: "Growth Experiments",
-        features: ["Referral program", "Upgrade nudges"],
+        features: [{ content: "Referral program" }, { content: "Upgrade nudges" }],
       },
       {
         title: "Empty Project",
@@ -282,8 +601,395 @@ describe("parseIdeasFromMarkdown", () => {
     expect(result).toEqual([
       {
         title: "Untitled Project",
-        features: ["First idea", "Second idea"],
+        features: [{ content: "First idea" }, { content: "Second idea" }],
+      },
+    ]);
+  });
+
+  it("reads task-list checkboxes as feature statuses", () => {
+    const markdown = [
+      "# Checklist",
+      "- [ ] Sketch",
+      "- [x] Ship",
+      "- [x] ~~Fax support~~",
+      "- [ ] API _(Planned)_",
+    ].join("\n");
+
+    expect(parseIdeasFromMarkdown(markdown)).toEqual([
+      {
+        title: "Checklist",
+        features: [
+          { content: "Sketch", status: "idea" },
+          { content: "Ship", status: "done" },
+          { content: "Fax support", status: "dropped" },
+          { content: "API", status: "planned" },
+        ],
+      },
+    ]);
+  });
+});
+
+describe("Markdown export round trip", () => {
+  const ideas: Idea[] = [
+    {
+      id: "idea-1",
+      title: "Launch Companion App",
+      summary: "Mobile app to support core desktop product.\n\nStart with iOS, then Android.",
+      tags: ["mobile", "retention"],
+      isPinned: true,
+      isArchived: false,
+      features: [
+        {
+          id: "feature-1",
+          content: "Realtime sync",
+          createdAt: "2025-01-01T00:00:00.000Z",
+          status: "done",
+          statusChangedAt: "2025-01-02T00:00:00.000Z",
+        },
+        {
+          id: "feature-2",
+          content: "Push notifications",
+          createdAt: "2025-01-01T00:00:00.000Z",
+          status: "in-progress",
+          statusChangedAt: "2025-01-02T00:00:00.000Z",
+        },
+        {
+          id: "feature-3",
+          content: "Widgets",
+          createdAt: "2025-01-01T00:00:00.000Z",
+          status: "idea",
+          statusChangedAt: "2025-01-01T00:00:00.000Z",
+        },
+        {
+          id: "feature-4",
+          content: "Smartwatch app",
+          createdAt: "2025-01-01T00:00:00.000Z",
+          status: "dropped",
+          statusChangedAt: "2025-01-02T00:00:00.000Z",
+        },
+      ],
+      createdAt: "2025-01-01T00:00:00.000Z",
+      updatedAt: "2025-01-02T12:00:00.000Z",
+    },
+    {
+      id: "idea-2",
+      title: "Old Experiment",
+      summary: undefined,
+      tags: [],
+      isPinned: false,
+      isArchived: true,
+      features: [],
+      createdAt: "2024-05-01T08:30:00.000Z",
+      updatedAt: "2024-06-01T08:30:00.000Z",
+    },
+    {
+      id: "idea-3",
+      title: "Docs Refresh",
+      summary: "Rewrite the getting started guide.",
+      tags: ["docs"],
+      isPinned: false,
+      isArchived: false,
+      features: [
+        {
+          id: "feature-5",
+          content: "Planned outline",
+          createdAt: "2025-03-01T00:00:00.000Z",
+          status: "planned",
+          statusChangedAt: "2025-03-02T00:00:00.000Z",
+          notes: "Cover install and first run.\n\n- Keep it short",
+          links: [{ title: "Current guide", url: "https://example.com/docs?page=1" }],
+          attachments: ["/tmp/outline draft.pdf"],
+        },
+      ],
+      createdAt: "2025-03-01T00:00:00.000Z",
+      updatedAt: "2025-03-02T00:00:00.000Z",
+    },
+  ];
+
+  function toImportShape(idea: Idea) {
+    return {
+      title: idea.title,
+      summary: idea.summary,
+      tags: idea.tags,
+      isPinned: idea.isPinned,
+      isArchived: idea.isArchived,
+      createdAt: idea.createdAt,
+      updatedAt: idea.updatedAt,
+      features: idea.features.map((feature) => ({
+        content: feature.content,
+        status: feature.status,
+        ...(feature.notes ? { notes: feature.notes } : {}),
+        ...(feature.links ? { links: feature.links } : {}),
+        ...(feature.attachments ? { attachments: feature.attachments } : {}),
+      })),
+    };
+  }
+
+  it("parses exported Markdown back into the original project data", () => {
+    const markdown = formatIdeasMarkdown(ideas);
+    expect(parseIdeasFromMarkdown(markdown)).toEqual(ideas.map(toImportShape));
+  });
+
+  it("writes ISO dates and ignores locale-formatted ones on import", () => {
+    expect(formatIdeaMarkdown(ideas[1])).toContain("- Created: 2024-05-01T08:30:00.000Z");
+    expect(parseExportedDate("2025-01-02")).toBe("2025-01-02T00:00:00.000Z");
+    expect(parseExportedDate("2025-01-02T10:00:00+02:00")).toBe("2025-01-02T08:00:00.000Z");
+    expect(parseExportedDate("1.2.2025, 10:00:00")).toBeUndefined();
+    expect(parseExportedDate("1/2/2025, 10:00:00 AM")).toBeUndefined();
+  });
+
+  it("rebuilds equivalent ideas from a single exported project", () => {
+    const markdown = formatIdeaMarkdown(ideas[0]);
+    const [parsed] = parseIdeasFromMarkdown(markdown);
+    let counter = 0;
+    const rebuilt = createIdeaFromImport(parsed, {
+      timestamp: "2025-04-01T00:00:00.000Z",
+      idFactory: () => `id-${++counter}`,
+    });
+
+    expect(rebuilt).toMatchObject(toImportShape(ideas[0]));
+    expect(rebuilt.features.map((feature) => feature.id)).toEqual(["id-1", "id-2", "id-3", "id-4"]);
+  });
+
+  it("keeps horizontal rules inside a summary with their project", () => {
+    const withRule = { ...ideas[0], summary: "Line one\n\n---\n\nafter rule" };
+    const markdown = formatIdeasMarkdown([withRule, ideas[2]]);
+
+    expect(parseIdeasFromMarkdown(markdown)).toEqual([withRule, ideas[2]].map(toImportShape));
+  });
+
+  it("keeps identical projects of an ungrouped export", () => {
+    const markdown = formatIdeasMarkdown([ideas[0], ideas[0]]);
+
+    expect(parseIdeasFromMarkdown(markdown)).toEqual([ideas[0], ideas[0]].map(toImportShape));
+  });
+
+  it("does not mistake Created/Updated bullets for features", () => {
+    const markdown = formatIdeaMarkdown(ideas[1]);
+    expect(parseIdeasFromMarkdown(markdown)[0].features).toEqual([]);
+  });
+});
+
+describe("feature details", () => {
+  const idea = createIdea({
+    title: "Docs",
+    features: createFeaturesFromText("Outline", { timestamp: "2025-01-01T00:00:00.000Z", idFactory: () => "f1" }),
+    createdAt: "2025-01-01T00:00:00.000Z",
+    idFactory: () => "idea",
+  });
+
+  it("stores notes, links and attachments and drops empty ones", () => {
+    const updated = updateFeatureDetails(
+      idea,
+      "f1",
+      {
+        content: " Outline v2 ",
+        notes: "  ",
+        links: [
+          { title: "Spec", url: "https://example.com" },
+          { title: "", url: " " },
+        ],
+        attachments: ["/tmp/a.png", "/tmp/a.png"],
+      },
+      "2025-02-01T00:00:00.000Z",
+    );
+
+    expect(updated?.features[0]).toMatchObject({
+      content: "Outline v2",
+      notes: undefined,
+      links: [{ title: "Spec", url: "https://example.com" }],
+      attachments: ["/tmp/a.png"],
+    });
+    expect(updated?.updatedAt).toBe("2025-02-01T00:00:00.000Z");
+    expect(updateFeatureDetails(idea, "f1", { content: "  " })).toBeNull();
+    expect(updateFeatureDetails(idea, "missing", { content: "Text" })).toBeNull();
+  });
+
+  it("parses and formats one link per line", () => {
+    const links = parseFeatureLinks("https://a.example\n\nFigma | https://figma.com/file?a=1|2");
+
+    expect(links).toEqual([
+      { title: "https://a.example", url: "https://a.example" },
+      { title: "Figma", url: "https://figma.com/file?a=1|2" },
+    ]);
+    expect(formatFeatureLinks(links)).toBe("https://a.example\nFigma | https://figma.com/file?a=1|2");
+  });
+
+  it("renders details beneath the feature bullet", () => {
+    const markdown = formatIdeaMarkdown(
+      updateFeatureDetails(idea, "f1", {
+        content: "Outline",
+        notes: "Short",
+        links: [{ title: "Spec", url: "https://example.com" }],
+        attachments: ["/tmp/a.png"],
+      }) as Idea,
+    );
+
+    expect(markdown).toContain(
+      [
+        "- [ ] Outline",
+        "  > Short",
+        "  - Link: [Spec](https://example.com)",
+        "  - Attachment: [a.png](file:///tmp/a.png)",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("Inbox", () => {
+  it("adds the Inbox only when it is missing", () => {
+    const withInbox = ensureInbox([], "2025-01-01T00:00:00.000Z");
+    expect(withInbox).toEqual([expect.objectContaining({ id: INBOX_PROJECT_ID, title: "Inbox" })]);
+    expect(ensureInbox(withInbox)).toBe(withInbox);
+  });
+});
+
+describe("moveFeature", () => {
+  const [source, target] = ["source", "target"].map((id) =>
+    createIdea({
+      title: id,
+      features: createFeaturesFromText(id === "source" ? "Keep\nMove me" : "Existing", {
+        timestamp: "2025-01-01T00:00:00.000Z",
+        idFactory: (() => {
+          let counter = 0;
+          return () => `${id}-feature-${++counter}`;
+        })(),
+      }),
+      createdAt: "2025-01-01T00:00:00.000Z",
+      idFactory: () => id,
+    }),
+  );
+
+  it("moves the feature with its ID and history intact", () => {
+    const moved = moveFeature([source, target], "source", "source-feature-2", "target", "2025-02-01T00:00:00.000Z");
+
+    expect(moved?.[0].features.map((feature) => feature.content)).toEqual(["Keep"]);
+    expect(moved?.[1].features.at(-1)).toEqual(source.features[1]);
+    expect(moved?.map((idea) => idea.updatedAt)).toEqual(["2025-02-01T00:00:00.000Z", "2025-02-01T00:00:00.000Z"]);
+  });
+
+  it("returns null for unknown features or projects", () => {
+    expect(moveFeature([source, target], "source", "missing", "target")).toBeNull();
+    expect(moveFeature([source, target], "source", "source-feature-1", "missing")).toBeNull();
+    expect(moveFeature([source, target], "source", "source-feature-1", "source")).toBeNull();
+  });
+
+  it("copies a feature under a new ID but keeps its dates and status", () => {
+    const copied = copyFeature([source, target], "source", "source-feature-2", "target", {
+      timestamp: "2025-02-01T00:00:00.000Z",
+      idFactory: () => "copy-1",
+    });
+
+    expect(copied?.[0]).toBe(source);
+    expect(copied?.[1].features.at(-1)).toEqual({ ...source.features[1], id: "copy-1" });
+    expect(copied?.[1].updatedAt).toBe("2025-02-01T00:00:00.000Z");
+  });
+
+  it("reorders features within a project", () => {
+    const reordered = reorderFeature(source, "source-feature-2", -1, "2025-02-01T00:00:00.000Z");
+
+    expect(reordered?.features.map((feature) => feature.id)).toEqual(["source-feature-2", "source-feature-1"]);
+    expect(reordered?.updatedAt).toBe("2025-02-01T00:00:00.000Z");
+    expect(reorderFeature(source, "source-feature-1", -1)).toBeNull();
+    expect(reorderFeature(source, "source-feature-2", 1)).toBeNull();
+  });
+});
+
+describe("mergeIdeas and splitIdea", () => {
+  let counter = 0;
+  const idFactory = () => `id-${++counter}`;
+  const target = createIdea({
+    title: "Garden",
+    summary: "Plan beds",
+    tags: ["home"],
+    features: createFeaturesFromText("Watering\nCompost", { timestamp: "2025-02-01T00:00:00.000Z", idFactory }),
+    createdAt: "2025-02-01T00:00:00.000Z",
+    idFactory,
+  });
+  const source = createIdea({
+    title: "Yard",
+    summary: "Track chores",
+    tags: ["home", "outdoor"],
+    features: createFeaturesFromText("Compost\nMowing", { timestamp: "2025-01-01T00:00:00.000Z", idFactory }),
+    createdAt: "2025-01-01T00:00:00.000Z",
+    isPinned: true,
+    idFactory,
+  });
+
+  it("merges features, tags, summaries and the earliest creation date", () => {
+    const merged = mergeIdeas(target, source, "2025-03-01T00:00:00.000Z");
+
+    expect(merged.id).toBe(target.id);
+    expect(merged.features.map((feature) => feature.content)).toEqual(["Watering", "Compost", "Mowing"]);
+    expect(merged.tags).toEqual(["home", "outdoor"]);
+    expect(merged.summary).toBe("Plan beds\n\nTrack chores");
+    expect(merged.createdAt).toBe("2025-01-01T00:00:00.000Z");
+    expect(merged.updatedAt).toBe("2025-03-01T00:00:00.000Z");
+    expect(merged.isPinned).toBe(true);
+  });
+
+  it("splits selected features into a new project with inherited tags", () => {
+    const result = splitIdea(source, [source.features[1].id], {
+      title: " Lawn ",
+      timestamp: "2025-03-01T00:00:00.000Z",
+      idFactory: () => "split-1",
+    });
+
+    expect(result?.original.features.map((feature) => feature.content)).toEqual(["Compost"]);
+    expect(result?.created).toMatchObject({ id: "split-1", title: "Lawn", tags: ["home", "outdoor"] });
+    expect(result?.created.features).toEqual([source.features[1]]);
+    expect(splitIdea(source, [], { title: "Empty" })).toBeNull();
+  });
+});
+
+describe("duplicateIdea", () => {
+  const original = createIdea({
+    title: "Newsletter",
+    summary: "Weekly digest",
+    tags: ["writing"],
+    features: [
+      {
+        id: "feature-1",
+        content: "Signup form",
+        createdAt: "2025-01-01T00:00:00.000Z",
+        status: "done",
+        statusChangedAt: "2025-01-02T00:00:00.000Z",
+      },
+    ],
+    createdAt: "2025-01-01T00:00:00.000Z",
+    isPinned: true,
+    idFactory: () => "original",
+  });
+
+  it("clones the project with fresh ids and timestamps", () => {
+    let counter = 0;
+    const copy = duplicateIdea(original, {
+      timestamp: "2025-03-01T00:00:00.000Z",
+      idFactory: () => `copy-${++counter}`,
+    });
+
+    expect(copy).toMatchObject({
+      title: "Newsletter (copy)",
+      summary: "Weekly digest",
+      tags: ["writing"],
+      isPinned: false,
+      createdAt: "2025-03-01T00:00:00.000Z",
+      updatedAt: "2025-03-01T00:00:00.000Z",
+    });
+    expect(copy.id).not.toBe(original.id);
+    expect(copy.features).toEqual([
+      {
+        id: "copy-1",
+        content: "Signup form",
+        createdAt: "2025-03-01T00:00:00.000Z",
+        status: "done",
+        statusChangedAt: "2025-03-01T00:00:00.000Z",
       },
     ]);
+    expect(copy.tags).not.toBe(original.tags);
+  });
+
+  it("copies only metadata when features are excluded", () => {
+    expect(duplicateIdea(original, { includeFeatures: false }).features).toEqual([]);
   });
 });
@@ -1,11 +1,39 @@
 import { randomUUID } from "node:crypto";
+import path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+
+export type FeatureStatus = "idea" | "planned" | "in-progress" | "done" | "dropped";
+
+export const FEATURE_STATUSES: FeatureStatus[] = ["idea", "planned", "in-progress", "done", "dropped"];
+
+export const FEATURE_STATUS_LABELS: Record<FeatureStatus, string> = {
+  idea: "Idea",
+  planned: "Planned",
+  "in-progress": "In Progress",
+  done: "Done",
+  dropped: "Dropped",
+};
+
+export type FeatureLink = {
+  title: string;
+  url: string;
+};
 
 export type IdeaFeature = {
   id: string;
   content: string;
   createdAt: string;
+  status: FeatureStatus;
+  statusChangedAt: string;
+  /** Longer Markdown context shown beneath the bullet. */
+  notes?: string;
+  links?: FeatureLink[];
+  /** Absolute paths of files on disk; the files themselves are not copied into storage. */
+  attachments?: string[];
 };
 
+export type FeatureDetails = Pick<IdeaFeature, "content" | "notes" | "links" | "attachments">;
+
 export type Idea = {
   id: string;
   title: string;
@@ -20,13 +48,24 @@ export type Idea = {
 
 export const IDEAS_STORAGE_KEY = "raycast-idea-tracker/ideas";
 
+export const INBOX_PROJECT_ID = "inbox";
+
+export const TAG_FILTER_STORAGE_KEY = "raycast-idea-tracker/tag-filter";
+
+export const IDEAS_SCHEMA_VERSION_KEY = "raycast-idea-tracker/schema-version";
+
+export const IDEAS_MIGRATION_SNAPSHOT_KEY = "raycast-idea-tracker/pre-migration-snapshot";
+
 type FeatureOptions = {
   timestamp?: string;
   idFactory?: () => string;
 };
 
-type FormatOptions = {
+export type FormatOptions = {
+  /** Defaults to the stored ISO 8601 timestamp so exports parse back the same in every locale. */
   formatDate?: (iso: string) => string;
+  /** Heading level for project titles; feature headings sit one level below. Defaults to 1. */
+  headingLevel?: number;
 };
 
 type CreateIdeaParams = {
@@ -58,6 +97,8 @@ export function createFeaturesFromText(block?: string, options: FeatureOptions =
       id: makeId(),
       content,
       createdAt: timestamp,
+      status: "idea",
+      statusChangedAt: timestamp,
     }));
 }
 
@@ -66,35 +107,180 @@ export function mergeFeatureBodies(
   featureBodies: string[],
   options: FeatureOptions = {},
 ): IdeaFeature[] {
-  const trimmedBodies = featureBodies.map((body) => body.trim()).filter(Boolean);
-  if (trimmedBodies.length === 0) {
-    return [];
-  }
-
   const timestamp = options.timestamp ?? new Date().toISOString();
   const makeId = options.idFactory ?? randomUUID;
 
-  return trimmedBodies.map((content, index) => {
+  // Bodies line up with existing features by index, so blanks are dropped only after matching.
+  return featureBodies.flatMap((body, index): IdeaFeature[] => {
+    const content = body.trim();
+    if (!content) {
+      return [];
+    }
     const existing = existingFeatures[index];
     if (existing) {
-      return { ...existing, content };
+      return [{ ...existing, content }];
     }
-    return {
-      id: makeId(),
-      content,
-      createdAt: timestamp,
-    };
+    return [
+      {
+        id: makeId(),
+        content,
+        createdAt: timestamp,
+        status: "idea",
+        statusChangedAt: timestamp,
+      },
+    ];
+  });
+}
+
+/**
+ * Applies edits from the single-feature editor. Empty notes, links and attachments are dropped rather than stored
+ * as blanks; returns null when the feature is missing or its content would be empty.
+ */
+export function updateFeatureDetails(
+  idea: Idea,
+  featureId: string,
+  details: FeatureDetails,
+  timestamp: string = new Date().toISOString(),
+): Idea | null {
+  const content = details.content.trim();
+  if (!content || !idea.features.some((feature) => feature.id === featureId)) {
+    return null;
+  }
+
+  const notes = details.notes?.trim();
+  const links = (details.links ?? []).filter((link) => link.url.trim());
+  const attachments = Array.from(new Set((details.attachments ?? []).filter(Boolean)));
+  return {
+    ...idea,
+    features: idea.features.map((feature) =>
+      feature.id === featureId
+        ? {
+            ...feature,
+            content,
+            notes: notes || undefined,
+            links: links.length > 0 ? links : undefined,
+            attachments: attachments.length > 0 ? attachments : undefined,
+          }
+        : feature,
+    ),
+    updatedAt: timestamp,
+  };
+}
+
+/**
+ * Reads one link per line, either a bare URL or `Title | URL`.
+ */
+export function parseFeatureLinks(input?: string): FeatureLink[] {
+  return (input ?? "").split(/\r?\n/).flatMap((line): FeatureLink[] => {
+    const [first, ...rest] = line.split("|");
+    const url = (rest.length > 0 ? rest.join("|") : first).trim();
+    if (!url) {
+      return [];
+    }
+    const title = rest.length > 0 ? first.trim() : "";
+    return [{ title: title || url, url }];
   });
 }
 
-export function parseTagsInput(input?: string): string[] {
+export function formatFeatureLinks(links: FeatureLink[] = []): string {
+  return links
+    .map((link) => (link.title && link.title !== link.url ? `${link.title} | ${link.url}` : link.url))
+    .join("\n");
+}
+
+export function nextFeatureStatus(status: FeatureStatus): FeatureStatus | null {
+  const index = FEATURE_STATUSES.indexOf(status);
+  return FEATURE_STATUSES[index + 1] ?? null;
+}
+
+export function previousFeatureStatus(status: FeatureStatus): FeatureStatus | null {
+  const index = FEATURE_STATUSES.indexOf(status);
+  return index > 0 ? FEATURE_STATUSES[index - 1] : null;
+}
+
+export function applyFeatureStatus(feature: IdeaFeature, status: FeatureStatus, timestamp?: string): IdeaFeature {
+  if (feature.status === status) {
+    return feature;
+  }
+  return {
+    ...feature,
+    status,
+    statusChangedAt: timestamp ?? new Date().toISOString(),
+  };
+}
+
+export function summarizeFeatureProgress(features: IdeaFeature[]): { done: number; total: number } {
+  const relevant = features.filter((feature) => feature.status !== "dropped");
+  return {
+    done: relevant.filter((feature) => feature.status === "done").length,
+    total: relevant.length,
+  };
+}
+
+export type TagNormalization = "none" | "lowercase" | "kebab-case";
+
+export const TAG_NORMALIZATIONS: TagNormalization[] = ["none", "lowercase", "kebab-case"];
+
+export function isTagNormalization(value: unknown): value is TagNormalization {
+  return TAG_NORMALIZATIONS.includes(value as TagNormalization);
+}
+
+/**
+ * Normalizes each `/`-separated segment of a hierarchical tag on its own, dropping empty segments.
+ */
+export function normalizeTag(tag: string, normalization: TagNormalization = "none"): string {
+  return tag
+    .split("/")
+    .map((segment) => normalizeTagSegment(segment, normalization))
+    .filter(Boolean)
+    .join("/");
+}
+
+function normalizeTagSegment(segment: string, normalization: TagNormalization): string {
+  const trimmed = segment.trim().replace(/\s+/g, " ");
+  switch (normalization) {
+    case "lowercase":
+      return trimmed.toLowerCase();
+    case "kebab-case":
+      return trimmed
+        .toLowerCase()
+        .replace(/[\s_]+/g, "-")
+        .replace(/-{2,}/g, "-")
+        .replace(/^-|-$/g, "");
+    default:
+      return trimmed;
+  }
+}
+
+/**
+ * Normalizes each tag and drops empty ones and case-insensitive duplicates, keeping the first spelling seen.
+ */
+export function normalizeTags(tags: string[], normalization: TagNormalization = "none"): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const tag of tags) {
+    const normalized = normalizeTag(tag, normalization);
+    const key = normalized.toLowerCase();
+    if (normalized && !seen.has(key)) {
+      seen.add(key);
+      result.push(normalized);
+    }
+  }
+  return result;
+}
+
+/**
+ * Accepts a comma-separated string or a list of entries (e.g. tag picker values plus a comma-separated field).
+ */
+export function parseTagsInput(input?: string | string[], normalization: TagNormalization = "none"): string[] {
   if (!input) {
     return [];
   }
-  return input
-    .split(",")
-    .map((tag) => tag.trim())
-    .filter((tag) => tag.length > 0);
+  const entries = Array.isArray(input) ? input : [input];
+  return normalizeTags(
+    entries.flatMap((entry) => entry.split(",")),
+    normalization,
+  );
 }
 
 export function createIdea(params: CreateIdeaParams): Idea {
@@ -114,13 +300,231 @@ export function createIdea(params: CreateIdeaParams): Idea {
   };
 }
 
+export function createInboxIdea(timestamp?: string): Idea {
+  return createIdea({
+    title: "Inbox",
+    summary: "Quick captures waiting to be sorted into projects.",
+    createdAt: timestamp,
+    idFactory: () => INBOX_PROJECT_ID,
+  });
+}
+
+export function isInboxIdea(idea: Pick<Idea, "id">): boolean {
+  return idea.id === INBOX_PROJECT_ID;
+}
+
+/**
+ * The Inbox is only written to storage once something lands in it; this adds it to the end when missing.
+ */
+export function ensureInbox(ideas: Idea[], timestamp?: string): Idea[] {
+  return ideas.some(isInboxIdea) ? ideas : [...ideas, createInboxIdea(timestamp)];
+}
+
+/**
+ * Appends one feature per non-empty line and bumps `updatedAt`; returns the idea untouched when nothing was added.
+ */
+export function appendFeaturesToIdea(idea: Idea, text: string, options: FeatureOptions = {}): Idea {
+  const timestamp = options.timestamp ?? new Date().toISOString();
+  const newFeatures = createFeaturesFromText(text, { ...options, timestamp });
+  if (newFeatures.length === 0) {
+    return idea;
+  }
+  return {
+    ...idea,
+    features: [...idea.features, ...newFeatures],
+    updatedAt: timestamp,
+  };
+}
+
+/**
+ * Moves a feature between projects as-is, keeping its ID, creation date and status history.
+ */
+export function moveFeature(
+  ideas: Idea[],
+  fromIdeaId: string,
+  featureId: string,
+  toIdeaId: string,
+  timestamp: string = new Date().toISOString(),
+): Idea[] | null {
+  const feature = ideas.find((idea) => idea.id === fromIdeaId)?.features.find((entry) => entry.id === featureId);
+  if (!feature || fromIdeaId === toIdeaId || !ideas.some((idea) => idea.id === toIdeaId)) {
+    return null;
+  }
+
+  return ideas.map((idea) => {
+    if (idea.id === fromIdeaId) {
+      return { ...idea, features: idea.features.filter((entry) => entry.id !== featureId), updatedAt: timestamp };
+    }
+    if (idea.id === toIdeaId) {
+      return { ...idea, features: [...idea.features, feature], updatedAt: timestamp };
+    }
+    return idea;
+  });
+}
+
+/**
+ * Copies a feature into another project under a new ID, keeping its creation date and status.
+ */
+export function copyFeature(
+  ideas: Idea[],
+  fromIdeaId: string,
+  featureId: string,
+  toIdeaId: string,
+  options: FeatureOptions = {},
+): Idea[] | null {
+  const feature = ideas.find((idea) => idea.id === fromIdeaId)?.features.find((entry) => entry.id === featureId);
+  if (!feature || !ideas.some((idea) => idea.id === toIdeaId)) {
+    return null;
+  }
+
+  const timestamp = options.timestamp ?? new Date().toISOString();
+  const copy = { ...feature, id: (options.idFactory ?? randomUUID)() };
+  return ideas.map((idea) =>
+    idea.id === toIdeaId ? { ...idea, features: [...idea.features, copy], updatedAt: timestamp } : idea,
+  );
+}
+
+/**
+ * Shifts a feature by `offset` positions within its project; returns null when it is already at that edge.
+ */
+export function reorderFeature(
+  idea: Idea,
+  featureId: string,
+  offset: number,
+  timestamp: string = new Date().toISOString(),
+): Idea | null {
+  const index = idea.features.findIndex((feature) => feature.id === featureId);
+  const targetIndex = index + offset;
+  if (index === -1 || offset === 0 || targetIndex < 0 || targetIndex >= idea.features.length) {
+    return null;
+  }
+
+  const features = [...idea.features];
+  const [feature] = features.splice(index, 1);
+  features.splice(targetIndex, 0, feature);
+  return { ...idea, features, updatedAt: timestamp };
+}
+
+/**
+ * Folds `source` into `target`: features with identical content are kept once, tags are unioned, summaries are
+ * concatenated and the earliest `createdAt` wins. The result keeps the target's ID.
+ */
+export function mergeIdeas(target: Idea, source: Idea, timestamp: string = new Date().toISOString()): Idea {
+  const seenContent = new Set(target.features.map((feature) => feature.content.trim()));
+  const sourceFeatures = source.features.filter((feature) => {
+    const content = feature.content.trim();
+    if (seenContent.has(content)) {
+      return false;
+    }
+    seenContent.add(content);
+    return true;
+  });
+
+  const summaries = [target.summary?.trim(), source.summary?.trim()].filter((summary): summary is string =>
+    Boolean(summary),
+  );
+  const summary = Array.from(new Set(summaries)).join("\n\n") || undefined;
+
+  return {
+    ...target,
+    summary,
+    tags: Array.from(new Set([...target.tags, ...source.tags])),
+    features: [...target.features, ...sourceFeatures],
+    isPinned: target.isPinned || source.isPinned,
+    createdAt: new Date(source.createdAt) < new Date(target.createdAt) ? source.createdAt : target.createdAt,
+    updatedAt: timestamp,
+  };
+}
+
+/**
+ * Carves the selected features out of `idea` into a new project that inherits its tags.
+ */
+export function splitIdea(
+  idea: Idea,
+  featureIds: string[],
+  options: { title: string; summary?: string; timestamp?: string; idFactory?: () => string },
+): { original: Idea; created: Idea } | null {
+  const selected = new Set(featureIds);
+  const carved = idea.features.filter((feature) => selected.has(feature.id));
+  if (carved.length === 0 || !options.title.trim()) {
+    return null;
+  }
+
+  const timestamp = options.timestamp ?? new Date().toISOString();
+  const created = createIdea({
+    title: options.title.trim(),
+    summary: options.summary,
+    tags: [...idea.tags],
+    features: carved,
+    createdAt: timestamp,
+    idFactory: options.idFactory,
+  });
+  return {
+    original: { ...idea, features: idea.features.filter((feature) => !selected.has(feature.id)), updatedAt: timestamp },
+    created,
+  };
+}
+
+/**
+ * Forks a project under a "(copy)" title with fresh IDs and timestamps. Features keep their content and status but
+ * restart their history; pass `includeFeatures: false` to copy only the title, summary and tags.
+ */
+export function duplicateIdea(idea: Idea, options: FeatureOptions & { includeFeatures?: boolean } = {}): Idea {
+  const timestamp = options.timestamp ?? new Date().toISOString();
+  const makeId = options.idFactory ?? randomUUID;
+  const features =
+    (options.includeFeatures ?? true)
+      ? idea.features.map((feature) => ({
+          ...feature,
+          id: makeId(),
+          createdAt: timestamp,
+          statusChangedAt: timestamp,
+        }))
+      : [];
+
+  return createIdea({
+    title: `${idea.title} (copy)`,
+    summary: idea.summary,
+    tags: [...idea.tags],
+    features,
+    createdAt: timestamp,
+    idFactory: makeId,
+  });
+}
+
 export function formatAbsoluteDate(dateISO: string): string {
   return new Date(dateISO).toLocaleString();
 }
 
+export function formatRelativeTime(dateISO: string): string {
+  const formatter = new Intl.RelativeTimeFormat(undefined, { numeric: "auto" });
+  const now = Date.now();
+  const date = new Date(dateISO).getTime();
+  const diff = date - now;
+  const divisions: [number, Intl.RelativeTimeFormatUnit][] = [
+    [60, "second"],
+    [60, "minute"],
+    [24, "hour"],
+    [7, "day"],
+    [4.34524, "week"],
+    [12, "month"],
+    [Number.POSITIVE_INFINITY, "year"],
+  ];
+
+  let duration = diff / 1000;
+  for (const [amount, unit] of divisions) {
+    if (Math.abs(duration) < amount) {
+      return formatter.format(Math.round(duration), unit);
+    }
+    duration /= amount;
+  }
+  return formatter.format(Math.round(duration), "year");
+}
+
 export function formatIdeaMarkdown(idea: Idea, options: FormatOptions = {}): string {
-  const formatDate = options.formatDate ?? formatAbsoluteDate;
-  const lines = [`# ${idea.title}`, ""];
+  const formatDate = options.formatDate ?? ((iso: string) => iso);
+  const heading = "#".repeat(options.headingLevel ?? 1);
+  const lines = [`${heading} ${idea.title}`, ""];
 
   if (idea.summary) {
     lines.push(idea.summary, "");
@@ -137,10 +541,7 @@ export function formatIdeaMarkdown(idea: Idea, options: FormatOptions = {}): str
   lines.push(`- Updated: ${formatDate(idea.updatedAt)}`, "");
 
   if (idea.features.length) {
-    lines.push("## Features", "");
-    for (const feature of idea.features) {
-      lines.push(`- ${feature.content}`);
-    }
+    lines.push(`${heading}# Features`, "", ...formatFeatureListMarkdown(idea.features));
   } else {
     lines.push("_No features captured yet._");
   }
@@ -148,6 +549,41 @@ export function formatIdeaMarkdown(idea: Idea, options: FormatOptions = {}): str
   return lines.join("\n");
 }
 
+export function formatFeatureListMarkdown(features: IdeaFeature[]): string[] {
+  return features.flatMap((feature) => [formatFeatureMarkdown(feature), ...formatFeatureDetailsMarkdown(feature)]);
+}
+
+/**
+ * Details are indented under their bullet so they render as part of it and the importer can attach them again.
+ */
+function formatFeatureDetailsMarkdown(feature: IdeaFeature): string[] {
+  const lines: string[] = [];
+  if (feature.notes) {
+    lines.push(...feature.notes.split("\n").map((line) => `  > ${line}`.trimEnd()));
+  }
+  for (const link of feature.links ?? []) {
+    lines.push(`  - Link: [${link.title}](${link.url})`);
+  }
+  for (const attachment of feature.attachments ?? []) {
+    lines.push(`  - Attachment: [${path.basename(attachment)}](${pathToFileURL(attachment).href})`);
+  }
+  return lines;
+}
+
+function formatFeatureMarkdown(feature: IdeaFeature): string {
+  switch (feature.status) {
+    case "done":
+      return `- [x] ${feature.content}`;
+    case "dropped":
+      return `- [x] ~~${feature.content}~~`;
+    case "planned":
+    case "in-progress":
+      return `- [ ] ${feature.content} _(${FEATURE_STATUS_LABELS[feature.status]})_`;
+    default:
+      return `- [ ] ${feature.content}`;
+  }
+}
+
 export function formatIdeasMarkdown(ideas: Idea[], options: FormatOptions = {}): string {
   if (ideas.length === 0) {
     return "_No ideas captured yet._";
@@ -155,40 +591,383 @@ export function formatIdeasMarkdown(ideas: Idea[], options: FormatOptions = {}):
   return ideas.map((idea) => formatIdeaMarkdown(idea, options)).join("\n\n---\n\n");
 }
 
+export type StoredIdeaFeature = Omit<IdeaFeature, "status" | "statusChangedAt"> & {
+  status?: FeatureStatus;
+  statusChangedAt?: string;
+};
+
 export type StoredIdea = Omit<Idea, "tags" | "features" | "isPinned" | "isArchived"> & {
   tags?: string[];
-  features?: Idea["features"];
+  features?: StoredIdeaFeature[];
   isPinned?: boolean;
   isArchived?: boolean;
 };
 
+/** Payloads written before the schema version was stored are treated as this version. */
+export const INITIAL_SCHEMA_VERSION = 1;
+
+export type IdeaMigration = {
+  version: number;
+  description: string;
+  up: (ideas: StoredIdea[]) => StoredIdea[];
+};
+
+/**
+ * Ordered upgrades applied on load. Add a new entry here instead of another fallback in `normalizeIdea`.
+ */
+export const IDEA_MIGRATIONS: IdeaMigration[] = [
+  {
+    version: 2,
+    description: "Default missing tags, features and pin/archive flags",
+    up: (ideas) =>
+      ideas.map((idea) => ({
+        ...idea,
+        tags: idea.tags ?? [],
+        features: idea.features ?? [],
+        isPinned: idea.isPinned ?? false,
+        isArchived: idea.isArchived ?? false,
+      })),
+  },
+  {
+    version: 3,
+    description: "Track a status on every feature",
+    up: (ideas) => ideas.map((idea) => ({ ...idea, features: (idea.features ?? []).map(normalizeFeature) })),
+  },
+  {
+    version: 4,
+    description: "Trim tags and drop case-insensitive duplicates",
+    up: (ideas) => ideas.map((idea) => ({ ...idea, tags: normalizeTags(idea.tags ?? []) })),
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = IDEA_MIGRATIONS[IDEA_MIGRATIONS.length - 1].version;
+
+export type MigrationSnapshot = {
+  version: number;
+  takenAt: string;
+  ideas: StoredIdea[];
+};
+
+export function migrateIdeas(
+  ideas: StoredIdea[],
+  fromVersion: number = INITIAL_SCHEMA_VERSION,
+): { ideas: StoredIdea[]; version: number; applied: number[] } {
+  const pending = IDEA_MIGRATIONS.filter((migration) => migration.version > fromVersion);
+  return {
+    ideas: pending.reduce((current, migration) => migration.up(current), ideas),
+    version: Math.max(fromVersion, CURRENT_SCHEMA_VERSION),
+    applied: pending.map((migration) => migration.version),
+  };
+}
+
+export function normalizeFeature(feature: StoredIdeaFeature): IdeaFeature {
+  return {
+    ...feature,
+    status: feature.status ?? "idea",
+    statusChangedAt: feature.statusChangedAt ?? feature.createdAt,
+  };
+}
+
 export function normalizeIdea(idea: StoredIdea): Idea {
   return {
     ...idea,
     tags: idea.tags ?? [],
-    features: idea.features ?? [],
+    features: (idea.features ?? []).map(normalizeFeature),
     isPinned: idea.isPinned ?? false,
     isArchived: idea.isArchived ?? false,
   };
 }
 
+export type MarkdownImportFeature = {
+  content: string;
+  status?: FeatureStatus;
+  notes?: string;
+  links?: FeatureLink[];
+  attachments?: string[];
+};
+
 export type MarkdownImportProject = {
   title: string;
-  features: string[];
+  summary?: string;
+  tags?: string[];
+  isPinned?: boolean;
+  isArchived?: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+  features: MarkdownImportFeature[];
 };
 
 export function parseIdeasFromMarkdown(markdown: string): MarkdownImportProject[] {
-  const projects: MarkdownImportProject[] = [];
+  const { chunks, isGroupedByTag } = splitMarkdownProjects(markdown);
+  const seenExports = new Set<string>();
+  return chunks.flatMap((lines) => {
+    if (!isExportedProject(lines)) {
+      return parseOutlineProjects(lines);
+    }
+    const project = parseExportedProject(lines);
+    if (!isGroupedByTag) {
+      return [project];
+    }
+    // Exports grouped by tag repeat a project under each of its top-level tags.
+    const key = JSON.stringify(project);
+    if (seenExports.has(key)) {
+      return [];
+    }
+    seenExports.add(key);
+    return [project];
+  });
+}
+
+export function createFeaturesFromImport(
+  features: MarkdownImportFeature[],
+  options: FeatureOptions = {},
+): IdeaFeature[] {
+  const timestamp = options.timestamp ?? new Date().toISOString();
+  const makeId = options.idFactory ?? randomUUID;
+  return features.map((feature) => ({
+    id: makeId(),
+    content: feature.content,
+    createdAt: timestamp,
+    status: feature.status ?? "idea",
+    statusChangedAt: timestamp,
+    ...(feature.notes ? { notes: feature.notes } : {}),
+    ...(feature.links?.length ? { links: feature.links } : {}),
+    ...(feature.attachments?.length ? { attachments: feature.attachments } : {}),
+  }));
+}
+
+export function createIdeaFromImport(project: MarkdownImportProject, options: FeatureOptions = {}): Idea {
+  const timestamp = options.timestamp ?? new Date().toISOString();
+  const makeId = options.idFactory ?? randomUUID;
+  const features = createFeaturesFromImport(project.features, { timestamp, idFactory: makeId });
+  const createdAt = project.createdAt ?? timestamp;
+
+  return createIdea({
+    title: project.title,
+    summary: project.summary,
+    tags: project.tags,
+    isPinned: project.isPinned,
+    isArchived: project.isArchived,
+    features,
+    createdAt,
+    updatedAt: project.updatedAt ?? createdAt,
+    idFactory: makeId,
+  });
+}
+
+/**
+ * Exports join projects with a blank-line-padded `---` rule, so only a rule that is followed by the next project's
+ * heading acts as a hard project boundary. Rules inside summaries or notes stay part of their project. The `# tag`
+ * headings of an export grouped by tag also end a project and are dropped.
+ */
+function splitMarkdownProjects(markdown: string): { chunks: string[][]; isGroupedByTag: boolean } {
   const lines = markdown.split(/\r?\n/);
+  const chunks: string[][] = [[]];
+  let isGroupedByTag = false;
+  lines.forEach((line, index) => {
+    if (isGroupHeading(lines, index)) {
+      isGroupedByTag = true;
+      chunks.push([]);
+      return;
+    }
+    if (isProjectSeparator(lines, index)) {
+      chunks.push([]);
+      return;
+    }
+    chunks[chunks.length - 1].push(line);
+  });
+  return { chunks, isGroupedByTag };
+}
+
+/**
+ * A top-level heading whose next heading is an exported `##` project, as written by `formatIdeasMarkdownByRootTag`.
+ */
+function isGroupHeading(lines: string[], index: number): boolean {
+  if (!/^#\s+\S/.test(lines[index])) {
+    return false;
+  }
+  const projectIndex = lines.findIndex((line, lineIndex) => lineIndex > index && line.trim().length > 0);
+  if (projectIndex === -1 || !/^##\s+\S/.test(lines[projectIndex])) {
+    return false;
+  }
+  for (const line of lines.slice(projectIndex + 1)) {
+    if (STATUS_LINE_PATTERN.test(line.trim())) {
+      return true;
+    }
+    if (/^#{1,2}\s/.test(line)) {
+      return false;
+    }
+  }
+  return false;
+}
+
+function isProjectSeparator(lines: string[], index: number): boolean {
+  return (
+    lines[index].trim() === "---" &&
+    lines[index - 1]?.trim() === "" &&
+    lines[index + 1]?.trim() === "" &&
+    /^#{1,6}\s+\S/.test(lines[index + 2] ?? "")
+  );
+}
+
+const STATUS_LINE_PATTERN = /^\*\*Status:\*\*\s*(.*)$/;
+const TAGS_LINE_PATTERN = /^\*\*Tags:\*\*\s*(.*)$/;
+const DATE_LINE_PATTERN = /^[-*]\s*(Created|Updated):\s*(.+)$/;
+const BULLET_PATTERN = /^[-*]\s*(.+)$/;
+const NOTE_LINE_PATTERN = /^>\s?(.*)$/;
+const LINK_LINE_PATTERN = /^[-*]\s*Link:\s*\[(.*)\]\((.+)\)$/;
+const ATTACHMENT_LINE_PATTERN = /^[-*]\s*Attachment:\s*\[.*\]\((file:\/\/.+)\)$/;
+
+function isExportedProject(lines: string[]): boolean {
+  const firstLine = lines.find((line) => line.trim().length > 0)?.trim() ?? "";
+  return /^#{1,6}\s+\S/.test(firstLine) && lines.some((line) => STATUS_LINE_PATTERN.test(line.trim()));
+}
+
+function parseExportedProject(lines: string[]): MarkdownImportProject {
+  const contentLines = lines.slice(lines.findIndex((line) => line.trim().length > 0));
+  const title = contentLines[0].trim().replace(/^#+\s+/, "");
+  const project: MarkdownImportProject = { title, tags: [], features: [] };
+  const summaryLines: string[] = [];
+  const featureLines: string[] = [];
+  let section: "summary" | "meta" | "features" = "summary";
+
+  for (const rawLine of contentLines.slice(1)) {
+    const line = rawLine.trim();
+    const statusMatch = line.match(STATUS_LINE_PATTERN);
+    if (section === "summary" && !statusMatch) {
+      summaryLines.push(rawLine.trimEnd());
+      continue;
+    }
+
+    if (statusMatch) {
+      const status = statusMatch[1].trim().toLowerCase();
+      project.isPinned = status === "pinned";
+      project.isArchived = status === "archived";
+      section = "meta";
+      continue;
+    }
+
+    if (section === "meta") {
+      const tagsMatch = line.match(TAGS_LINE_PATTERN);
+      const dateMatch = line.match(DATE_LINE_PATTERN);
+      if (tagsMatch) {
+        project.tags = parseTagsInput(tagsMatch[1]);
+      } else if (dateMatch) {
+        const parsed = parseExportedDate(dateMatch[2]);
+        if (dateMatch[1] === "Created") {
+          project.createdAt = parsed;
+        } else {
+          project.updatedAt = parsed;
+        }
+      } else if (/^#{2,7}\s+Features$/i.test(line)) {
+        section = "features";
+      }
+      continue;
+    }
+
+    featureLines.push(rawLine);
+  }
+
+  project.features = parseFeatureListMarkdown(featureLines);
+  const summary = summaryLines.join("\n").trim();
+  if (summary) {
+    project.summary = summary;
+  }
+
+  return project;
+}
+
+/**
+ * Reads task-list bullets back into features, attaching indented notes, links and attachments to the bullet above.
+ */
+export function parseFeatureListMarkdown(lines: string[]): MarkdownImportFeature[] {
+  const features: MarkdownImportFeature[] = [];
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    const lastFeature = features[features.length - 1];
+    if (lastFeature && /^\s/.test(rawLine) && parseFeatureDetailLine(lastFeature, line)) {
+      continue;
+    }
+
+    const bulletMatch = line.match(BULLET_PATTERN);
+    if (bulletMatch) {
+      features.push(parseFeatureLine(bulletMatch[1]));
+    }
+  }
+  return features;
+}
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Only ISO 8601 dates are accepted: locale-formatted dates are ambiguous (1/2/2025) and `Date.parse` reads them
+ * differently per locale, so they are dropped and the importer falls back to the import time.
+ */
+export function parseExportedDate(value: string): string | undefined {
+  const trimmed = value.trim();
+  if (!ISO_DATE_PATTERN.test(trimmed)) {
+    return undefined;
+  }
+  const time = Date.parse(trimmed);
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+function parseFeatureDetailLine(feature: MarkdownImportFeature, line: string): boolean {
+  const noteMatch = line.match(NOTE_LINE_PATTERN);
+  if (noteMatch) {
+    feature.notes = feature.notes === undefined ? noteMatch[1] : `${feature.notes}\n${noteMatch[1]}`;
+    return true;
+  }
+
+  const linkMatch = line.match(LINK_LINE_PATTERN);
+  if (linkMatch) {
+    feature.links = [...(feature.links ?? []), { title: linkMatch[1], url: linkMatch[2] }];
+    return true;
+  }
+
+  const attachmentMatch = line.match(ATTACHMENT_LINE_PATTERN);
+  if (attachmentMatch) {
+    feature.attachments = [...(feature.attachments ?? []), fileURLToPath(attachmentMatch[1])];
+    return true;
+  }
+
+  return false;
+}
+
+export function parseFeatureLine(text: string): MarkdownImportFeature {
+  const checkboxMatch = text.trim().match(/^\[( |x|X)\]\s+(.+)$/);
+  if (!checkboxMatch) {
+    return { content: text.trim() };
+  }
+
+  const content = checkboxMatch[2].trim();
+  if (checkboxMatch[1] !== " ") {
+    const droppedMatch = content.match(/^~~(.+)~~$/);
+    return droppedMatch ? { content: droppedMatch[1].trim(), status: "dropped" } : { content, status: "done" };
+  }
+
+  const labelMatch = content.match(/^(.+?)\s+_\((.+)\)_$/);
+  const labelledStatus = labelMatch
+    ? FEATURE_STATUSES.find((status) => FEATURE_STATUS_LABELS[status] === labelMatch[2])
+    : undefined;
+  if (labelMatch && labelledStatus) {
+    return { content: labelMatch[1].trim(), status: labelledStatus };
+  }
+
+  return { content, status: "idea" };
+}
+
+function parseOutlineProjects(lines: string[]): MarkdownImportProject[] {
+  const projects: MarkdownImportProject[] = [];
 
   let currentTitle: string | null = null;
-  let currentFeatures: string[] = [];
+  let currentFeatures: MarkdownImportFeature[] = [];
 
   const pushCurrent = () => {
     if (currentTitle) {
       projects.push({
         title: currentTitle,
-        features: currentFeatures.map((feature) => feature.trim()).filter(Boolean),
+        features: currentFeatures.filter((feature) => feature.content.length > 0),
       });
     }
     currentTitle = null;
@@ -202,13 +981,12 @@ export function parseIdeasFromMarkdown(markdown: string): MarkdownImportProject[
       continue;
     }
 
-    const bulletMatch = line.match(/^[-*]\s*(.+)$/);
+    const bulletMatch = line.match(BULLET_PATTERN);
     if (bulletMatch) {
-      const content = bulletMatch[1].trim();
       if (!currentTitle) {
         currentTitle = "Untitled Project";
       }
-      currentFeatures.push(content);
+      currentFeatures.push(parseFeatureLine(bulletMatch[1]));
       continue;
     }
 
@@ -224,5 +1002,5 @@ export function parseIdeasFromMarkdown(markdown: string): MarkdownImportProject[
 
   pushCurrent();
 
-  return projects.filter((project) => project.title.length > 0 && (project.features.length > 0 || project.title));
+  return projects.filter((project) => project.title.length > 0);
 }
@@ -0,0 +1,252 @@
+import { describe, expect, it } from "vitest";
+import { createBackup } from "./backup";
+import { formatIdeasCsv, formatIdeasJson } from "./export";
+import { Idea } from "./ideas";
+import {
+  applyImportChoices,
+  defaultImportAction,
+  detectImportFormat,
+  parseCsvProjects,
+  parseImportFile,
+  parseJsonProjects,
+  parseOpmlProjects,
+  parseTextOutlineProjects,
+  previewImport,
+} from "./importers";
+
+const project: Idea = {
+  id: "launch",
+  title: "Launch Companion",
+  summary: "Mobile app",
+  tags: ["mobile"],
+  isPinned: true,
+  isArchived: false,
+  features: [
+    {
+      id: "f1",
+      content: "Realtime sync",
+      createdAt: "2025-01-01T00:00:00.000Z",
+      status: "done",
+      statusChangedAt: "2025-01-02T00:00:00.000Z",
+      notes: "Use CRDTs",
+      links: [{ title: "https://example.com/rfc", url: "https://example.com/rfc" }],
+    },
+    {
+      id: "f2",
+      content: "Widgets",
+      createdAt: "2025-01-01T00:00:00.000Z",
+      status: "planned",
+      statusChangedAt: "2025-01-01T00:00:00.000Z",
+    },
+  ],
+  createdAt: "2025-01-01T00:00:00.000Z",
+  updatedAt: "2025-01-03T00:00:00.000Z",
+};
+
+describe("CSV importer", () => {
+  it("reads one project per row with feature columns", () => {
+    const csv = [
+      "Title,Summary,Tags,Feature 1,Feature 2",
+      'Growth,"Experiments, mostly",growth;marketing,Referral program,[x] Waitlist',
+      "Empty,,,,",
+    ].join("\n");
+
+    expect(parseCsvProjects(csv)).toEqual([
+      {
+        title: "Growth",
+        summary: "Experiments, mostly",
+        tags: ["growth", "marketing"],
+        features: [{ content: "Referral program" }, { content: "Waitlist", status: "done" }],
+      },
+      { title: "Empty", tags: [], features: [] },
+    ]);
+  });
+
+  it("splits a single Features cell and reads semicolon-separated files", () => {
+    const csv = 'Project;Features\nGrowth;"Referral program\nWaitlist"\n';
+
+    expect(parseCsvProjects(csv)[0].features).toEqual([{ content: "Referral program" }, { content: "Waitlist" }]);
+  });
+
+  it("round-trips the CSV export", () => {
+    expect(parseCsvProjects(formatIdeasCsv([project]))).toEqual([
+      {
+        title: "Launch Companion",
+        tags: ["mobile"],
+        isPinned: true,
+        features: [
+          { content: "Realtime sync", status: "done", notes: "Use CRDTs", links: project.features[0].links },
+          { content: "Widgets", status: "planned" },
+        ],
+      },
+    ]);
+  });
+
+  it("requires a title column", () => {
+    expect(() => parseCsvProjects("Summary,Tags\nA,b")).toThrow('CSV needs a header row with a "Title" or "Project"');
+  });
+});
+
+describe("JSON importer", () => {
+  const expected = {
+    title: "Launch Companion",
+    summary: "Mobile app",
+    tags: ["mobile"],
+    isPinned: true,
+    isArchived: false,
+    createdAt: project.createdAt,
+    updatedAt: project.updatedAt,
+    features: [
+      { content: "Realtime sync", status: "done", notes: "Use CRDTs", links: project.features[0].links },
+      { content: "Widgets", status: "planned" },
+    ],
+  };
+
+  it("reads backups and exported project arrays", () => {
+    expect(parseJsonProjects(JSON.stringify(createBackup([project])))).toEqual([expected]);
+    expect(parseJsonProjects(formatIdeasJson([project]))).toEqual([expected]);
+  });
+
+  it("rejects documents that are not projects", () => {
+    expect(() => parseJsonProjects('{"hello": "world"}')).toThrow("Backup file is missing a version");
+  });
+});
+
+describe("OPML importer", () => {
+  it("turns top-level outlines into projects and children into features", () => {
+    const opml = `<?xml version="1.0"?>
+<opml version="2.0">
+  <head><title>Ideas &amp; plans</title></head>
+  <body>
+    <outline text="Growth &amp; Retention" _note="Q3 focus" category="/growth,/marketing">
+      <outline text="Referral program" _complete="true"/>
+      <outline text="Onboarding emails" _note="Drip campaign">
+        <outline text="Day 1"/>
+        <outline text="Day 7"><outline text="Include survey"/></outline>
+      </outline>
+    </outline>
+    <outline text="Side Project"/>
+  </body>
+</opml>`;
+
+    expect(parseOpmlProjects(opml)).toEqual([
+      {
+        title: "Growth & Retention",
+        summary: "Q3 focus",
+        tags: ["growth", "marketing"],
+        features: [
+          { content: "Referral program", status: "done" },
+          { content: "Onboarding emails", notes: "Drip campaign\n\n- Day 1\n- Day 7\n  - Include survey" },
+        ],
+      },
+      { title: "Side Project", tags: [], features: [] },
+    ]);
+  });
+});
+
+describe("text outline importer", () => {
+  it("uses indentation for projects, features and notes", () => {
+    const text = [
+      "Launch Companion",
+      "  - Realtime sync",
+      "      CRDT library",
+      "      Conflict UI",
+      "  - [x] Widgets",
+      "",
+      "Growth",
+      "\t1. Referral program",
+    ].join("\n");
+
+    expect(parseTextOutlineProjects(text)).toEqual([
+      {
+        title: "Launch Companion",
+        tags: [],
+        features: [
+          { content: "Realtime sync", notes: "- CRDT library\n- Conflict UI" },
+          { content: "Widgets", status: "done" },
+        ],
+      },
+      { title: "Growth", tags: [], features: [{ content: "Referral program" }] },
+    ]);
+  });
+});
+
+describe("detectImportFormat", () => {
+  it("uses the extension, then sniffs the contents", () => {
+    expect(detectImportFormat("/tmp/ideas.csv", "anything")).toBe("csv");
+    expect(detectImportFormat("/tmp/ideas.opml", "")).toBe("opml");
+    expect(detectImportFormat("/tmp/ideas.md", "Project\n  idea")).toBe("markdown");
+    expect(detectImportFormat("/tmp/ideas", '[{"id": "a"}]')).toBe("json");
+    expect(detectImportFormat("/tmp/ideas", '<?xml version="1.0"?>\n<opml version="2.0">')).toBe("opml");
+    expect(detectImportFormat("/tmp/ideas.txt", "Title,Tags\nA,b")).toBe("csv");
+    expect(detectImportFormat("/tmp/ideas.txt", "# Project\n- idea")).toBe("markdown");
+    expect(detectImportFormat("/tmp/ideas.txt", "Project\n  - idea")).toBe("text");
+  });
+
+  it("parses with the detected or requested format", () => {
+    expect(parseImportFile("/tmp/ideas.txt", "Project\n  - idea")).toEqual({
+      format: "text",
+      projects: [{ title: "Project", tags: [], features: [{ content: "idea" }] }],
+    });
+    expect(parseImportFile("/tmp/ideas.txt", "Project\n- idea", "markdown").format).toBe("markdown");
+  });
+});
+
+describe("import preview", () => {
+  const parsed = [
+    {
+      title: "  launch   COMPANION ",
+      tags: ["new"],
+      features: [{ content: "realtime SYNC" }, { content: "Offline mode", status: "planned" as const }],
+    },
+    { title: "Growth", features: [{ content: "Referral program" }] },
+  ];
+
+  it("flags projects whose titles match ignoring case and whitespace", () => {
+    const candidates = previewImport(parsed, [project]);
+
+    expect(candidates.map((candidate) => candidate.duplicateOf?.id)).toEqual(["launch", undefined]);
+    expect(candidates[0].newFeatures).toEqual([{ content: "Offline mode", status: "planned" }]);
+    expect(candidates.map(defaultImportAction)).toEqual(["merge", "create"]);
+  });
+
+  it("creates, merges only new feature bodies and skips", () => {
+    let id = 0;
+    const { ideas, created, merged } = applyImportChoices(
+      [project],
+      [
+        { project: parsed[0], action: "merge", targetId: "launch" },
+        { project: parsed[1], action: "skip" },
+        { project: parsed[1], action: "create" },
+      ],
+      { timestamp: "2025-02-01T00:00:00.000Z", idFactory: () => `id-${++id}` },
+    );
+
+    expect(ideas.map((idea) => idea.title)).toEqual(["Growth", "Launch Companion"]);
+    expect(created.map((idea) => idea.title)).toEqual(["Growth"]);
+    expect(merged).toEqual([ideas[1]]);
+    expect(ideas[1].tags).toEqual(["mobile"]);
+    expect(ideas[1].updatedAt).toBe("2025-02-01T00:00:00.000Z");
+    expect(ideas[1].features.map((feature) => [feature.content, feature.status])).toEqual([
+      ["Realtime sync", "done"],
+      ["Widgets", "planned"],
+      ["Offline mode", "planned"],
+    ]);
+  });
+
+  it("leaves projects with nothing new untouched", () => {
+    const result = applyImportChoices(
+      [project],
+      [
+        {
+          project: { title: "Launch Companion", features: [{ content: "Widgets" }] },
+          action: "merge",
+          targetId: "launch",
+        },
+      ],
+    );
+
+    expect(result.ideas).toEqual([project]);
+    expect(result.merged).toEqual([]);
+  });
+});
@@ -0,0 +1,509 @@
+import path from "node:path";
+import { BACKUP_FORMAT_VERSION, parseBackup } from "./backup";
+import {
+  CURRENT_SCHEMA_VERSION,
+  FEATURE_STATUSES,
+  FEATURE_STATUS_LABELS,
+  FeatureStatus,
+  Idea,
+  MarkdownImportFeature,
+  MarkdownImportProject,
+  createFeaturesFromImport,
+  createIdeaFromImport,
+  parseFeatureLine,
+  parseFeatureLinks,
+  parseIdeasFromMarkdown,
+  parseTagsInput,
+} from "./ideas";
+
+export type ImportFormat = "markdown" | "csv" | "json" | "opml" | "text";
+
+/**
+ * Every importer turns a file into the same intermediate projects that `createIdeaFromImport` understands, so new
+ * formats only need a parser and an entry in `IMPORTERS`.
+ */
+export type ProjectImporter = {
+  format: ImportFormat;
+  label: string;
+  extensions: string[];
+  /** Recognises the format from content alone when the extension is missing or ambiguous. */
+  detect: (contents: string) => boolean;
+  parse: (contents: string) => MarkdownImportProject[];
+};
+
+export const IMPORTERS: ProjectImporter[] = [
+  {
+    format: "json",
+    label: "JSON Backup or Export",
+    extensions: [".json"],
+    detect: (contents) => /^[[{]/.test(contents.trimStart()),
+    parse: parseJsonProjects,
+  },
+  {
+    format: "opml",
+    label: "OPML Outline",
+    extensions: [".opml", ".xml"],
+    detect: (contents) => /^(<\?xml[^>]*>\s*)?<opml[\s>]/i.test(contents.trimStart()),
+    parse: parseOpmlProjects,
+  },
+  {
+    format: "csv",
+    label: "CSV",
+    extensions: [".csv", ".tsv"],
+    detect: (contents) => {
+      const header = parseDelimitedRows(contents.split(/\r?\n/, 1)[0] ?? "")[0] ?? [];
+      return header.some((cell) => TITLE_COLUMNS.includes(cell.trim().toLowerCase())) && header.length > 1;
+    },
+    parse: parseCsvProjects,
+  },
+  {
+    format: "markdown",
+    label: "Markdown",
+    extensions: [".md", ".markdown"],
+    // Headings or unindented bullets; indented outlines are left to the text importer.
+    detect: (contents) => contents.split(/\r?\n/).some((line) => /^(#{1,6}\s|[-*]\s)/.test(line)),
+    parse: parseIdeasFromMarkdown,
+  },
+  {
+    format: "text",
+    label: "Indented Text Outline",
+    extensions: [".txt", ".text"],
+    detect: () => true,
+    parse: parseTextOutlineProjects,
+  },
+];
+
+export function importerFor(format: ImportFormat): ProjectImporter {
+  return IMPORTERS.find((importer) => importer.format === format) ?? IMPORTERS[IMPORTERS.length - 1];
+}
+
+/**
+ * Picks a format from the file extension, falling back to content sniffing for unknown extensions. Plain `.txt`
+ * files are still checked for Markdown since that is how most notes apps export.
+ */
+export function detectImportFormat(filePath: string, contents: string): ImportFormat {
+  const extension = path.extname(filePath).toLowerCase();
+  const byExtension = IMPORTERS.find((importer) => importer.extensions.includes(extension));
+  if (byExtension && byExtension.format !== "text") {
+    return byExtension.format;
+  }
+  return (IMPORTERS.find((importer) => importer.detect(contents)) ?? importerFor("text")).format;
+}
+
+export function parseImportFile(
+  filePath: string,
+  contents: string,
+  format: ImportFormat = detectImportFormat(filePath, contents),
+): { format: ImportFormat; projects: MarkdownImportProject[] } {
+  return { format, projects: importerFor(format).parse(contents) };
+}
+
+export type ImportAction = "create" | "merge" | "skip";
+
+export type ImportCandidate = {
+  project: MarkdownImportProject;
+  /** Existing project with the same title, ignoring case and whitespace. */
+  duplicateOf?: Idea;
+  /** Features merging would append: those whose bodies `duplicateOf` does not already have. */
+  newFeatures: MarkdownImportFeature[];
+};
+
+export type ImportChoice = {
+  project: MarkdownImportProject;
+  action: ImportAction;
+  /** Project to merge into; required when `action` is "merge". */
+  targetId?: string;
+};
+
+export type ImportOptions = {
+  timestamp?: string;
+  idFactory?: () => string;
+};
+
+export type ImportResult = {
+  ideas: Idea[];
+  created: Idea[];
+  merged: Idea[];
+};
+
+export function normalizeImportTitle(title: string): string {
+  return title.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Pairs each parsed project with the existing project it duplicates, if any, so the import preview can offer to
+ * merge instead of creating a second copy.
+ */
+export function previewImport(projects: MarkdownImportProject[], existing: Idea[]): ImportCandidate[] {
+  const byTitle = new Map<string, Idea>();
+  for (const idea of existing) {
+    const key = normalizeImportTitle(idea.title);
+    if (!byTitle.has(key)) {
+      byTitle.set(key, idea);
+    }
+  }
+
+  return projects.map((project) => {
+    const duplicateOf = byTitle.get(normalizeImportTitle(project.title));
+    return {
+      project,
+      duplicateOf,
+      newFeatures: duplicateOf ? newImportFeatures(duplicateOf, project.features) : project.features,
+    };
+  });
+}
+
+export function defaultImportAction(candidate: ImportCandidate): ImportAction {
+  return candidate.duplicateOf ? "merge" : "create";
+}
+
+/**
+ * Applies the preview choices. Created projects are prepended in file order; merges append only feature bodies the
+ * target does not already have and leave its title, summary and tags alone. Merges whose target has disappeared fall
+ * back to creating the project.
+ */
+export function applyImportChoices(
+  existing: Idea[],
+  choices: ImportChoice[],
+  options: ImportOptions = {},
+): ImportResult {
+  const timestamp = options.timestamp ?? new Date().toISOString();
+  const featureOptions = { timestamp, idFactory: options.idFactory };
+  const byId = new Map(existing.map((idea) => [idea.id, idea]));
+  const created: Idea[] = [];
+  const mergedIds = new Set<string>();
+
+  for (const choice of choices) {
+    if (choice.action === "skip") {
+      continue;
+    }
+    const target = choice.action === "merge" && choice.targetId ? byId.get(choice.targetId) : undefined;
+    if (!target) {
+      created.push(createIdeaFromImport(choice.project, featureOptions));
+      continue;
+    }
+    const additions = newImportFeatures(target, choice.project.features);
+    if (additions.length === 0) {
+      continue;
+    }
+    byId.set(target.id, {
+      ...target,
+      features: [...target.features, ...createFeaturesFromImport(additions, featureOptions)],
+      updatedAt: timestamp,
+    });
+    mergedIds.add(target.id);
+  }
+
+  const ideas = [...created, ...existing.map((idea) => byId.get(idea.id) ?? idea)];
+  return { ideas, created, merged: ideas.filter((idea) => mergedIds.has(idea.id)) };
+}
+
+function newImportFeatures(target: Idea, features: MarkdownImportFeature[]): MarkdownImportFeature[] {
+  const seen = new Set(target.features.map((feature) => normalizeImportTitle(feature.content)));
+  return features.filter((feature) => {
+    const key = normalizeImportTitle(feature.content);
+    if (!key || seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Accepts a versioned backup or the bare project array written by Export Projects.
+ */
+export function parseJsonProjects(contents: string): MarkdownImportProject[] {
+  const document: unknown = JSON.parse(contents);
+  const backup = parseBackup(
+    Array.isArray(document)
+      ? JSON.stringify({ version: BACKUP_FORMAT_VERSION, schemaVersion: CURRENT_SCHEMA_VERSION, ideas: document })
+      : contents,
+  );
+  return backup.ideas.map(importProjectFromIdea);
+}
+
+const TITLE_COLUMNS = ["title", "project", "name"];
+const SUMMARY_COLUMNS = ["summary", "description", "context"];
+const TAG_COLUMNS = ["tags", "tag"];
+const STATUS_COLUMNS = ["status", "project status"];
+const FEATURE_COLUMN_PATTERN = /^features?\s*\d*$/;
+
+/**
+ * Reads one project per row, or one row per feature as written by the CSV export: consecutive rows with the same
+ * title are merged. Any `Feature`, `Features` or `Feature 2` column contributes features; a single `Features` cell may
+ * hold several separated by new lines or semicolons.
+ */
+export function parseCsvProjects(contents: string): MarkdownImportProject[] {
+  const [header = [], ...rows] = parseDelimitedRows(contents);
+  const columns = header.map((cell) => cell.trim().toLowerCase());
+  const columnIndex = (names: string[]) => columns.findIndex((column) => names.includes(column));
+  const titleIndex = columnIndex(TITLE_COLUMNS);
+  if (titleIndex === -1) {
+    throw new Error(`CSV needs a header row with a "Title" or "Project" column`);
+  }
+
+  const summaryIndex = columnIndex(SUMMARY_COLUMNS);
+  const tagsIndex = columnIndex(TAG_COLUMNS);
+  const statusIndex = columnIndex(STATUS_COLUMNS);
+  const featureStatusIndex = columnIndex(["feature status"]);
+  const notesIndex = columnIndex(["notes"]);
+  const linksIndex = columnIndex(["links"]);
+  const featureIndexes = columns.flatMap((column, index) => (FEATURE_COLUMN_PATTERN.test(column) ? [index] : []));
+
+  const projects: MarkdownImportProject[] = [];
+  for (const row of rows) {
+    // Strips the `'` the CSV export puts in front of formula-like cells.
+    const cell = (index: number) => (index === -1 ? "" : (row[index] ?? "").replace(/^'(?=[=+\-@\t\r])/, "").trim());
+    const title = cell(titleIndex);
+    if (!title) {
+      continue;
+    }
+
+    const previous = projects[projects.length - 1];
+    const project =
+      previous?.title === title
+        ? previous
+        : {
+            title,
+            ...(cell(summaryIndex) ? { summary: cell(summaryIndex) } : {}),
+            tags: parseTagsInput(cell(tagsIndex).replace(/;/g, ",")),
+            ...parseProjectStatus(cell(statusIndex)),
+            features: [],
+          };
+    if (project !== previous) {
+      projects.push(project);
+    }
+
+    const featureTexts = featureIndexes.flatMap((index) =>
+      featureIndexes.length === 1 && !cell(featureStatusIndex) ? cell(index).split(/\r?\n|;/) : [cell(index)],
+    );
+    const status = parseFeatureStatus(cell(featureStatusIndex));
+    for (const text of featureTexts.map((item) => item.trim()).filter(Boolean)) {
+      project.features.push({
+        ...parseFeatureLine(text),
+        ...(status ? { status } : {}),
+        ...(cell(notesIndex) ? { notes: cell(notesIndex) } : {}),
+        ...(cell(linksIndex) ? { links: parseFeatureLinks(cell(linksIndex).split(/\s+/).join("\n")) } : {}),
+      });
+    }
+  }
+  return projects;
+}
+
+/**
+ * Each top-level outline becomes a project and its children become features. Deeper levels are kept as a list in
+ * the feature's notes. `_note`, `category` (tags) and the `_complete`/`_status` completion flags used by common
+ * outliners are understood.
+ */
+export function parseOpmlProjects(contents: string): MarkdownImportProject[] {
+  const roots = parseOpmlOutlines(contents);
+  return roots
+    .filter((outline) => outline.text)
+    .map((outline) => ({
+      title: outline.text,
+      ...(outline.note ? { summary: outline.note } : {}),
+      tags: parseTagsInput(outline.category.split(",").map((tag) => tag.replace(/^\//, ""))),
+      features: outline.children
+        .filter((child) => child.text)
+        .map((child) => {
+          const nested = flattenOutlines(child.children);
+          const notes = [child.note, nested].filter(Boolean).join("\n\n");
+          return {
+            ...parseFeatureLine(child.text),
+            ...(child.isComplete ? { status: "done" as const } : {}),
+            ...(notes ? { notes } : {}),
+          };
+        }),
+    }));
+}
+
+/**
+ * Unindented lines start projects, the next indentation level holds features and anything deeper is kept as notes
+ * on the feature above. Bullets, numbering and checkboxes are stripped the same way the Markdown importer does.
+ */
+export function parseTextOutlineProjects(contents: string): MarkdownImportProject[] {
+  const projects: MarkdownImportProject[] = [];
+  const indentStack: number[] = [];
+
+  for (const rawLine of contents.split(/\r?\n/)) {
+    if (!rawLine.trim()) {
+      continue;
+    }
+    const indent = rawLine.match(/^\s*/)?.[0].replace(/\t/g, "    ").length ?? 0;
+    while (indentStack.length > 0 && indentStack[indentStack.length - 1] >= indent) {
+      indentStack.pop();
+    }
+    const depth = indentStack.length;
+    indentStack.push(indent);
+
+    const text = rawLine.trim().replace(/^([-*+•]|\d+[.)])\s+/, "");
+    const project = projects[projects.length - 1];
+    if (depth === 0 || !project) {
+      projects.push({ title: text, tags: [], features: [] });
+      indentStack.splice(0, indentStack.length, indent);
+      continue;
+    }
+
+    const feature = project.features[project.features.length - 1];
+    if (depth === 1 || !feature) {
+      project.features.push(parseFeatureLine(text));
+      continue;
+    }
+    const noteLine = `${"  ".repeat(depth - 2)}- ${text}`;
+    feature.notes = feature.notes ? `${feature.notes}\n${noteLine}` : noteLine;
+  }
+  return projects;
+}
+
+function importProjectFromIdea(idea: Idea): MarkdownImportProject {
+  return {
+    title: idea.title,
+    ...(idea.summary ? { summary: idea.summary } : {}),
+    tags: idea.tags,
+    isPinned: idea.isPinned,
+    isArchived: idea.isArchived,
+    createdAt: idea.createdAt,
+    updatedAt: idea.updatedAt,
+    features: idea.features.map((feature) => ({
+      content: feature.content,
+      status: feature.status,
+      ...(feature.notes ? { notes: feature.notes } : {}),
+      ...(feature.links?.length ? { links: feature.links } : {}),
+      ...(feature.attachments?.length ? { attachments: feature.attachments } : {}),
+    })),
+  };
+}
+
+function parseProjectStatus(value: string): Pick<MarkdownImportProject, "isPinned" | "isArchived"> {
+  const status = value.toLowerCase();
+  return status === "pinned" ? { isPinned: true } : status === "archived" ? { isArchived: true } : {};
+}
+
+function parseFeatureStatus(value: string): FeatureStatus | undefined {
+  const normalized = value.trim().toLowerCase();
+  return FEATURE_STATUSES.find(
+    (status) => status === normalized || FEATURE_STATUS_LABELS[status].toLowerCase() === normalized,
+  );
+}
+
+/**
+ * RFC 4180 rows with quoted fields, doubled quotes and line breaks inside quotes. Tab- and semicolon-separated files
+ * are recognised from the header line.
+ */
+function parseDelimitedRows(contents: string): string[][] {
+  const headerLine = contents.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter = [",", "\t", ";"].reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best,
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  for (let index = 0; index < contents.length; index += 1) {
+    const character = contents[index];
+    if (inQuotes) {
+      if (character === '"' && contents[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (character === '"') {
+        inQuotes = false;
+      } else {
+        field += character;
+      }
+    } else if (character === '"' && field === "") {
+      inQuotes = true;
+    } else if (character === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (character === "\n" || character === "\r") {
+      if (character === "\r" && contents[index + 1] === "\n") {
+        index += 1;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += character;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+type OpmlOutline = {
+  text: string;
+  note: string;
+  category: string;
+  isComplete: boolean;
+  children: OpmlOutline[];
+};
+
+function parseOpmlOutlines(contents: string): OpmlOutline[] {
+  const bodyStart = contents.search(/<body[\s>]/i);
+  if (bodyStart === -1) {
+    throw new Error("OPML file has no <body>");
+  }
+
+  const root: OpmlOutline = { text: "", note: "", category: "", isComplete: false, children: [] };
+  const stack = [root];
+  for (const match of contents.slice(bodyStart).matchAll(/<(\/?)outline\b([^>]*?)(\/?)>/gi)) {
+    const [, closing, attributes, selfClosing] = match;
+    if (closing) {
+      if (stack.length > 1) {
+        stack.pop();
+      }
+      continue;
+    }
+
+    const values = parseXmlAttributes(attributes);
+    const outline: OpmlOutline = {
+      text: (values.text ?? values.title ?? "").trim(),
+      note: (values._note ?? "").trim(),
+      category: values.category ?? "",
+      isComplete: values._complete === "true" || values._status === "checked",
+      children: [],
+    };
+    stack[stack.length - 1].children.push(outline);
+    if (!selfClosing) {
+      stack.push(outline);
+    }
+  }
+  return root.children;
+}
+
+function flattenOutlines(outlines: OpmlOutline[], depth = 0): string {
+  return outlines
+    .filter((outline) => outline.text)
+    .flatMap((outline) => {
+      const nested = flattenOutlines(outline.children, depth + 1);
+      return [`${"  ".repeat(depth)}- ${outline.text}`, ...(nested ? [nested] : [])];
+    })
+    .join("\n");
+}
+
+function parseXmlAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = decodeXmlEntities(match[2] ?? match[3] ?? "");
+  }
+  return attributes;
+}
+
+function decodeXmlEntities(value: string): string {
+  const named: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code.startsWith("#x") || code.startsWith("#X")) {
+      return String.fromCodePoint(parseInt(code.slice(2), 16));
+    }
+    if (code.startsWith("#")) {
+      return String.fromCodePoint(parseInt(code.slice(1), 10));
+    }
+    return named[code.toLowerCase()] ?? entity;
+  });
+}
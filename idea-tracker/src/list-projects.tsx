@@ -2,24 +2,73 @@ import {
   Action,
   ActionPanel,
   Clipboard,
-  Color,
   Form,
   Icon,
   LaunchProps,
+  LaunchType,
   List,
   Toast,
+  launchCommand,
+  popToRoot,
   showHUD,
   showToast,
   useNavigation,
 } from "@raycast/api";
 import { useLocalStorage } from "@raycast/utils";
 import { useCallback, useEffect, useMemo, useState } from "react";
-import { Idea, formatAbsoluteDate, formatIdeaMarkdown, formatIdeasMarkdown } from "./ideas";
-import { AddProjectForm, AppendFeatureForm, EditProjectForm, EditFeaturesForm } from "./project-forms";
+import {
+  FEATURE_STATUS_LABELS,
+  FeatureStatus,
+  Idea,
+  IdeaFeature,
+  TAG_FILTER_STORAGE_KEY,
+  formatAbsoluteDate,
+  formatIdeaMarkdown,
+  formatIdeasMarkdown,
+  formatRelativeTime,
+  isInboxIdea,
+  nextFeatureStatus,
+  previousFeatureStatus,
+  summarizeFeatureProgress,
+} from "./ideas";
+import { FeatureList, featureStatusIcon } from "./feature-list";
+import {
+  AddProjectForm,
+  AppendFeatureForm,
+  EditProjectForm,
+  EditFeaturesForm,
+  ExportProjectsForm,
+  SavedViewForm,
+  SplitProjectForm,
+  TemplateForm,
+} from "./project-forms";
+import { ExportFile } from "./export";
+import { ExportTemplate, renderExportTemplate } from "./export-templates";
+import { IMPORTERS, ImportAction, ImportCandidate, ImportChoice, ImportFormat, defaultImportAction } from "./importers";
 import { ProjectFormValues } from "./project-form-types";
+import { SearchMatch, highlightIdea, scoreIdea, tokenizeSearchText } from "./search";
+import { matchesSearchFilters, parseSearchQuery } from "./search-query";
+import {
+  SavedView,
+  SavedViewDraft,
+  matchesSavedView,
+  savedViewDropdownValue,
+  savedViewIdFromDropdownValue,
+} from "./saved-views";
 import { useIdeasManager } from "./use-ideas-manager";
-
-const TAG_COLORS = ["#A5B4FC", "#C4B5FD", "#FDBA8C", "#FBCFE8", "#BFDBFE", "#FDE68A", "#F5D0FE", "#C7D2FE"] as const;
+import { useSavedViews } from "./use-saved-views";
+import { useExportTemplates } from "./use-export-templates";
+import { useTemplates } from "./use-templates";
+import { SORT_MODES, SORT_MODE_LABELS, SortMode } from "./sort";
+import {
+  TagColorOverrides,
+  collectTags,
+  formatIdeasMarkdownByRootTag,
+  groupTagsByRoot,
+  resolveTagColor,
+  tagMatches,
+} from "./tags";
+import { ProjectTemplateDraft, templateFromIdea } from "./templates";
 
 export default function ListProjectsCommand({ launchContext }: LaunchProps<{ projectId?: string }>) {
   const {
@@ -29,35 +78,80 @@ export default function ListProjectsCommand({ launchContext }: LaunchProps<{ pro
     updateProject,
     appendFeature,
     editFeatures,
+    setFeatureStatus,
     togglePin,
     toggleArchive,
     deleteProject,
-    importProjectsFromMarkdown,
+    mergeProjects,
+    splitProject,
+    duplicateProject,
+    readImportFile,
+    importProjects,
+    writeExport,
+    sortMode,
+    setSortMode,
+    moveProject,
+    tagColors,
+    undoLabel,
+    redoLabel,
+    undo,
+    redo,
   } = useIdeasManager();
 
-  const { value: tagFilter, setValue: setTagFilter } = useLocalStorage<string>(
-    "raycast-idea-tracker/tag-filter",
-    "__all",
-  );
+  const { value: tagFilter, setValue: setTagFilter } = useLocalStorage<string>(TAG_FILTER_STORAGE_KEY, "__all");
 
   const selectedTag = tagFilter ?? "__all";
 
-  const availableTags = useMemo(() => {
-    const tagSet = new Set<string>();
+  const { views: savedViews, saveView, updateView, deleteView } = useSavedViews();
+  const { saveTemplate } = useTemplates();
+  const { exportTemplates } = useExportTemplates();
+  const activeViewId = savedViewIdFromDropdownValue(selectedTag);
+  const activeView = savedViews.find((view) => view.id === activeViewId);
+
+  const availableTags = useMemo(() => collectTags(projects), [projects]);
+  const tagGroups = useMemo(() => groupTagsByRoot(availableTags), [availableTags]);
+
+  const [searchText, setSearchText] = useState("");
+  const searchQuery = useMemo(() => parseSearchQuery(searchText), [searchText]);
+  const searchTerms = useMemo(() => tokenizeSearchText(searchQuery.text), [searchQuery]);
+
+  const searchMatches = useMemo(() => {
+    const matches = new Map<string, SearchMatch>();
     for (const project of projects) {
-      project.tags.forEach((tag) => tagSet.add(tag));
+      const match = scoreIdea(project, searchTerms);
+      if (match) {
+        matches.set(project.id, match);
+      }
     }
-    return Array.from(tagSet).sort((a, b) => a.localeCompare(b));
-  }, [projects]);
+    return matches;
+  }, [projects, searchTerms]);
 
   const filteredProjects = useMemo(() => {
-    const list = selectedTag === "__all" ? projects : projects.filter((project) => project.tags.includes(selectedTag));
+    const tagged = activeView
+      ? projects.filter((project) => matchesSavedView(project, activeView))
+      : selectedTag === "__all" || activeViewId
+        ? projects
+        : projects.filter((project) => project.tags.some((tag) => tagMatches(tag, selectedTag)));
+    const list = tagged.filter(
+      (project) => searchMatches.has(project.id) && matchesSearchFilters(project, searchQuery.filters),
+    );
+    if (searchTerms.length > 0) {
+      list.sort((a, b) => (searchMatches.get(b.id)?.score ?? 0) - (searchMatches.get(a.id)?.score ?? 0));
+    }
     return {
       pinned: list.filter((project) => project.isPinned && !project.isArchived),
       active: list.filter((project) => !project.isPinned && !project.isArchived),
       archived: list.filter((project) => project.isArchived),
     };
-  }, [projects, selectedTag]);
+  }, [activeView, activeViewId, projects, searchMatches, searchQuery, searchTerms, selectedTag]);
+
+  const visibleProjects = useMemo(
+    () => [...filteredProjects.pinned, ...filteredProjects.active, ...filteredProjects.archived],
+    [filteredProjects],
+  );
+
+  // Search ranking reorders rows and filters hide them, so on-screen neighbours match the manual order only without either.
+  const canReorder = sortMode === "manual" && searchTerms.length === 0 && visibleProjects.length === projects.length;
 
   const initialProjectId = launchContext?.projectId ?? null;
   const [selectedProjectId, setSelectedProjectId] = useState<string | null>(initialProjectId);
@@ -111,6 +205,12 @@ export default function ListProjectsCommand({ launchContext }: LaunchProps<{ pro
     [editFeatures],
   );
 
+  const handleSetFeatureStatus = useCallback(
+    async (projectId: string, featureId: string, status: FeatureStatus) =>
+      setFeatureStatus(projectId, featureId, status),
+    [setFeatureStatus],
+  );
+
   const handleTogglePin = useCallback(
     async (projectId: string, pin: boolean) => togglePin(projectId, pin),
     [togglePin],
@@ -123,13 +223,108 @@ export default function ListProjectsCommand({ launchContext }: LaunchProps<{ pro
 
   const handleDeleteProject = useCallback(async (projectId: string) => deleteProject(projectId), [deleteProject]);
 
+  const handleMergeProjects = useCallback(
+    async (sourceId: string, targetId: string) => mergeProjects(sourceId, targetId),
+    [mergeProjects],
+  );
+
+  const handleSplitProject = useCallback(
+    async (projectId: string, featureIds: string[], title: string) => splitProject(projectId, featureIds, title),
+    [splitProject],
+  );
+
+  const handleDuplicateProject = useCallback(
+    async (projectId: string, includeFeatures: boolean) => duplicateProject(projectId, includeFeatures),
+    [duplicateProject],
+  );
+
+  const currentViewDraft = useMemo<SavedViewDraft>(
+    () => ({
+      name: activeView?.name ?? "",
+      tags: activeView?.tags ?? (selectedTag !== "__all" && !activeViewId ? [selectedTag] : []),
+      state: activeView?.state ?? "all",
+      searchText,
+      sortMode,
+    }),
+    [activeView, activeViewId, searchText, selectedTag, sortMode],
+  );
+
+  const handleSelectFilter = useCallback(
+    (value: string) => {
+      void setTagFilter(value);
+      const view = savedViews.find((item) => item.id === savedViewIdFromDropdownValue(value));
+      if (view) {
+        setSearchText(view.searchText);
+        if (view.sortMode) {
+          void setSortMode(view.sortMode, { silent: true });
+        }
+      }
+    },
+    [savedViews, setSortMode, setTagFilter],
+  );
+
+  const handleSaveView = useCallback(
+    async (draft: SavedViewDraft) => {
+      const view = await saveView(draft);
+      if (!view) {
+        return false;
+      }
+      handleSelectFilter(savedViewDropdownValue(view.id));
+      return true;
+    },
+    [handleSelectFilter, saveView],
+  );
+
+  const handleSaveTemplate = useCallback(
+    async (draft: ProjectTemplateDraft) => (await saveTemplate(draft)) !== null,
+    [saveTemplate],
+  );
+
+  const handleUpdateView = useCallback(
+    async (viewId: string, draft: SavedViewDraft) => {
+      const view = await updateView(viewId, draft);
+      if (view && view.id === activeViewId) {
+        setSearchText(view.searchText);
+        if (view.sortMode) {
+          await setSortMode(view.sortMode, { silent: true });
+        }
+      }
+      return view !== null;
+    },
+    [activeViewId, setSortMode, updateView],
+  );
+
+  const handleDeleteView = useCallback(
+    async (viewId: string) => {
+      const deleted = await deleteView(viewId);
+      if (deleted && viewId === activeViewId) {
+        void setTagFilter("__all");
+      }
+    },
+    [activeViewId, deleteView, setTagFilter],
+  );
+
+  const handleSetSortMode = useCallback(async (mode: SortMode) => setSortMode(mode), [setSortMode]);
+
+  const handleMoveProject = useCallback(
+    async (projectId: string, targetId: string) => moveProject(projectId, targetId),
+    [moveProject],
+  );
+
+  const handleUndo = useCallback(async () => undo(), [undo]);
+
+  const handleRedo = useCallback(async () => redo(), [redo]);
+
   return (
     <List
       isLoading={isLoading}
       throttle
+      filtering={false}
+      searchText={searchText}
+      onSearchTextChange={setSearchText}
       isShowingDetail={isDetailVisible}
       selectedItemId={selectedProjectId ?? undefined}
-      searchBarPlaceholder="Search projects or features"
+      searchBarPlaceholder="Search projects or features, or filter with tag:, is:, status:…"
       onSelectionChange={(id) => {
         setSelectedProjectId(id ?? null);
         if (!id) {
@@ -137,71 +332,129 @@ export default function ListProjectsCommand({ launchContext }: LaunchProps<{ pro
         }
       }}
       searchBarAccessory={
-        <List.Dropdown
-          tooltip="Filter by tag"
-          storeValue
-          value={selectedTag}
-          onChange={(value) => void setTagFilter(value)}
-        >
+        <List.Dropdown tooltip="Filter by tag" storeValue value={selectedTag} onChange={handleSelectFilter}>
           <List.Dropdown.Item value="__all" title="All tags" />
+          {savedViews.length > 0 && (
+            <List.Dropdown.Section title="Saved Views">
+              {savedViews.map((view) => (
+                <List.Dropdown.Item
+                  key={view.id}
+                  value={savedViewDropdownValue(view.id)}
+                  title={view.name}
+                  icon={Icon.Bookmark}
+                />
+              ))}
+            </List.Dropdown.Section>
+          )}
           <List.Dropdown.Section title="Tags">
-            {availableTags.map((tag) => (
-              <List.Dropdown.Item key={tag} value={tag} title={tag} />
-            ))}
+            {tagGroups
+              .filter((group) => group.tags.length === 1)
+              .map((group) => (
+                <List.Dropdown.Item key={group.root} value={group.root} title={group.root} />
+              ))}
           </List.Dropdown.Section>
+          {tagGroups
+            .filter((group) => group.tags.length > 1)
+            .map((group) => (
+              <List.Dropdown.Section key={group.root} title={group.root}>
+                {group.tags.map((tag) => (
+                  <List.Dropdown.Item
+                    key={tag}
+                    value={tag}
+                    title={tag === group.root ? `All ${group.root}` : tag.slice(group.root.length + 1)}
+                    keywords={[tag]}
+                  />
+                ))}
+              </List.Dropdown.Section>
+            ))}
         </List.Dropdown>
       }
     >
       {filteredProjects.pinned.length === 0 &&
       filteredProjects.active.length === 0 &&
       filteredProjects.archived.length === 0 ? (
-        <List.EmptyView
-          icon={Icon.Plus}
-          title="Start tracking your first project"
-          description="Create a project to begin capturing ideas and features."
-          actions={
-            <ActionPanel>
-              <Action.Push
-                title="Add Project"
-                icon={Icon.Plus}
-                target={<AddProjectForm onSubmit={handleCreateProject} />}
-              />
-              <Action.Push
-                title="Import Projects from Markdown"
-                icon={Icon.Upload}
-                target={<ImportProjectsForm onImport={importProjectsFromMarkdown} />}
-              />
-            </ActionPanel>
-          }
-        />
+        searchText.trim() ? (
+          <List.EmptyView
+            icon={Icon.MagnifyingGlass}
+            title="No matching projects"
+            description="Free text searches titles, summaries, tags and features. Filters: tag:, -tag:, is:pinned, is:archived, has:features, status:done, updated:<30d, created:>2025-01-01."
+          />
+        ) : (
+          <List.EmptyView
+            icon={Icon.Plus}
+            title="Start tracking your first project"
+            description="Create a project to begin capturing ideas and features."
+            actions={
+              <ActionPanel>
+                <Action.Push
+                  title="Add Project"
+                  icon={Icon.Plus}
+                  target={<AddProjectForm availableTags={availableTags} onSubmit={handleCreateProject} />}
+                />
+                <Action.Push
+                  title="Import Projects"
+                  icon={Icon.Upload}
+                  target={<ImportProjectsForm onRead={readImportFile} onImport={importProjects} />}
+                />
+                <HistoryActions undoLabel={undoLabel} redoLabel={redoLabel} onUndo={handleUndo} onRedo={handleRedo} />
+              </ActionPanel>
+            }
+          />
+        )
       ) : (
         <>
           {filteredProjects.pinned.length > 0 && (
             <List.Section title="Pinned Projects" subtitle={`${filteredProjects.pinned.length}`}>
-              {filteredProjects.pinned.map((project) => (
+              {filteredProjects.pinned.map((project, index, section) => (
                 <ProjectListItem
                   key={project.id}
+                  previousProjectId={canReorder ? section[index - 1]?.id : undefined}
+                  nextProjectId={canReorder ? section[index + 1]?.id : undefined}
                   project={project}
                   isDetailVisible={isDetailVisible}
                   selectedProjectId={selectedProjectId}
                   onShowDetail={handleShowProjectDetail}
                   onHideDetail={handleHideProjectDetail}
                   allProjects={projects}
+                  visibleProjects={visibleProjects}
+                  onExportProjects={writeExport}
+                  tagColors={tagColors}
+                  searchTerms={searchTerms}
+                  matchedFeature={searchMatches.get(project.id)?.matchedFeature}
                   onAppendFeature={handleAppendFeature}
                   onEditFeatures={handleEditFeatures}
+                  onSetFeatureStatus={handleSetFeatureStatus}
                   onDelete={handleDeleteProject}
                   onCreateProject={handleCreateProject}
                   onUpdateProject={handleUpdateProject}
                   onTogglePin={handleTogglePin}
                   onToggleArchive={handleToggleArchive}
-                  onImportProjects={importProjectsFromMarkdown}
+                  onReadImportFile={readImportFile}
+                  onImportProjects={importProjects}
+                  onMergeProjects={handleMergeProjects}
+                  onSplitProject={handleSplitProject}
+                  onDuplicateProject={handleDuplicateProject}
+                  activeView={activeView}
+                  currentViewDraft={currentViewDraft}
+                  onSaveView={handleSaveView}
+                  onSaveTemplate={handleSaveTemplate}
+                  exportTemplates={exportTemplates}
+                  onUpdateView={handleUpdateView}
+                  onDeleteView={handleDeleteView}
+                  sortMode={sortMode}
+                  onSetSortMode={handleSetSortMode}
+                  onMoveProject={handleMoveProject}
+                  undoLabel={undoLabel}
+                  redoLabel={redoLabel}
+                  onUndo={handleUndo}
+                  onRedo={handleRedo}
                 />
               ))}
             </List.Section>
           )}
 
           <List.Section title="Projects" subtitle={`${filteredProjects.active.length}`}>
-            {filteredProjects.active.length === 0 ? (
+            {filteredProjects.active.length === 0 && !searchText.trim() ? (
               <List.Item
                 title="No active projects"
                 icon={Icon.Tray}
@@ -210,34 +463,60 @@ export default function ListProjectsCommand({ launchContext }: LaunchProps<{ pro
                     <Action.Push
                       title="Add Project"
                       icon={Icon.Plus}
-                      target={<AddProjectForm onSubmit={handleCreateProject} />}
+                      target={<AddProjectForm availableTags={availableTags} onSubmit={handleCreateProject} />}
                     />
                     <Action.Push
-                      title="Import Projects from Markdown"
+                      title="Import Projects"
                       icon={Icon.Upload}
-                      target={<ImportProjectsForm onImport={importProjectsFromMarkdown} />}
+                      target={<ImportProjectsForm onRead={readImportFile} onImport={importProjects} />}
                     />
                   </ActionPanel>
                 }
               />
             ) : (
-              filteredProjects.active.map((project) => (
+              filteredProjects.active.map((project, index, section) => (
                 <ProjectListItem
                   key={project.id}
+                  previousProjectId={canReorder ? section[index - 1]?.id : undefined}
+                  nextProjectId={canReorder ? section[index + 1]?.id : undefined}
                   project={project}
                   isDetailVisible={isDetailVisible}
                   selectedProjectId={selectedProjectId}
                   onShowDetail={handleShowProjectDetail}
                   onHideDetail={handleHideProjectDetail}
                   allProjects={projects}
+                  visibleProjects={visibleProjects}
+                  onExportProjects={writeExport}
+                  tagColors={tagColors}
+                  searchTerms={searchTerms}
+                  matchedFeature={searchMatches.get(project.id)?.matchedFeature}
                   onAppendFeature={handleAppendFeature}
                   onEditFeatures={handleEditFeatures}
+                  onSetFeatureStatus={handleSetFeatureStatus}
                   onDelete={handleDeleteProject}
                   onCreateProject={handleCreateProject}
                   onUpdateProject={handleUpdateProject}
                   onTogglePin={handleTogglePin}
                   onToggleArchive={handleToggleArchive}
-                  onImportProjects={importProjectsFromMarkdown}
+                  onReadImportFile={readImportFile}
+                  onImportProjects={importProjects}
+                  onMergeProjects={handleMergeProjects}
+                  onSplitProject={handleSplitProject}
+                  onDuplicateProject={handleDuplicateProject}
+                  activeView={activeView}
+                  currentViewDraft={currentViewDraft}
+                  onSaveView={handleSaveView}
+                  onSaveTemplate={handleSaveTemplate}
+                  exportTemplates={exportTemplates}
+                  onUpdateView={handleUpdateView}
+                  onDeleteView={handleDeleteView}
+                  sortMode={sortMode}
+                  onSetSortMode={handleSetSortMode}
+                  onMoveProject={handleMoveProject}
+                  undoLabel={undoLabel}
+                  redoLabel={redoLabel}
+                  onUndo={handleUndo}
+                  onRedo={handleRedo}
                 />
               ))
             )}
@@ -254,14 +533,38 @@ export default function ListProjectsCommand({ launchContext }: LaunchProps<{ pro
                   onShowDetail={handleShowProjectDetail}
                   onHideDetail={handleHideProjectDetail}
                   allProjects={projects}
+                  visibleProjects={visibleProjects}
+                  onExportProjects={writeExport}
+                  tagColors={tagColors}
+                  searchTerms={searchTerms}
+                  matchedFeature={searchMatches.get(project.id)?.matchedFeature}
                   onAppendFeature={handleAppendFeature}
                   onEditFeatures={handleEditFeatures}
+                  onSetFeatureStatus={handleSetFeatureStatus}
                   onDelete={handleDeleteProject}
                   onCreateProject={handleCreateProject}
                   onUpdateProject={handleUpdateProject}
                   onTogglePin={handleTogglePin}
                   onToggleArchive={handleToggleArchive}
-                  onImportProjects={importProjectsFromMarkdown}
+                  onReadImportFile={readImportFile}
+                  onImportProjects={importProjects}
+                  onMergeProjects={handleMergeProjects}
+                  onSplitProject={handleSplitProject}
+                  onDuplicateProject={handleDuplicateProject}
+                  activeView={activeView}
+                  currentViewDraft={currentViewDraft}
+                  onSaveView={handleSaveView}
+                  onSaveTemplate={handleSaveTemplate}
+                  exportTemplates={exportTemplates}
+                  onUpdateView={handleUpdateView}
+                  onDeleteView={handleDeleteView}
+                  sortMode={sortMode}
+                  onSetSortMode={handleSetSortMode}
+                  onMoveProject={handleMoveProject}
+                  undoLabel={undoLabel}
+                  redoLabel={redoLabel}
+                  onUndo={handleUndo}
+                  onRedo={handleRedo}
                 />
               ))}
             </List.Section>
@@ -278,6 +581,20 @@ type UpdateProjectHandler = (projectId: string, values: ProjectFormValues) => Pr
 
 type EditFeaturesHandler = (projectId: string, featureBodies: string[]) => Promise<Idea | null>;
 
+type SetFeatureStatusHandler = (projectId: string, featureId: string, status: FeatureStatus) => Promise<Idea | null>;
+
+type MergeProjectsHandler = (sourceId: string, targetId: string) => Promise<Idea | null>;
+
+type SplitProjectHandler = (projectId: string, featureIds: string[], title: string) => Promise<Idea | null>;
+
+type DuplicateProjectHandler = (projectId: string, includeFeatures: boolean) => Promise<Idea | null>;
+
+type ReadImportFileHandler = (filePath: string, format?: ImportFormat) => Promise<ImportCandidate[]>;
+
+type ImportProjectsHandler = (choices: ImportChoice[]) => Promise<number>;
+
+type ExportProjectsHandler = (folderPath: string, files: ExportFile[]) => Promise<string | null>;
+
 type ProjectListItemProps = {
   project: Idea;
   isDetailVisible: boolean;
@@ -285,14 +602,40 @@ type ProjectListItemProps = {
   onShowDetail: (projectId: string) => void;
   onHideDetail: () => void;
   allProjects: Idea[];
+  visibleProjects: Idea[];
+  onExportProjects: ExportProjectsHandler;
+  tagColors: TagColorOverrides;
+  searchTerms: string[];
+  matchedFeature?: IdeaFeature;
   onAppendFeature: AppendFeatureHandler;
   onEditFeatures: EditFeaturesHandler;
+  onSetFeatureStatus: SetFeatureStatusHandler;
   onDelete: (projectId: string) => Promise<void>;
   onCreateProject: (values: ProjectFormValues) => Promise<boolean>;
   onUpdateProject: UpdateProjectHandler;
   onTogglePin: (projectId: string, pin: boolean) => Promise<void>;
   onToggleArchive: (projectId: string, archive: boolean) => Promise<void>;
-  onImportProjects: (filePath: string) => Promise<number>;
+  onReadImportFile: ReadImportFileHandler;
+  onImportProjects: ImportProjectsHandler;
+  onMergeProjects: MergeProjectsHandler;
+  onSplitProject: SplitProjectHandler;
+  onDuplicateProject: DuplicateProjectHandler;
+  activeView?: SavedView;
+  currentViewDraft: SavedViewDraft;
+  onSaveView: (draft: SavedViewDraft) => Promise<boolean>;
+  onSaveTemplate: (draft: ProjectTemplateDraft) => Promise<boolean>;
+  exportTemplates: ExportTemplate[];
+  onUpdateView: (viewId: string, draft: SavedViewDraft) => Promise<boolean>;
+  onDeleteView: (viewId: string) => Promise<void>;
+  sortMode: SortMode;
+  onSetSortMode: (mode: SortMode) => Promise<void>;
+  onMoveProject: (projectId: string, targetId: string) => Promise<void>;
+  previousProjectId?: string;
+  nextProjectId?: string;
+  undoLabel?: string;
+  redoLabel?: string;
+  onUndo: () => Promise<boolean>;
+  onRedo: () => Promise<boolean>;
 };
 
 function ProjectListItem({
@@ -302,19 +645,54 @@ function ProjectListItem({
   onShowDetail,
   onHideDetail,
   allProjects,
+  visibleProjects,
+  onExportProjects,
+  tagColors,
+  searchTerms,
+  matchedFeature,
   onAppendFeature,
   onEditFeatures,
+  onSetFeatureStatus,
   onDelete,
   onCreateProject,
   onUpdateProject,
   onTogglePin,
   onToggleArchive,
+  onReadImportFile,
   onImportProjects,
+  onMergeProjects,
+  onSplitProject,
+  onDuplicateProject,
+  activeView,
+  currentViewDraft,
+  onSaveView,
+  onSaveTemplate,
+  exportTemplates,
+  onUpdateView,
+  onDeleteView,
+  sortMode,
+  onSetSortMode,
+  onMoveProject,
+  previousProjectId,
+  nextProjectId,
+  undoLabel,
+  redoLabel,
+  onUndo,
+  onRedo,
 }: ProjectListItemProps) {
   const accessories: List.Item.Accessory[] = project.tags.map((tag) => ({
-    tag: { value: tag, color: tagColor(tag) },
+    tag: { value: tag, color: resolveTagColor(tag, tagColors) },
   }));
 
+  const progress = summarizeFeatureProgress(project.features);
+  if (progress.total > 0) {
+    accessories.push({
+      text: `${progress.done}/${progress.total} done`,
+      icon: progress.done === progress.total ? Icon.CheckCircle : Icon.Circle,
+      tooltip: "Completed features (dropped features excluded)",
+    });
+  }
+
   accessories.push({
     text: formatRelativeTime(project.updatedAt),
     tooltip: `Updated ${formatAbsoluteDate(project.updatedAt)}`,
@@ -326,11 +704,18 @@ function ProjectListItem({
     <List.Item
       id={project.id}
       title={project.title}
-      subtitle={project.summary}
-      keywords={[project.summary ?? "", ...project.tags]}
+      subtitle={matchedFeature ? { value: matchedFeature.content, tooltip: "Matching feature" } : project.summary}
       accessories={accessories}
-      icon={project.isPinned ? Icon.Star : project.isArchived ? Icon.Folder : Icon.Document}
-      detail={isDetailVisible ? <ProjectListItemDetail project={project} /> : undefined}
+      icon={
+        isInboxIdea(project)
+          ? Icon.Tray
+          : project.isPinned
+            ? Icon.Star
+            : project.isArchived
+              ? Icon.Folder
+              : Icon.Document
+      }
+      detail={isDetailVisible ? <ProjectListItemDetail project={project} searchTerms={searchTerms} /> : undefined}
       actions={
         <ProjectActions
           project={project}
@@ -338,22 +723,49 @@ function ProjectListItem({
           onHideDetail={onHideDetail}
           isDetailActive={isDetailActive}
           allProjects={allProjects}
+          visibleProjects={visibleProjects}
+          onExportProjects={onExportProjects}
           onAppendFeature={onAppendFeature}
           onEditFeatures={onEditFeatures}
+          onSetFeatureStatus={onSetFeatureStatus}
           onDelete={onDelete}
           onCreateProject={onCreateProject}
           onUpdateProject={onUpdateProject}
           onTogglePin={onTogglePin}
           onToggleArchive={onToggleArchive}
+          onReadImportFile={onReadImportFile}
           onImportProjects={onImportProjects}
+          onMergeProjects={onMergeProjects}
+          onSplitProject={onSplitProject}
+          onDuplicateProject={onDuplicateProject}
+          activeView={activeView}
+          currentViewDraft={currentViewDraft}
+          onSaveView={onSaveView}
+          onSaveTemplate={onSaveTemplate}
+          exportTemplates={exportTemplates}
+          onUpdateView={onUpdateView}
+          onDeleteView={onDeleteView}
+          sortMode={sortMode}
+          onSetSortMode={onSetSortMode}
+          onMoveProject={onMoveProject}
+          previousProjectId={previousProjectId}
+          nextProjectId={nextProjectId}
+          undoLabel={undoLabel}
+          redoLabel={redoLabel}
+          onUndo={onUndo}
+          onRedo={onRedo}
         />
       }
     />
   );
 }
 
-function ProjectListItemDetail({ project }: { project: Idea }) {
-  return <List.Item.Detail markdown={formatIdeaMarkdown(project)} />;
+function ProjectListItemDetail({ project, searchTerms }: { project: Idea; searchTerms: string[] }) {
+  return (
+    <List.Item.Detail
+      markdown={formatIdeaMarkdown(highlightIdea(project, searchTerms), { formatDate: formatAbsoluteDate })}
+    />
+  );
 }
 
 type ProjectActionsProps = {
@@ -362,14 +774,37 @@ type ProjectActionsProps = {
   onHideDetail: () => void;
   isDetailActive: boolean;
   allProjects: Idea[];
+  visibleProjects: Idea[];
+  onExportProjects: ExportProjectsHandler;
   onAppendFeature: AppendFeatureHandler;
   onEditFeatures: EditFeaturesHandler;
+  onSetFeatureStatus: SetFeatureStatusHandler;
   onDelete: (projectId: string) => Promise<void>;
   onCreateProject: (values: ProjectFormValues) => Promise<boolean>;
   onUpdateProject: UpdateProjectHandler;
   onTogglePin: (projectId: string, pin: boolean) => Promise<void>;
   onToggleArchive: (projectId: string, archive: boolean) => Promise<void>;
-  onImportProjects: (filePath: string) => Promise<number>;
+  onReadImportFile: ReadImportFileHandler;
+  onImportProjects: ImportProjectsHandler;
+  onMergeProjects: MergeProjectsHandler;
+  onSplitProject: SplitProjectHandler;
+  onDuplicateProject: DuplicateProjectHandler;
+  activeView?: SavedView;
+  currentViewDraft: SavedViewDraft;
+  onSaveView: (draft: SavedViewDraft) => Promise<boolean>;
+  onSaveTemplate: (draft: ProjectTemplateDraft) => Promise<boolean>;
+  exportTemplates: ExportTemplate[];
+  onUpdateView: (viewId: string, draft: SavedViewDraft) => Promise<boolean>;
+  onDeleteView: (viewId: string) => Promise<void>;
+  sortMode: SortMode;
+  onSetSortMode: (mode: SortMode) => Promise<void>;
+  onMoveProject: (projectId: string, targetId: string) => Promise<void>;
+  previousProjectId?: string;
+  nextProjectId?: string;
+  undoLabel?: string;
+  redoLabel?: string;
+  onUndo: () => Promise<boolean>;
+  onRedo: () => Promise<boolean>;
 };
 
 function ProjectActions({
@@ -378,15 +813,44 @@ function ProjectActions({
   onHideDetail,
   isDetailActive,
   allProjects,
+  visibleProjects,
+  onExportProjects,
   onAppendFeature,
   onEditFeatures,
+  onSetFeatureStatus,
   onDelete,
   onCreateProject,
   onUpdateProject,
   onTogglePin,
   onToggleArchive,
+  onReadImportFile,
   onImportProjects,
+  onMergeProjects,
+  onSplitProject,
+  onDuplicateProject,
+  activeView,
+  currentViewDraft,
+  onSaveView,
+  onSaveTemplate,
+  exportTemplates,
+  onUpdateView,
+  onDeleteView,
+  sortMode,
+  onSetSortMode,
+  onMoveProject,
+  previousProjectId,
+  nextProjectId,
+  undoLabel,
+  redoLabel,
+  onUndo,
+  onRedo,
 }: ProjectActionsProps) {
+  const availableTags = collectTags(allProjects);
+  const featureLinks = project.features.flatMap((feature) =>
+    (feature.links ?? []).map((link, index) => ({ key: `${feature.id}-${index}`, feature, link })),
+  );
+  const mergeTargets = allProjects.filter((item) => item.id !== project.id && !item.isArchived);
+
   return (
     <ActionPanel>
       <ActionPanel.Section title="Project">
@@ -402,6 +866,12 @@ function ProjectActions({
             <InlineAppendFeatureForm projectId={project.id} projectTitle={project.title} onSubmit={onAppendFeature} />
           }
         />
+        <Action.Push
+          title="Show Features"
+          icon={Icon.BulletPoints}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "f" }}
+          target={<FeatureList projectId={project.id} />}
+        />
         <Action.Push
           title="Edit Features"
           icon={Icon.TextDocument}
@@ -423,6 +893,7 @@ function ProjectActions({
           target={
             <EditProjectForm
               project={project}
+              availableTags={availableTags}
               onSubmit={async (values) => {
                 const result = await onUpdateProject(project.id, values);
                 return result !== null;
@@ -430,6 +901,16 @@ function ProjectActions({
             />
           }
         />
+        {isDetailActive && !project.isArchived && project.features.length > 0 && (
+          <FeatureStatusActions project={project} onSetFeatureStatus={onSetFeatureStatus} />
+        )}
+        {featureLinks.length > 0 && (
+          <ActionPanel.Submenu title="Open Link" icon={Icon.Link} shortcut={{ modifiers: ["cmd"], key: "l" }}>
+            {featureLinks.map(({ key, feature, link }) => (
+              <Action.OpenInBrowser key={key} title={`${feature.content}: ${link.title}`} url={link.url} />
+            ))}
+          </ActionPanel.Submenu>
+        )}
         {project.isPinned ? (
           <Action
             title="Unpin Project"
@@ -445,6 +926,14 @@ function ProjectActions({
             onAction={() => onTogglePin(project.id, true)}
           />
         )}
+        {isInboxIdea(project) && project.features.length > 0 && (
+          <Action
+            title="Triage Inbox"
+            icon={Icon.Tray}
+            shortcut={{ modifiers: ["cmd"], key: "t" }}
+            onAction={() => launchCommand({ name: "triage-inbox", type: LaunchType.UserInitiated })}
+          />
+        )}
         {project.isArchived ? (
           <Action
             title="Restore Project"
@@ -453,12 +942,14 @@ function ProjectActions({
             onAction={() => onToggleArchive(project.id, false)}
           />
         ) : (
-          <Action
-            title="Archive Project"
-            icon={Icon.Folder}
-            shortcut={{ modifiers: ["cmd", "shift"], key: "a" }}
-            onAction={() => onToggleArchive(project.id, true)}
-          />
+          !isInboxIdea(project) && (
+            <Action
+              title="Archive Project"
+              icon={Icon.Folder}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "a" }}
+              onAction={() => onToggleArchive(project.id, true)}
+            />
+          )
         )}
       </ActionPanel.Section>
 
@@ -481,6 +972,55 @@ function ProjectActions({
             await showHUD("Copied all projects");
           }}
         />
+        <Action
+          title="Copy All Projects Grouped by Tag"
+          icon={Icon.Tag}
+          shortcut={{ modifiers: ["cmd", "opt"], key: "c" }}
+          onAction={async () => {
+            await Clipboard.copy(formatIdeasMarkdownByRootTag(allProjects));
+            await showHUD("Copied all projects grouped by tag");
+          }}
+        />
+        {exportTemplates.length > 0 && (
+          <ActionPanel.Submenu
+            title="Copy Project with Template"
+            icon={Icon.Brush}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "t" }}
+          >
+            {exportTemplates.map((template) => (
+              <Action
+                key={template.id}
+                title={template.name}
+                icon={Icon.Brush}
+                onAction={async () => {
+                  try {
+                    await Clipboard.copy(renderExportTemplate(template.body, project));
+                    await showHUD(`Copied project as ${template.name}`);
+                  } catch (error) {
+                    await showToast(Toast.Style.Failure, `Failed to render ${template.name}`, String(error));
+                  }
+                }}
+              />
+            ))}
+          </ActionPanel.Submenu>
+        )}
+        <Action.Push
+          title="Export Projects"
+          icon={Icon.SaveDocument}
+          shortcut={{ modifiers: ["cmd", "opt"], key: "e" }}
+          target={
+            <ExportProjectsForm
+              scopes={{
+                selected: [project],
+                filtered: visibleProjects,
+                all: allProjects,
+                archived: allProjects.filter((item) => item.isArchived),
+              }}
+              defaultScope="all"
+              onExport={onExportProjects}
+            />
+          }
+        />
       </ActionPanel.Section>
 
       <ActionPanel.Section title="Navigate">
@@ -488,29 +1028,250 @@ function ProjectActions({
           title="Add Project"
           icon={Icon.Plus}
           shortcut={{ modifiers: ["cmd"], key: "n" }}
-          target={<AddProjectForm onSubmit={onCreateProject} />}
+          target={<AddProjectForm availableTags={availableTags} onSubmit={onCreateProject} />}
         />
       </ActionPanel.Section>
 
       <ActionPanel.Section title="Manage">
+        {!isInboxIdea(project) && mergeTargets.length > 0 && (
+          <ActionPanel.Submenu
+            title="Merge into Project"
+            icon={Icon.ArrowsContract}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "j" }}
+          >
+            {mergeTargets.map((target) => (
+              <Action
+                key={target.id}
+                title={target.title}
+                icon={isInboxIdea(target) ? Icon.Tray : Icon.Document}
+                onAction={() => onMergeProjects(project.id, target.id)}
+              />
+            ))}
+          </ActionPanel.Submenu>
+        )}
+        {!isInboxIdea(project) && (
+          <Action.Push
+            title="Save as Template"
+            icon={Icon.Clipboard}
+            target={
+              <TemplateForm
+                navigationTitle="Save as Template"
+                submitLabel="Save Template"
+                initialValues={templateFromIdea(project)}
+                onSubmit={onSaveTemplate}
+              />
+            }
+          />
+        )}
+        {!project.isArchived && project.features.length > 1 && (
+          <Action.Push
+            title="Split Project"
+            icon={Icon.Switch}
+            target={
+              <SplitProjectForm
+                project={project}
+                onSubmit={async (featureIds, title) => {
+                  const created = await onSplitProject(project.id, featureIds, title);
+                  return created !== null;
+                }}
+              />
+            }
+          />
+        )}
+        {!isInboxIdea(project) && (
+          <ActionPanel.Submenu
+            title="Duplicate Project"
+            icon={Icon.Duplicate}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "d" }}
+          >
+            <Action title="With Features" icon={Icon.List} onAction={() => onDuplicateProject(project.id, true)} />
+            <Action title="Metadata Only" icon={Icon.Document} onAction={() => onDuplicateProject(project.id, false)} />
+          </ActionPanel.Submenu>
+        )}
+        {!isInboxIdea(project) && (
+          <Action
+            title="Move Project to Trash"
+            icon={Icon.Trash}
+            style={Action.Style.Destructive}
+            shortcut={{ modifiers: ["ctrl"], key: "x" }}
+            onAction={async () => onDelete(project.id)}
+          />
+        )}
+        <Action.Push
+          title="Import Projects"
+          icon={Icon.Upload}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "i" }}
+          target={<ImportProjectsForm onRead={onReadImportFile} onImport={onImportProjects} />}
+        />
         <Action
-          title="Delete Project"
+          title="View Trash"
           icon={Icon.Trash}
-          style={Action.Style.Destructive}
-          shortcut={{ modifiers: ["ctrl"], key: "x" }}
-          onAction={async () => onDelete(project.id)}
+          onAction={() => launchCommand({ name: "view-trash", type: LaunchType.UserInitiated })}
         />
+      </ActionPanel.Section>
+
+      <ActionPanel.Section title="Views">
+        <ActionPanel.Submenu
+          title="Change Sort Order"
+          icon={Icon.ArrowsExpand}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "o" }}
+        >
+          {SORT_MODES.map((mode) => (
+            <Action
+              key={mode}
+              title={SORT_MODE_LABELS[mode]}
+              icon={mode === sortMode ? Icon.CheckCircle : Icon.Circle}
+              onAction={() => onSetSortMode(mode)}
+            />
+          ))}
+        </ActionPanel.Submenu>
+        {previousProjectId && (
+          <Action
+            title="Move Higher"
+            icon={Icon.ArrowUp}
+            shortcut={{ modifiers: ["cmd", "opt"], key: "arrowUp" }}
+            onAction={() => onMoveProject(project.id, previousProjectId)}
+          />
+        )}
+        {nextProjectId && (
+          <Action
+            title="Move Lower"
+            icon={Icon.ArrowDown}
+            shortcut={{ modifiers: ["cmd", "opt"], key: "arrowDown" }}
+            onAction={() => onMoveProject(project.id, nextProjectId)}
+          />
+        )}
         <Action.Push
-          title="Import Projects from Markdown"
-          icon={Icon.Upload}
-          shortcut={{ modifiers: ["cmd", "shift"], key: "i" }}
-          target={<ImportProjectsForm onImport={onImportProjects} />}
+          title="Save Filter as View"
+          icon={Icon.Bookmark}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "s" }}
+          target={
+            <SavedViewForm
+              navigationTitle="Save View"
+              submitLabel="Save View"
+              initialValues={{ ...currentViewDraft, name: "" }}
+              onSubmit={onSaveView}
+            />
+          }
         />
+        {activeView && (
+          <>
+            <Action.Push
+              title="Edit View"
+              icon={Icon.Pencil}
+              target={
+                <SavedViewForm
+                  navigationTitle={`Edit View • ${activeView.name}`}
+                  submitLabel="Save Changes"
+                  initialValues={currentViewDraft}
+                  onSubmit={(draft) => onUpdateView(activeView.id, draft)}
+                />
+              }
+            />
+            <Action
+              title="Delete View"
+              icon={Icon.Trash}
+              style={Action.Style.Destructive}
+              onAction={() => onDeleteView(activeView.id)}
+            />
+          </>
+        )}
+      </ActionPanel.Section>
+
+      <ActionPanel.Section title="History">
+        <HistoryActions undoLabel={undoLabel} redoLabel={redoLabel} onUndo={onUndo} onRedo={onRedo} />
       </ActionPanel.Section>
     </ActionPanel>
   );
 }
 
+function HistoryActions({
+  undoLabel,
+  redoLabel,
+  onUndo,
+  onRedo,
+}: {
+  undoLabel?: string;
+  redoLabel?: string;
+  onUndo: () => Promise<boolean>;
+  onRedo: () => Promise<boolean>;
+}) {
+  return (
+    <>
+      {undoLabel && (
+        <Action
+          title={`Undo ${undoLabel}`}
+          icon={Icon.ArrowCounterClockwise}
+          shortcut={{ modifiers: ["cmd"], key: "z" }}
+          onAction={onUndo}
+        />
+      )}
+      {redoLabel && (
+        <Action
+          title={`Redo ${redoLabel}`}
+          icon={Icon.ArrowClockwise}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "z" }}
+          onAction={onRedo}
+        />
+      )}
+    </>
+  );
+}
+
+function FeatureStatusActions({
+  project,
+  onSetFeatureStatus,
+}: {
+  project: Idea;
+  onSetFeatureStatus: SetFeatureStatusHandler;
+}) {
+  const advanceable = project.features.filter((feature) => nextFeatureStatus(feature.status) !== null);
+  const revertible = project.features.filter((feature) => previousFeatureStatus(feature.status) !== null);
+
+  return (
+    <>
+      {advanceable.length > 0 && (
+        <ActionPanel.Submenu
+          title="Advance Feature Status"
+          icon={Icon.ArrowRightCircle}
+          shortcut={{ modifiers: ["cmd"], key: "]" }}
+        >
+          {advanceable.map((feature) => {
+            const next = nextFeatureStatus(feature.status) as FeatureStatus;
+            return (
+              <Action
+                key={feature.id}
+                title={`${feature.content} → ${FEATURE_STATUS_LABELS[next]}`}
+                icon={featureStatusIcon(next)}
+                onAction={() => onSetFeatureStatus(project.id, feature.id, next)}
+              />
+            );
+          })}
+        </ActionPanel.Submenu>
+      )}
+      {revertible.length > 0 && (
+        <ActionPanel.Submenu
+          title="Revert Feature Status"
+          icon={Icon.ArrowLeftCircle}
+          shortcut={{ modifiers: ["cmd"], key: "[" }}
+        >
+          {revertible.map((feature) => {
+            const previous = previousFeatureStatus(feature.status) as FeatureStatus;
+            return (
+              <Action
+                key={feature.id}
+                title={`${feature.content} → ${FEATURE_STATUS_LABELS[previous]}`}
+                icon={featureStatusIcon(previous)}
+                onAction={() => onSetFeatureStatus(project.id, feature.id, previous)}
+              />
+            );
+          })}
+        </ActionPanel.Submenu>
+      )}
+    </>
+  );
+}
+
 function InlineAppendFeatureForm(props: {
   projectId: string;
   projectTitle: string;
@@ -535,8 +1296,8 @@ function InlineAppendFeatureForm(props: {
   );
 }
 
-function ImportProjectsForm({ onImport }: { onImport: (filePath: string) => Promise<number> }) {
-  const { pop } = useNavigation();
+function ImportProjectsForm({ onRead, onImport }: { onRead: ReadImportFileHandler; onImport: ImportProjectsHandler }) {
+  const { push } = useNavigation();
 
   return (
     <Form
@@ -544,63 +1305,104 @@ function ImportProjectsForm({ onImport }: { onImport: (filePath: string) => Prom
       actions={
         <ActionPanel>
           <Action.SubmitForm
-            title="Import"
-            onSubmit={async (values: { file?: string[] }) => {
+            title="Preview Import"
+            icon={Icon.Eye}
+            onSubmit={async (values: { file?: string[]; format: ImportFormat | "" }) => {
               const filePath = values.file?.[0];
               if (!filePath) {
-                await showToast(Toast.Style.Failure, "Choose a Markdown file");
+                await showToast(Toast.Style.Failure, "Choose a file to import");
                 return;
               }
-              const imported = await onImport(filePath);
-              if (imported > 0) {
-                pop();
+              const candidates = await onRead(filePath, values.format || undefined);
+              if (candidates.length > 0) {
+                push(<ImportPreviewForm candidates={candidates} onImport={onImport} />);
               }
             }}
           />
         </ActionPanel>
       }
     >
-      <Form.FilePicker id="file" title="Markdown File" allowMultipleSelection={false} />
-      <Form.Description text="Projects can be separated by blank lines. Start each project with a heading (or plain line) followed by features written as bullets using '-' or '*' characters." />
+      <Form.FilePicker id="file" title="File" allowMultipleSelection={false} />
+      <Form.Dropdown id="format" title="Format" defaultValue="">
+        <Form.Dropdown.Item value="" title="Detect Automatically" icon={Icon.Wand} />
+        {IMPORTERS.map((importer) => (
+          <Form.Dropdown.Item key={importer.format} value={importer.format} title={importer.label} />
+        ))}
+      </Form.Dropdown>
+      <Form.Description text="Markdown: projects separated by blank lines, each a heading (or plain line) followed by '-' or '*' bullets. Markdown copied from Idea Tracker keeps summaries, tags, state, dates and feature statuses." />
+      <Form.Description text="CSV: a header row with Title (or Project), optional Summary, Tags, Status and one or more Feature columns. JSON: an Idea Tracker backup or export. OPML: top-level outlines become projects and their children features. Text: unindented lines are projects, indented lines below them features." />
     </Form>
   );
 }
 
-function tagColor(tag: string): Color | string {
-  const index = Math.abs(hashCode(tag)) % TAG_COLORS.length;
-  return TAG_COLORS[index];
-}
-
-function hashCode(value: string): number {
-  let hash = 0;
-  for (const char of value) {
-    hash = (hash << 5) - hash + char.charCodeAt(0);
-    hash |= 0;
-  }
-  return hash;
-}
+function ImportPreviewForm({
+  candidates,
+  onImport,
+}: {
+  candidates: ImportCandidate[];
+  onImport: ImportProjectsHandler;
+}) {
+  const duplicateCount = candidates.filter((candidate) => candidate.duplicateOf).length;
 
-function formatRelativeTime(dateISO: string): string {
-  const formatter = new Intl.RelativeTimeFormat(undefined, { numeric: "auto" });
-  const now = Date.now();
-  const date = new Date(dateISO).getTime();
-  const diff = date - now;
-  const divisions: [number, Intl.RelativeTimeFormatUnit][] = [
-    [60, "second"],
-    [60, "minute"],
-    [24, "hour"],
-    [7, "day"],
-    [4.34524, "week"],
-    [12, "month"],
-    [Number.POSITIVE_INFINITY, "year"],
-  ];
-
-  let duration = diff / 1000;
-  for (const [amount, unit] of divisions) {
-    if (Math.abs(duration) < amount) {
-      return formatter.format(Math.round(duration), unit);
+  async function handleSubmit(values: Record<string, string | boolean>) {
+    const choices = candidates.map((candidate, index): ImportChoice => {
+      const action =
+        values[`include-${index}`] === true
+          ? ((values[`action-${index}`] as ImportAction | undefined) ?? "create")
+          : "skip";
+      return { project: candidate.project, action, targetId: candidate.duplicateOf?.id };
+    });
+    if ((await onImport(choices)) > 0) {
+      await popToRoot();
     }
-    duration /= amount;
   }
-  return formatter.format(Math.round(duration), "year");
+
+  return (
+    <Form
+      navigationTitle="Import Preview"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Import Projects" icon={Icon.Upload} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description
+        text={`Found ${candidates.length} project${candidates.length === 1 ? "" : "s"}${
+          duplicateCount > 0 ? `, ${duplicateCount} matching existing projects` : ""
+        }. Unchecked projects are skipped.`}
+      />
+      {candidates.map((candidate, index) => {
+        const featureCount = candidate.project.features.length;
+        const features = `${featureCount} feature${featureCount === 1 ? "" : "s"}`;
+        return [
+          <Form.Separator key={`separator-${index}`} />,
+          <Form.Checkbox
+            key={`include-${index}`}
+            id={`include-${index}`}
+            label={candidate.project.title}
+            title={candidate.duplicateOf ? "Duplicate" : "New"}
+            defaultValue
+          />,
+          candidate.duplicateOf ? (
+            <Form.Dropdown
+              key={`action-${index}`}
+              id={`action-${index}`}
+              title="Action"
+              info={`${features}, ${candidate.newFeatures.length} not yet in "${candidate.duplicateOf.title}". Merging appends only those.`}
+              defaultValue={defaultImportAction(candidate)}
+            >
+              <Form.Dropdown.Item
+                value="merge"
+                title={`Merge ${candidate.newFeatures.length} New Feature${candidate.newFeatures.length === 1 ? "" : "s"}`}
+                icon={Icon.Switch}
+              />
+              <Form.Dropdown.Item value="create" title="Create New Project" icon={Icon.Plus} />
+            </Form.Dropdown>
+          ) : (
+            <Form.Description key={`features-${index}`} text={features} />
+          ),
+        ];
+      })}
+    </Form>
+  );
 }
@@ -0,0 +1,119 @@
+import { Action, ActionPanel, Icon, List } from "@raycast/api";
+import { useState } from "react";
+import {
+  ExportTemplateDraft,
+  SAMPLE_EXPORT_IDEA,
+  formatExportTemplatePreview,
+  renderExportTemplate,
+  validateExportTemplate,
+} from "./export-templates";
+import { ExportTemplateForm } from "./project-forms";
+import { useExportTemplates } from "./use-export-templates";
+import { useIdeasManager } from "./use-ideas-manager";
+
+const EMPTY_EXPORT_TEMPLATE: ExportTemplateDraft = {
+  name: "",
+  body: "## {{title}}\n\n{{#features}}- [{{checkbox}}] {{content}}\n{{/features}}",
+};
+
+export default function ManageExportTemplatesCommand() {
+  const { isLoading, exportTemplates, saveExportTemplate, updateExportTemplate, deleteExportTemplate } =
+    useExportTemplates();
+  const { isLoading: isProjectsLoading, projects } = useIdeasManager();
+  const [previewProjectId, setPreviewProjectId] = useState(SAMPLE_EXPORT_IDEA.id);
+  const previewIdea = projects.find((project) => project.id === previewProjectId) ?? SAMPLE_EXPORT_IDEA;
+
+  const createAction = (
+    <Action.Push
+      title="Create Export Template"
+      icon={Icon.Plus}
+      shortcut={{ modifiers: ["cmd"], key: "n" }}
+      target={
+        <ExportTemplateForm
+          navigationTitle="Create Export Template"
+          submitLabel="Create Template"
+          initialValues={EMPTY_EXPORT_TEMPLATE}
+          previewIdea={previewIdea}
+          onSubmit={async (draft) => (await saveExportTemplate(draft)) !== null}
+        />
+      }
+    />
+  );
+
+  return (
+    <List
+      isLoading={isLoading || isProjectsLoading}
+      searchBarPlaceholder="Search export templates"
+      isShowingDetail={exportTemplates.length > 0}
+      searchBarAccessory={
+        <List.Dropdown tooltip="Preview Project" value={previewProjectId} onChange={setPreviewProjectId}>
+          <List.Dropdown.Item value={SAMPLE_EXPORT_IDEA.id} title="Sample Project" icon={Icon.Stars} />
+          <List.Dropdown.Section title="Projects">
+            {projects.map((project) => (
+              <List.Dropdown.Item key={project.id} value={project.id} title={project.title} />
+            ))}
+          </List.Dropdown.Section>
+        </List.Dropdown>
+      }
+    >
+      {exportTemplates.length === 0 ? (
+        <List.EmptyView
+          icon={Icon.Brush}
+          title="No export templates yet"
+          description="Templates shape how projects are copied and exported as Markdown."
+          actions={<ActionPanel>{createAction}</ActionPanel>}
+        />
+      ) : (
+        exportTemplates.map((template) => (
+          <List.Item
+            key={template.id}
+            title={template.name}
+            icon={Icon.Brush}
+            detail={<List.Item.Detail markdown={formatExportTemplatePreview(template.body, previewIdea)} />}
+            actions={
+              <ActionPanel>
+                <ActionPanel.Section>
+                  <Action.Push
+                    title="Edit Export Template"
+                    icon={Icon.Pencil}
+                    target={
+                      <ExportTemplateForm
+                        navigationTitle={`Edit Export Template • ${template.name}`}
+                        submitLabel="Save Template"
+                        initialValues={template}
+                        previewIdea={previewIdea}
+                        onSubmit={async (draft) => (await updateExportTemplate(template.id, draft)) !== null}
+                      />
+                    }
+                  />
+                  {!validateExportTemplate(template.body) && (
+                    <Action.CopyToClipboard
+                      title="Copy Preview Output"
+                      content={renderExportTemplate(template.body, previewIdea)}
+                      shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+                    />
+                  )}
+                  <Action.CopyToClipboard
+                    title="Copy Template Source"
+                    content={template.body}
+                    shortcut={{ modifiers: ["cmd", "opt"], key: "c" }}
+                  />
+                  {createAction}
+                </ActionPanel.Section>
+                <ActionPanel.Section>
+                  <Action
+                    title="Delete Export Template"
+                    icon={Icon.Trash}
+                    style={Action.Style.Destructive}
+                    shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                    onAction={() => deleteExportTemplate(template.id)}
+                  />
+                </ActionPanel.Section>
+              </ActionPanel>
+            }
+          />
+        ))
+      )}
+    </List>
+  );
+}
@@ -0,0 +1,189 @@
+import { Action, ActionPanel, Form, Icon, List, useNavigation } from "@raycast/api";
+import { useLocalStorage } from "@raycast/utils";
+import { useMemo } from "react";
+import { TAG_FILTER_STORAGE_KEY } from "./ideas";
+import { TAG_COLOR_CHOICES, TagUsage, collectTagUsage, resolveTagColor } from "./tags";
+import { useIdeasManager } from "./use-ideas-manager";
+
+type MergeTagsValues = {
+  sources: string[];
+  target: string;
+};
+
+export default function ManageTagsCommand() {
+  const { isLoading, projects, tagColors, mergeProjectTags, deleteTag, setTagColor } = useIdeasManager();
+  const { value: tagFilter, setValue: setTagFilter } = useLocalStorage<string>(TAG_FILTER_STORAGE_KEY);
+  const usage = useMemo(() => collectTagUsage(projects), [projects]);
+
+  // Keep List Projects' tag dropdown pointing at a tag that still exists.
+  async function handleMerge(sources: string[], target: string): Promise<boolean> {
+    const merged = await mergeProjectTags(sources, target);
+    if (merged && tagFilter && sources.includes(tagFilter)) {
+      await setTagFilter(target.trim());
+    }
+    return merged;
+  }
+
+  async function handleDelete(tag: string) {
+    const deleted = await deleteTag(tag);
+    if (deleted && tagFilter === tag) {
+      await setTagFilter("__all");
+    }
+  }
+
+  return (
+    <List isLoading={isLoading} searchBarPlaceholder="Search tags">
+      {usage.length === 0 ? (
+        <List.EmptyView icon={Icon.Tag} title="No tags yet" description="Add tags to projects to manage them here." />
+      ) : (
+        usage.map((item) => (
+          <TagListItem
+            key={item.tag}
+            item={item}
+            allTags={usage.map((entry) => entry.tag)}
+            color={resolveTagColor(item.tag, tagColors)}
+            hasCustomColor={Boolean(tagColors[item.tag])}
+            onMerge={handleMerge}
+            onDelete={handleDelete}
+            onSetColor={setTagColor}
+          />
+        ))
+      )}
+    </List>
+  );
+}
+
+function TagListItem({
+  item,
+  allTags,
+  color,
+  hasCustomColor,
+  onMerge,
+  onDelete,
+  onSetColor,
+}: {
+  item: TagUsage;
+  allTags: string[];
+  color: string;
+  hasCustomColor: boolean;
+  onMerge: (sources: string[], target: string) => Promise<boolean>;
+  onDelete: (tag: string) => Promise<void>;
+  onSetColor: (tag: string, color?: string) => Promise<void>;
+}) {
+  return (
+    <List.Item
+      title={item.tag}
+      icon={{ source: Icon.CircleFilled, tintColor: color }}
+      accessories={[{ text: `${item.count} project${item.count === 1 ? "" : "s"}` }]}
+      actions={
+        <ActionPanel>
+          <ActionPanel.Section>
+            <Action.Push
+              title="Rename Tag"
+              icon={Icon.Pencil}
+              target={<RenameTagForm tag={item.tag} onRename={(target) => onMerge([item.tag], target)} />}
+            />
+            <Action.Push
+              title="Merge Tags"
+              icon={Icon.ArrowsContract}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "j" }}
+              target={<MergeTagsForm tag={item.tag} allTags={allTags} onMerge={onMerge} />}
+            />
+            <ActionPanel.Submenu
+              title="Change Color"
+              icon={Icon.Brush}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+            >
+              {TAG_COLOR_CHOICES.map((choice) => (
+                <Action
+                  key={choice.value}
+                  title={choice.name}
+                  icon={{ source: Icon.CircleFilled, tintColor: choice.value }}
+                  onAction={() => onSetColor(item.tag, choice.value)}
+                />
+              ))}
+              {hasCustomColor && (
+                <Action
+                  title="Reset to Default"
+                  icon={Icon.ArrowCounterClockwise}
+                  onAction={() => onSetColor(item.tag)}
+                />
+              )}
+            </ActionPanel.Submenu>
+          </ActionPanel.Section>
+          <ActionPanel.Section>
+            <Action
+              title="Delete Tag"
+              icon={Icon.Trash}
+              style={Action.Style.Destructive}
+              shortcut={{ modifiers: ["ctrl"], key: "x" }}
+              onAction={() => onDelete(item.tag)}
+            />
+          </ActionPanel.Section>
+        </ActionPanel>
+      }
+    />
+  );
+}
+
+function RenameTagForm({ tag, onRename }: { tag: string; onRename: (target: string) => Promise<boolean> }) {
+  const { pop } = useNavigation();
+
+  return (
+    <Form
+      navigationTitle={`Rename Tag • ${tag}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Rename Tag"
+            onSubmit={async (values: { target: string }) => {
+              if (await onRename(values.target)) {
+                pop();
+              }
+            }}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField id="target" title="New Name" defaultValue={tag} autoFocus />
+      <Form.Description text="Renaming to an existing tag merges the two." />
+    </Form>
+  );
+}
+
+function MergeTagsForm({
+  tag,
+  allTags,
+  onMerge,
+}: {
+  tag: string;
+  allTags: string[];
+  onMerge: (sources: string[], target: string) => Promise<boolean>;
+}) {
+  const { pop } = useNavigation();
+
+  return (
+    <Form
+      navigationTitle="Merge Tags"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Merge Tags"
+            onSubmit={async (values: MergeTagsValues) => {
+              if (await onMerge(values.sources, values.target)) {
+                pop();
+              }
+            }}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.TagPicker id="sources" title="Tags to Merge" defaultValue={[tag]}>
+        {allTags.map((item) => (
+          <Form.TagPicker.Item key={item} value={item} title={item} />
+        ))}
+      </Form.TagPicker>
+      <Form.TextField id="target" title="Merge Into" defaultValue={tag} info="An existing or new tag name" />
+    </Form>
+  );
+}
@@ -0,0 +1,106 @@
+import { Action, ActionPanel, Icon, List } from "@raycast/api";
+import { AddProjectForm, TemplateForm } from "./project-forms";
+import { collectTags } from "./tags";
+import { ProjectTemplate, ProjectTemplateDraft, templateFormValues } from "./templates";
+import { useIdeasManager } from "./use-ideas-manager";
+import { useTemplates } from "./use-templates";
+
+const EMPTY_TEMPLATE: ProjectTemplateDraft = { name: "", summary: "", tags: [], features: [] };
+
+export default function ManageTemplatesCommand() {
+  const { isLoading, templates, saveTemplate, updateTemplate, deleteTemplate } = useTemplates();
+  const { isLoading: isProjectsLoading, projects, createProject } = useIdeasManager();
+
+  const createAction = (
+    <Action.Push
+      title="Create Template"
+      icon={Icon.Plus}
+      shortcut={{ modifiers: ["cmd"], key: "n" }}
+      target={
+        <TemplateForm
+          navigationTitle="Create Template"
+          submitLabel="Create Template"
+          initialValues={EMPTY_TEMPLATE}
+          onSubmit={async (draft) => (await saveTemplate(draft)) !== null}
+        />
+      }
+    />
+  );
+
+  return (
+    <List isLoading={isLoading || isProjectsLoading} searchBarPlaceholder="Search templates" isShowingDetail>
+      {templates.length === 0 ? (
+        <List.EmptyView
+          icon={Icon.Clipboard}
+          title="No templates yet"
+          description="Create one here or use Save as Template on a project."
+          actions={<ActionPanel>{createAction}</ActionPanel>}
+        />
+      ) : (
+        templates.map((template) => (
+          <List.Item
+            key={template.id}
+            title={template.name}
+            icon={Icon.Clipboard}
+            detail={<List.Item.Detail markdown={formatTemplateMarkdown(template)} />}
+            actions={
+              <ActionPanel>
+                <ActionPanel.Section>
+                  <Action.Push
+                    title="Add Project from Template"
+                    icon={Icon.PlusCircle}
+                    target={
+                      <AddProjectForm
+                        navigationTitle={`Add Project • ${template.name}`}
+                        initialValues={templateFormValues(template)}
+                        availableTags={collectTags(projects)}
+                        onSubmit={async (values) => (await createProject(values)) !== null}
+                      />
+                    }
+                  />
+                  <Action.Push
+                    title="Edit Template"
+                    icon={Icon.Pencil}
+                    shortcut={{ modifiers: ["cmd"], key: "e" }}
+                    target={
+                      <TemplateForm
+                        navigationTitle={`Edit Template • ${template.name}`}
+                        submitLabel="Save Template"
+                        initialValues={template}
+                        onSubmit={async (draft) => (await updateTemplate(template.id, draft)) !== null}
+                      />
+                    }
+                  />
+                  {createAction}
+                </ActionPanel.Section>
+                <ActionPanel.Section>
+                  <Action
+                    title="Delete Template"
+                    icon={Icon.Trash}
+                    style={Action.Style.Destructive}
+                    shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                    onAction={() => deleteTemplate(template.id)}
+                  />
+                </ActionPanel.Section>
+              </ActionPanel>
+            }
+          />
+        ))
+      )}
+    </List>
+  );
+}
+
+function formatTemplateMarkdown(template: ProjectTemplate): string {
+  const lines = [`# ${template.name}`, ""];
+  if (template.summary) {
+    lines.push(template.summary.split("\n").join("  \n"), "");
+  }
+  if (template.tags.length > 0) {
+    lines.push(`**Tags:** ${template.tags.join(", ")}`, "");
+  }
+  if (template.features.length > 0) {
+    lines.push("## Starter Features", "", ...template.features.map((feature) => `- ${feature}`));
+  }
+  return lines.join("\n");
+}
@@ -1,7 +1,8 @@
 export type ProjectFormValues = {
   title: string;
   summary?: string;
-  tags?: string;
+  tags?: string[];
+  newTags?: string;
   initialFeatures?: string;
 };
 
@@ -1,8 +1,36 @@
-import { Action, ActionPanel, Form, Icon, Toast, showToast, useNavigation } from "@raycast/api";
+import { Action, ActionPanel, Detail, Form, Icon, Toast, showInFinder, showToast, useNavigation } from "@raycast/api";
 import { useForm } from "@raycast/utils";
 import { useEffect, useMemo, useState } from "react";
-import { Idea, normalizeIdea } from "./ideas";
+import {
+  FeatureDetails,
+  Idea,
+  IdeaFeature,
+  formatFeatureLinks,
+  normalizeIdea,
+  parseFeatureLinks,
+  parseTagsInput,
+} from "./ideas";
+import {
+  EXPORT_FORMATS,
+  EXPORT_FORMAT_LABELS,
+  EXPORT_SCOPE_LABELS,
+  ExportFile,
+  ExportFormat,
+  ExportScope,
+  buildExportFiles,
+} from "./export";
+import {
+  EXPORT_TEMPLATE_HELP,
+  ExportTemplateDraft,
+  formatExportTemplatePreview,
+  validateExportTemplate,
+} from "./export-templates";
 import { AppendFeatureValues, ProjectFormValues } from "./project-form-types";
+import { PROJECT_STATE_FILTER_LABELS, ProjectStateFilter, SavedViewDraft } from "./saved-views";
+import { SORT_MODES, SORT_MODE_LABELS, isSortMode } from "./sort";
+import { ProjectTemplate, ProjectTemplateDraft, templateFormValues } from "./templates";
+import { useExportTemplates } from "./use-export-templates";
+import { useTemplates } from "./use-templates";
 
 type AppendFeatureFormProps = {
   navigationTitle?: string;
@@ -115,12 +143,26 @@ export function AppendFeatureForm({
   );
 }
 
-export function AddProjectForm({ onSubmit }: { onSubmit: (values: ProjectFormValues) => Promise<boolean> }) {
+export function AddProjectForm({
+  navigationTitle = "Add Project",
+  initialValues,
+  availableTags = [],
+  onSubmit,
+}: {
+  navigationTitle?: string;
+  initialValues?: Partial<ProjectFormValues>;
+  availableTags?: string[];
+  onSubmit: (values: ProjectFormValues) => Promise<boolean>;
+}) {
+  const { templates } = useTemplates();
+
   return (
     <ProjectForm
-      navigationTitle="Add Project"
+      navigationTitle={navigationTitle}
       submitLabel="Create Project"
-      initialValues={{ title: "", summary: "", tags: "", initialFeatures: "" }}
+      initialValues={{ title: "", summary: "", tags: [], initialFeatures: "", ...initialValues }}
+      availableTags={availableTags}
+      templates={templates}
       onSubmit={onSubmit}
     />
   );
@@ -128,9 +170,11 @@ export function AddProjectForm({ onSubmit }: { onSubmit: (values: ProjectFormVal
 
 export function EditProjectForm({
   project,
+  availableTags = [],
   onSubmit,
 }: {
   project: Idea;
+  availableTags?: string[];
   onSubmit: (values: ProjectFormValues) => Promise<boolean>;
 }) {
   return (
@@ -140,8 +184,9 @@ export function EditProjectForm({
       initialValues={{
         title: project.title,
         summary: project.summary ?? "",
-        tags: project.tags.join(", "),
+        tags: project.tags,
       }}
+      availableTags={availableTags}
       includeInitialFeatures={false}
       onSubmit={onSubmit}
     />
@@ -212,7 +257,7 @@ export function EditFeaturesForm({
         </ActionPanel>
       }
     >
-      <Form.Description text="Update each feature individually. Leave a field blank to remove it when saving." />
+      <Form.Description text="Update each feature individually. Leave a field blank to move it to the trash when saving. Use Show Features to reorder or move them." />
       {featureInputs.map((value, index) => (
         <Form.TextArea
           key={`feature-${index}`}
@@ -221,7 +266,7 @@ export function EditFeaturesForm({
           placeholder="Describe the feature."
           value={value}
           autoFocus={index === 0}
-          info="Leave empty to remove this feature."
+          info="Leave empty to move this feature to the trash."
           onChange={(text) => handleFeatureChange(index, text)}
         />
       ))}
@@ -229,20 +274,454 @@ export function EditFeaturesForm({
   );
 }
 
+type FeatureFormValues = {
+  content: string;
+  notes: string;
+  links: string;
+  attachments: string[];
+};
+
+export function EditFeatureForm({
+  feature,
+  onSubmit,
+}: {
+  feature: IdeaFeature;
+  onSubmit: (details: FeatureDetails) => Promise<boolean>;
+}) {
+  const { pop } = useNavigation();
+
+  return (
+    <Form
+      navigationTitle={`Edit Feature • ${feature.content}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Save Feature"
+            onSubmit={async (values: FeatureFormValues) => {
+              const success = await onSubmit({
+                content: values.content,
+                notes: values.notes,
+                links: parseFeatureLinks(values.links),
+                attachments: values.attachments,
+              });
+              if (success) {
+                pop();
+              }
+            }}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField id="content" title="Feature" defaultValue={feature.content} autoFocus />
+      <Form.TextArea
+        id="notes"
+        title="Notes"
+        placeholder="Design notes, open questions, acceptance criteria…"
+        enableMarkdown
+        defaultValue={feature.notes ?? ""}
+      />
+      <Form.TextArea
+        id="links"
+        title="Links"
+        placeholder="Figma mock | https://figma.com/file/…"
+        info="One per line: a URL, or a title and URL separated by |"
+        defaultValue={formatFeatureLinks(feature.links)}
+      />
+      <Form.FilePicker
+        id="attachments"
+        title="Attachments"
+        allowMultipleSelection
+        canChooseDirectories={false}
+        info="Files stay where they are; only their paths are saved."
+        defaultValue={feature.attachments ?? []}
+      />
+    </Form>
+  );
+}
+
+export function SplitProjectForm({
+  project,
+  onSubmit,
+}: {
+  project: Idea;
+  onSubmit: (featureIds: string[], title: string) => Promise<boolean>;
+}) {
+  const { pop } = useNavigation();
+
+  async function handleSubmit(values: Record<string, string | boolean>) {
+    const featureIds = project.features
+      .filter((_, index) => values[`feature-${index}`] === true)
+      .map((feature) => feature.id);
+    const success = await onSubmit(featureIds, String(values.title ?? ""));
+    if (success) {
+      pop();
+    }
+  }
+
+  return (
+    <Form
+      navigationTitle={`Split Project • ${project.title}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Split Project" icon={Icon.Switch} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField id="title" title="New Project Name" placeholder="Name for the carved-out project" autoFocus />
+      <Form.Description text={`Checked features move to the new project, which inherits ${project.title}'s tags.`} />
+      {project.features.map((feature, index) => (
+        <Form.Checkbox
+          key={feature.id}
+          id={`feature-${index}`}
+          label={feature.content}
+          title={index === 0 ? "Features" : undefined}
+          defaultValue={false}
+        />
+      ))}
+    </Form>
+  );
+}
+
+type SavedViewFormValues = {
+  name: string;
+  tags: string;
+  state: ProjectStateFilter;
+  searchText: string;
+  sortMode: string;
+};
+
+export function SavedViewForm({
+  navigationTitle,
+  submitLabel,
+  initialValues,
+  onSubmit,
+}: {
+  navigationTitle: string;
+  submitLabel: string;
+  initialValues: SavedViewDraft;
+  onSubmit: (draft: SavedViewDraft) => Promise<boolean>;
+}) {
+  const { pop } = useNavigation();
+
+  return (
+    <Form
+      navigationTitle={navigationTitle}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title={submitLabel}
+            onSubmit={async (values: SavedViewFormValues) => {
+              const success = await onSubmit({
+                name: values.name,
+                tags: parseTagsInput(values.tags),
+                state: values.state,
+                searchText: values.searchText,
+                sortMode: isSortMode(values.sortMode) ? values.sortMode : undefined,
+              });
+              if (success) {
+                pop();
+              }
+            }}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="name"
+        title="View Name"
+        placeholder="Growth backlog"
+        defaultValue={initialValues.name}
+        autoFocus
+      />
+      <Form.TextField
+        id="tags"
+        title="Tags"
+        placeholder="growth, mobile"
+        info="Projects must have every tag listed"
+        defaultValue={initialValues.tags.join(", ")}
+      />
+      <Form.Dropdown id="state" title="Projects" defaultValue={initialValues.state}>
+        {(Object.keys(PROJECT_STATE_FILTER_LABELS) as ProjectStateFilter[]).map((state) => (
+          <Form.Dropdown.Item key={state} value={state} title={PROJECT_STATE_FILTER_LABELS[state]} />
+        ))}
+      </Form.Dropdown>
+      <Form.TextField
+        id="searchText"
+        title="Search Text"
+        placeholder="onboarding status:planned"
+        info="Filled into the search bar when the view is selected"
+        defaultValue={initialValues.searchText}
+      />
+      <Form.Dropdown id="sortMode" title="Sort By" defaultValue={initialValues.sortMode ?? ""}>
+        <Form.Dropdown.Item value="" title="Keep Current Sort" />
+        {SORT_MODES.map((mode) => (
+          <Form.Dropdown.Item key={mode} value={mode} title={SORT_MODE_LABELS[mode]} />
+        ))}
+      </Form.Dropdown>
+    </Form>
+  );
+}
+
+type ExportFormValues = {
+  scope: ExportScope;
+  format: ExportFormat;
+  templateId?: string;
+  folder?: string[];
+};
+
+export function ExportProjectsForm({
+  scopes,
+  defaultScope,
+  onExport,
+}: {
+  scopes: Partial<Record<ExportScope, Idea[]>>;
+  defaultScope: ExportScope;
+  onExport: (folderPath: string, files: ExportFile[]) => Promise<string | null>;
+}) {
+  const { pop } = useNavigation();
+  const { exportTemplates } = useExportTemplates();
+  const [scope, setScope] = useState<ExportScope>(defaultScope);
+  const [format, setFormat] = useState<ExportFormat>("markdown");
+  const availableScopes = (Object.keys(EXPORT_SCOPE_LABELS) as ExportScope[]).filter((item) => scopes[item]);
+  const count = scopes[scope]?.length ?? 0;
+
+  return (
+    <Form
+      navigationTitle="Export Projects"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Export Projects"
+            icon={Icon.SaveDocument}
+            onSubmit={async (values: ExportFormValues) => {
+              const folder = values.folder?.[0];
+              if (!folder) {
+                await showToast(Toast.Style.Failure, "Choose a destination folder");
+                return;
+              }
+              const template = exportTemplates.find((item) => item.id === values.templateId);
+              let files: ExportFile[];
+              try {
+                files = buildExportFiles(scopes[values.scope] ?? [], values.format, undefined, template?.body);
+              } catch (error) {
+                await showToast(Toast.Style.Failure, "Failed to render export", String(error));
+                return;
+              }
+              const target = await onExport(folder, files);
+              if (target) {
+                await showInFinder(target);
+                pop();
+              }
+            }}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.Dropdown id="scope" title="Projects" value={scope} onChange={(value) => setScope(value as ExportScope)}>
+        {availableScopes.map((item) => (
+          <Form.Dropdown.Item key={item} value={item} title={EXPORT_SCOPE_LABELS[item]} />
+        ))}
+      </Form.Dropdown>
+      <Form.Dropdown id="format" title="Format" value={format} onChange={(value) => setFormat(value as ExportFormat)}>
+        {EXPORT_FORMATS.map((item) => (
+          <Form.Dropdown.Item key={item} value={item} title={EXPORT_FORMAT_LABELS[item]} />
+        ))}
+      </Form.Dropdown>
+      {format.startsWith("markdown") && (
+        <Form.Dropdown id="templateId" title="Template" defaultValue="">
+          <Form.Dropdown.Item value="" title="Standard Layout" icon={Icon.Document} />
+          {exportTemplates.map((template) => (
+            <Form.Dropdown.Item key={template.id} value={template.id} title={template.name} icon={Icon.Brush} />
+          ))}
+        </Form.Dropdown>
+      )}
+      <Form.FilePicker
+        id="folder"
+        title="Destination Folder"
+        allowMultipleSelection={false}
+        canChooseDirectories
+        canChooseFiles={false}
+      />
+      <Form.Description text={`Exports ${count} project${count === 1 ? "" : "s"}.`} />
+    </Form>
+  );
+}
+
+export function ExportTemplateForm({
+  navigationTitle,
+  submitLabel,
+  initialValues,
+  previewIdea,
+  onSubmit,
+}: {
+  navigationTitle: string;
+  submitLabel: string;
+  initialValues: ExportTemplateDraft;
+  previewIdea: Idea;
+  onSubmit: (draft: ExportTemplateDraft) => Promise<boolean>;
+}) {
+  const { pop } = useNavigation();
+  // The body is controlled so the preview action and syntax check always see the latest edit.
+  const [body, setBody] = useState(initialValues.body);
+  const error = validateExportTemplate(body);
+
+  return (
+    <Form
+      navigationTitle={navigationTitle}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title={submitLabel}
+            onSubmit={async (values: { name: string }) => {
+              if (await onSubmit({ name: values.name, body })) {
+                pop();
+              }
+            }}
+          />
+          <Action.Push
+            title="Preview Template"
+            icon={Icon.Eye}
+            shortcut={{ modifiers: ["cmd"], key: "p" }}
+            target={
+              <Detail
+                navigationTitle={`Preview • ${previewIdea.title}`}
+                markdown={formatExportTemplatePreview(body, previewIdea)}
+              />
+            }
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="name"
+        title="Template Name"
+        placeholder="Weekly Update"
+        defaultValue={initialValues.name}
+        autoFocus
+      />
+      <Form.TextArea
+        id="body"
+        title="Template"
+        placeholder="## {{title}}"
+        value={body}
+        onChange={setBody}
+        error={error}
+      />
+      <Form.Description title="Placeholders" text={EXPORT_TEMPLATE_HELP} />
+    </Form>
+  );
+}
+
+type TemplateFormValues = {
+  name: string;
+  summary: string;
+  tags: string;
+  features: string;
+};
+
+export function TemplateForm({
+  navigationTitle,
+  submitLabel,
+  initialValues,
+  onSubmit,
+}: {
+  navigationTitle: string;
+  submitLabel: string;
+  initialValues: ProjectTemplateDraft;
+  onSubmit: (draft: ProjectTemplateDraft) => Promise<boolean>;
+}) {
+  const { pop } = useNavigation();
+
+  return (
+    <Form
+      navigationTitle={navigationTitle}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title={submitLabel}
+            onSubmit={async (values: TemplateFormValues) => {
+              const success = await onSubmit({
+                name: values.name,
+                summary: values.summary,
+                tags: parseTagsInput(values.tags),
+                features: values.features.split("\n"),
+              });
+              if (success) {
+                pop();
+              }
+            }}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="name"
+        title="Template Name"
+        placeholder="SaaS Idea"
+        defaultValue={initialValues.name}
+        autoFocus
+      />
+      <Form.TextArea
+        id="summary"
+        title="Context Skeleton"
+        placeholder="Prompts to fill in for each new project"
+        defaultValue={initialValues.summary}
+      />
+      <Form.TextField
+        id="tags"
+        title="Default Tags"
+        placeholder="saas, b2b"
+        info="Comma-separated tags"
+        defaultValue={initialValues.tags.join(", ")}
+      />
+      <Form.TextArea
+        id="features"
+        title="Starter Features"
+        placeholder="Each line becomes a feature."
+        defaultValue={initialValues.features.join("\n")}
+      />
+    </Form>
+  );
+}
+
 function ProjectForm({
   navigationTitle,
   submitLabel,
   initialValues,
+  availableTags,
+  templates = [],
   onSubmit,
   includeInitialFeatures = true,
 }: {
   navigationTitle: string;
   submitLabel: string;
   initialValues: Partial<ProjectFormValues>;
+  availableTags: string[];
+  templates?: ProjectTemplate[];
   onSubmit: (values: ProjectFormValues) => Promise<boolean>;
   includeInitialFeatures?: boolean;
 }) {
   const { pop } = useNavigation();
+  // Fields a template can prefill are controlled; picking "Blank Project" goes back to the initial values.
+  const [summary, setSummary] = useState(initialValues.summary ?? "");
+  const [tags, setTags] = useState<string[]>(initialValues.tags ?? []);
+  const [initialFeatures, setInitialFeatures] = useState(initialValues.initialFeatures ?? "");
+  // Prefilled and template tags may not be in use by any project yet, so they need picker items of their own.
+  const tagChoices = useMemo(
+    () =>
+      Array.from(
+        new Set([...availableTags, ...(initialValues.tags ?? []), ...templates.flatMap((template) => template.tags)]),
+      ),
+    [availableTags, initialValues.tags, templates],
+  );
+
+  function handleTemplateChange(templateId: string) {
+    const template = templates.find((item) => item.id === templateId);
+    const values = template ? { ...initialValues, ...templateFormValues(template) } : initialValues;
+    setSummary(values.summary ?? "");
+    setTags(values.tags ?? []);
+    setInitialFeatures(values.initialFeatures ?? "");
+  }
 
   return (
     <Form
@@ -261,26 +740,40 @@ function ProjectForm({
         </ActionPanel>
       }
     >
+      {templates.length > 0 && (
+        <Form.Dropdown id="template" title="Template" defaultValue="" onChange={handleTemplateChange}>
+          <Form.Dropdown.Item value="" title="Blank Project" icon={Icon.Document} />
+          {templates.map((template) => (
+            <Form.Dropdown.Item key={template.id} value={template.id} title={template.name} icon={Icon.Clipboard} />
+          ))}
+        </Form.Dropdown>
+      )}
       <Form.TextField id="title" title="Project Name" defaultValue={initialValues.title} autoFocus />
       <Form.TextArea
         id="summary"
         title="Context"
         placeholder="Problem statement, value proposition, or notes"
-        defaultValue={initialValues.summary}
+        value={summary}
+        onChange={setSummary}
       />
+      <Form.TagPicker id="tags" title="Tags" placeholder="Pick existing tags" value={tags} onChange={setTags}>
+        {tagChoices.map((tag) => (
+          <Form.TagPicker.Item key={tag} value={tag} title={tag} />
+        ))}
+      </Form.TagPicker>
       <Form.TextField
-        id="tags"
-        title="Tags"
+        id="newTags"
+        title="New Tags"
         placeholder="growth, productivity"
-        info="Comma-separated tags"
-        defaultValue={initialValues.tags}
+        info="Comma-separated tags to create. Duplicates of picked tags are ignored regardless of case."
       />
       {includeInitialFeatures && (
         <Form.TextArea
           id="initialFeatures"
           title="Initial Features"
           placeholder="Seed features here. Each new line becomes a separate bullet."
-          defaultValue={initialValues.initialFeatures}
+          value={initialFeatures}
+          onChange={setInitialFeatures}
         />
       )}
     </Form>
@@ -0,0 +1,149 @@
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  Detail,
+  Form,
+  Icon,
+  Toast,
+  confirmAlert,
+  popToRoot,
+  showToast,
+  useNavigation,
+} from "@raycast/api";
+import { useLocalStorage } from "@raycast/utils";
+import { useMemo } from "react";
+import { BackupDiff, IdeasBackup, RestoreMode, diffBackup } from "./backup";
+import { Idea, TAG_FILTER_STORAGE_KEY, formatAbsoluteDate } from "./ideas";
+import { useIdeasManager } from "./use-ideas-manager";
+
+type RestoreFormValues = {
+  file?: string[];
+  mode: RestoreMode;
+};
+
+export default function RestoreIdeasCommand() {
+  const { isLoading, readBackup, migrationSnapshot, rollbackMigration } = useIdeasManager();
+  const { push } = useNavigation();
+
+  if (isLoading) {
+    return <Detail isLoading />;
+  }
+
+  return (
+    <Form
+      navigationTitle="Restore Ideas"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Preview Restore"
+            icon={Icon.Eye}
+            onSubmit={async (values: RestoreFormValues) => {
+              const filePath = values.file?.[0];
+              if (!filePath) {
+                await showToast(Toast.Style.Failure, "Choose a backup file");
+                return;
+              }
+              const backup = await readBackup(filePath);
+              if (backup) {
+                push(<RestorePreview backup={backup} mode={values.mode} />);
+              }
+            }}
+          />
+          {migrationSnapshot && (
+            <Action
+              title="Roll Back Last Storage Upgrade"
+              icon={Icon.ArrowCounterClockwise}
+              style={Action.Style.Destructive}
+              onAction={async () => {
+                if (await rollbackMigration()) {
+                  await popToRoot();
+                }
+              }}
+            />
+          )}
+        </ActionPanel>
+      }
+    >
+      <Form.FilePicker id="file" title="Backup File" allowMultipleSelection={false} />
+      <Form.Dropdown id="mode" title="Restore Mode" defaultValue="merge">
+        <Form.Dropdown.Item value="merge" title="Merge by Project ID" icon={Icon.Layers} />
+        <Form.Dropdown.Item value="replace" title="Replace All Projects" icon={Icon.ArrowClockwise} />
+      </Form.Dropdown>
+      <Form.Description text="Merge keeps projects missing from the backup and overwrites matching IDs. Replace makes storage identical to the backup." />
+    </Form>
+  );
+}
+
+function RestorePreview({ backup, mode }: { backup: IdeasBackup; mode: RestoreMode }) {
+  const { isLoading, rawProjects, restoreFromBackup } = useIdeasManager();
+  const { setValue: setTagFilter } = useLocalStorage<string>(TAG_FILTER_STORAGE_KEY);
+  const diff = useMemo(() => diffBackup(rawProjects, backup.ideas, mode), [rawProjects, backup, mode]);
+
+  async function handleRestore() {
+    if (diff.removed.length > 0) {
+      const confirmed = await confirmAlert({
+        title: "Replace all projects?",
+        message: `${diff.removed.length} project${diff.removed.length === 1 ? "" : "s"} not in the backup will be removed.`,
+        primaryAction: { title: "Replace", style: Alert.ActionStyle.Destructive },
+      });
+      if (!confirmed) {
+        return;
+      }
+    }
+
+    const restored = await restoreFromBackup(backup, mode);
+    if (!restored) {
+      return;
+    }
+    if (backup.tagFilter) {
+      await setTagFilter(backup.tagFilter);
+    }
+    await popToRoot();
+  }
+
+  return (
+    <Detail
+      isLoading={isLoading}
+      navigationTitle="Restore Preview"
+      markdown={formatDiffMarkdown(backup, mode, diff)}
+      actions={
+        <ActionPanel>
+          <Action
+            title={mode === "replace" ? "Replace Projects" : "Merge Projects"}
+            icon={Icon.Download}
+            onAction={handleRestore}
+          />
+        </ActionPanel>
+      }
+    />
+  );
+}
+
+function formatDiffMarkdown(backup: IdeasBackup, mode: RestoreMode, diff: BackupDiff): string {
+  const lines = [
+    "# Restore Preview",
+    "",
+    `Backup from ${formatAbsoluteDate(backup.exportedAt)} with ${backup.ideas.length} project${backup.ideas.length === 1 ? "" : "s"}.`,
+    "",
+    `**Mode:** ${mode === "replace" ? "Replace all projects" : "Merge by project ID"}`,
+    "",
+  ];
+
+  const sections: [string, Idea[]][] = [
+    ["New", diff.added],
+    ["Changed", diff.changed],
+    ["Removed", diff.removed],
+  ];
+  for (const [title, ideas] of sections) {
+    lines.push(`## ${title} (${ideas.length})`, "");
+    if (ideas.length === 0) {
+      lines.push("_None_", "");
+      continue;
+    }
+    lines.push(...ideas.map((idea) => `- ${idea.title}`), "");
+  }
+
+  lines.push(`_${diff.unchangedCount} project${diff.unchangedCount === 1 ? "" : "s"} unchanged._`);
+  return lines.join("\n");
+}
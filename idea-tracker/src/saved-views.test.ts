@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { makeIdea } from "../test/fixtures";
+import {
+  createSavedView,
+  matchesSavedView,
+  removeSavedView,
+  savedViewDropdownValue,
+  savedViewIdFromDropdownValue,
+  updateSavedView,
+} from "./saved-views";
+
+describe("saved views", () => {
+  it("normalizes drafts and round-trips dropdown values", () => {
+    const view = createSavedView(
+      { name: "  Growth  ", tags: [" growth ", "growth", ""], state: "active", searchText: " onboarding " },
+      () => "view-1",
+    );
+
+    expect(view).toEqual({ id: "view-1", name: "Growth", tags: ["growth"], state: "active", searchText: "onboarding" });
+    expect(savedViewIdFromDropdownValue(savedViewDropdownValue(view.id))).toBe("view-1");
+    expect(savedViewIdFromDropdownValue("growth")).toBeNull();
+  });
+
+  it("renames and deletes views by ID", () => {
+    const views = [createSavedView({ name: "A", tags: [], state: "all", searchText: "" }, () => "a")];
+    const renamed = updateSavedView(views, "a", { name: "B", tags: ["x"], state: "pinned", searchText: "" });
+
+    expect(renamed).toEqual([{ id: "a", name: "B", tags: ["x"], state: "pinned", searchText: "" }]);
+    expect(removeSavedView(renamed, "a")).toEqual([]);
+  });
+
+  it("matches every tag and the project state", () => {
+    const view = createSavedView({ name: "Mobile", tags: ["Mobile", "growth"], state: "pinned", searchText: "" });
+
+    expect(matchesSavedView(makeIdea({ tags: ["mobile", "growth"], isPinned: true }), view)).toBe(true);
+    expect(matchesSavedView(makeIdea({ tags: ["mobile"], isPinned: true }), view)).toBe(false);
+    expect(matchesSavedView(makeIdea({ tags: ["mobile", "growth"] }), view)).toBe(false);
+  });
+});
@@ -0,0 +1,78 @@
+import { randomUUID } from "node:crypto";
+import { Idea } from "./ideas";
+import { SortMode } from "./sort";
+import { tagMatches } from "./tags";
+
+export const SAVED_VIEWS_STORAGE_KEY = "raycast-idea-tracker/saved-views";
+
+const SAVED_VIEW_VALUE_PREFIX = "view:";
+
+export type ProjectStateFilter = "all" | "active" | "pinned" | "archived";
+
+export const PROJECT_STATE_FILTER_LABELS: Record<ProjectStateFilter, string> = {
+  all: "All Projects",
+  active: "Active Only",
+  pinned: "Pinned Only",
+  archived: "Archived Only",
+};
+
+export type SavedView = {
+  id: string;
+  name: string;
+  tags: string[];
+  state: ProjectStateFilter;
+  searchText: string;
+  sortMode?: SortMode;
+};
+
+export type SavedViewDraft = Omit<SavedView, "id">;
+
+/**
+ * Saved views share the tag dropdown with plain tags, so their values carry a prefix no tag can collide with.
+ */
+export function savedViewDropdownValue(viewId: string): string {
+  return `${SAVED_VIEW_VALUE_PREFIX}${viewId}`;
+}
+
+export function savedViewIdFromDropdownValue(value: string): string | null {
+  return value.startsWith(SAVED_VIEW_VALUE_PREFIX) ? value.slice(SAVED_VIEW_VALUE_PREFIX.length) : null;
+}
+
+export function createSavedView(draft: SavedViewDraft, idFactory: () => string = randomUUID): SavedView {
+  return { ...normalizeDraft(draft), id: idFactory() };
+}
+
+export function updateSavedView(views: SavedView[], viewId: string, draft: SavedViewDraft): SavedView[] {
+  return views.map((view) => (view.id === viewId ? { ...normalizeDraft(draft), id: view.id } : view));
+}
+
+export function removeSavedView(views: SavedView[], viewId: string): SavedView[] {
+  return views.filter((view) => view.id !== viewId);
+}
+
+export function matchesSavedView(idea: Idea, view: SavedView): boolean {
+  if (!view.tags.every((filter) => idea.tags.some((tag) => tagMatches(tag, filter)))) {
+    return false;
+  }
+
+  switch (view.state) {
+    case "active":
+      return !idea.isArchived;
+    case "pinned":
+      return idea.isPinned && !idea.isArchived;
+    case "archived":
+      return idea.isArchived;
+    default:
+      return true;
+  }
+}
+
+function normalizeDraft(draft: SavedViewDraft): SavedViewDraft {
+  return {
+    name: draft.name.trim(),
+    tags: Array.from(new Set(draft.tags.map((tag) => tag.trim()).filter(Boolean))),
+    state: draft.state,
+    searchText: draft.searchText.trim(),
+    sortMode: draft.sortMode,
+  };
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { makeIdea } from "../test/fixtures";
+import { Idea } from "./ideas";
+import { matchesSearchFilters, parseSearchQuery } from "./search-query";
+
+const now = new Date("2025-06-01T00:00:00.000Z");
+
+function matches(query: string, idea: Idea): boolean {
+  return matchesSearchFilters(idea, parseSearchQuery(query, now).filters);
+}
+
+describe("parseSearchQuery", () => {
+  it("separates filters from free text", () => {
+    const query = parseSearchQuery('onboarding tag:growth -tag:"side project" is:pinned "exact phrase"', now);
+
+    expect(query.text).toBe("onboarding exact phrase");
+    expect(query.filters).toEqual([
+      { kind: "tag", tag: "growth", negate: false },
+      { kind: "tag", tag: "side project", negate: true },
+      { kind: "is", state: "pinned", negate: false },
+    ]);
+  });
+
+  it("keeps unknown or invalid filters as text", () => {
+    const query = parseSearchQuery("https://example.com is:someday updated:<soon", now);
+
+    expect(query.filters).toEqual([]);
+    expect(query.text).toBe("https://example.com is:someday updated:<soon");
+  });
+
+  it("resolves relative ages against now", () => {
+    const [filter] = parseSearchQuery("updated:<30d", now).filters;
+
+    expect(filter).toEqual({
+      kind: "date",
+      field: "updatedAt",
+      comparison: "after",
+      date: new Date("2025-05-02T00:00:00.000Z"),
+      negate: false,
+    });
+  });
+});
+
+describe("matchesSearchFilters", () => {
+  it("matches descendants of a hierarchical tag", () => {
+    const idea = makeIdea({ tags: ["work/client-a"] });
+
+    expect(matches("tag:work", idea)).toBe(true);
+    expect(matches("tag:work/client-b", idea)).toBe(false);
+    expect(matches("-tag:work", idea)).toBe(false);
+  });
+
+  it("requires every tag and honours negation", () => {
+    const idea = makeIdea({ tags: ["Growth", "mobile"] });
+
+    expect(matches("tag:growth tag:mobile", idea)).toBe(true);
+    expect(matches("tag:growth -tag:mobile", idea)).toBe(false);
+  });
+
+  it("filters by project state and non-empty fields", () => {
+    const archived = makeIdea({ isArchived: true, features: [] });
+    const pinned = makeIdea({ isPinned: true, summary: "Why" });
+
+    expect(matches("is:archived", archived)).toBe(true);
+    expect(matches("is:active", archived)).toBe(false);
+    expect(matches("is:pinned has:summary", pinned)).toBe(true);
+    expect(matches("has:features", archived)).toBe(false);
+    expect(matches("-has:features", archived)).toBe(true);
+  });
+
+  it("filters by feature status", () => {
+    const idea = makeIdea({
+      features: [
+        {
+          id: "feature-1",
+          content: "Ship",
+          createdAt: "2025-01-15T00:00:00.000Z",
+          status: "done",
+          statusChangedAt: "2025-01-15T00:00:00.000Z",
+        },
+      ],
+    });
+
+    expect(matches("status:done", idea)).toBe(true);
+    expect(matches("status:planned", idea)).toBe(false);
+  });
+
+  it("compares created and updated dates", () => {
+    const idea = makeIdea({ createdAt: "2025-01-15T00:00:00.000Z", updatedAt: "2025-05-20T00:00:00.000Z" });
+
+    expect(matches("updated:<30d", idea)).toBe(true);
+    expect(matches("updated:>30d", idea)).toBe(false);
+    expect(matches("created:>2025-01-01", idea)).toBe(true);
+    expect(matches("created:<2025-01-01", idea)).toBe(false);
+    expect(matches("before:2025-06-01 after:2025-05-01", idea)).toBe(true);
+  });
+});
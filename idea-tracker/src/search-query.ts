@@ -0,0 +1,151 @@
+import { FEATURE_STATUSES, FeatureStatus, Idea } from "./ideas";
+import { tagMatches } from "./tags";
+
+/*
+ * Search bar query language. Filters are `key:value` tokens, optionally negated with a leading `-`; everything else is
+ * free text for `scoreIdea`.
+ *
+ *   tag:growth -tag:"side project"   tags (case-insensitive, all must match; tag:work also matches work/...)
+ *   is:pinned is:archived is:active  project state
+ *   has:features has:summary         non-empty fields
+ *   status:in-progress               at least one feature with the status
+ *   updated:<30d created:>2025-01-01 relative ages (d, w, m, y) or ISO dates
+ *   before:2025-06-01 after:2025-01-01  shorthand for updated:<date / updated:>date
+ */
+
+export type ProjectState = "pinned" | "archived" | "active";
+
+export type ProjectField = "features" | "summary" | "tags";
+
+export type SearchFilter = { negate: boolean } & (
+  | { kind: "tag"; tag: string }
+  | { kind: "is"; state: ProjectState }
+  | { kind: "has"; field: ProjectField }
+  | { kind: "status"; status: FeatureStatus }
+  | { kind: "date"; field: "createdAt" | "updatedAt"; comparison: "before" | "after"; date: Date }
+);
+
+export type SearchQuery = {
+  text: string;
+  filters: SearchFilter[];
+};
+
+const PROJECT_STATES: ProjectState[] = ["pinned", "archived", "active"];
+
+const PROJECT_FIELDS: ProjectField[] = ["features", "summary", "tags"];
+
+const TOKEN_PATTERN = /(-?)([a-z]+):(?:"([^"]*)"|(\S+))|"([^"]*)"|(\S+)/gi;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DURATION_UNITS: Record<string, number> = { d: DAY_MS, w: 7 * DAY_MS, m: 30 * DAY_MS, y: 365 * DAY_MS };
+
+export function parseSearchQuery(input: string, now: Date = new Date()): SearchQuery {
+  const filters: SearchFilter[] = [];
+  const text: string[] = [];
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [token, minus, key, quotedValue, plainValue, quotedText] = match;
+    if (key === undefined) {
+      text.push(quotedText ?? token);
+      continue;
+    }
+
+    const filter = parseFilter(key.toLowerCase(), (quotedValue ?? plainValue).trim(), minus === "-", now);
+    if (filter) {
+      filters.push(filter);
+    } else {
+      text.push(token);
+    }
+  }
+
+  return { text: text.join(" "), filters };
+}
+
+export function matchesSearchFilters(idea: Idea, filters: SearchFilter[]): boolean {
+  return filters.every((filter) => matchesFilter(idea, filter) !== filter.negate);
+}
+
+function parseFilter(key: string, value: string, negate: boolean, now: Date): SearchFilter | null {
+  const lowerValue = value.toLowerCase();
+  if (!value) {
+    return null;
+  }
+
+  switch (key) {
+    case "tag":
+      return { kind: "tag", tag: lowerValue, negate };
+    case "is":
+      return PROJECT_STATES.includes(lowerValue as ProjectState)
+        ? { kind: "is", state: lowerValue as ProjectState, negate }
+        : null;
+    case "has":
+      return PROJECT_FIELDS.includes(lowerValue as ProjectField)
+        ? { kind: "has", field: lowerValue as ProjectField, negate }
+        : null;
+    case "status":
+      return FEATURE_STATUSES.includes(lowerValue as FeatureStatus)
+        ? { kind: "status", status: lowerValue as FeatureStatus, negate }
+        : null;
+    case "created":
+    case "updated":
+      return parseDateFilter(key === "created" ? "createdAt" : "updatedAt", lowerValue, negate, now);
+    case "before":
+      return parseDateFilter("updatedAt", `<${lowerValue}`, negate, now);
+    case "after":
+      return parseDateFilter("updatedAt", `>${lowerValue}`, negate, now);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Durations describe age, so `<30d` means "newer than 30 days" while `<2025-01-01` means "before that date".
+ */
+function parseDateFilter(
+  field: "createdAt" | "updatedAt",
+  value: string,
+  negate: boolean,
+  now: Date,
+): SearchFilter | null {
+  const match = value.match(/^([<>])(.+)$/);
+  if (!match) {
+    return null;
+  }
+  const [, operator, operand] = match;
+
+  const duration = operand.match(/^(\d+)([dwmy])$/);
+  if (duration) {
+    const date = new Date(now.getTime() - Number(duration[1]) * DURATION_UNITS[duration[2]]);
+    return { kind: "date", field, comparison: operator === "<" ? "after" : "before", date, negate };
+  }
+
+  const date = new Date(operand);
+  if (!/^\d{4}-\d{2}-\d{2}/.test(operand) || Number.isNaN(date.getTime())) {
+    return null;
+  }
+  return { kind: "date", field, comparison: operator === "<" ? "before" : "after", date, negate };
+}
+
+function matchesFilter(idea: Idea, filter: SearchFilter): boolean {
+  switch (filter.kind) {
+    case "tag":
+      return idea.tags.some((tag) => tagMatches(tag, filter.tag));
+    case "is":
+      if (filter.state === "pinned") {
+        return idea.isPinned && !idea.isArchived;
+      }
+      return filter.state === "archived" ? idea.isArchived : !idea.isArchived;
+    case "has":
+      if (filter.field === "summary") {
+        return Boolean(idea.summary?.trim());
+      }
+      return idea[filter.field].length > 0;
+    case "status":
+      return idea.features.some((feature) => feature.status === filter.status);
+    case "date": {
+      const time = new Date(idea[filter.field]).getTime();
+      return filter.comparison === "before" ? time < filter.date.getTime() : time > filter.date.getTime();
+    }
+  }
+}
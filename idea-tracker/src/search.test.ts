@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { Idea } from "./ideas";
+import { highlightIdea, highlightTerms, scoreIdea, tokenizeSearchText } from "./search";
+
+const idea: Idea = {
+  id: "idea-1",
+  title: "Garden Planner",
+  summary: "Plan raised beds",
+  tags: ["home"],
+  isPinned: false,
+  isArchived: false,
+  features: [
+    {
+      id: "feature-1",
+      content: "Watering reminders",
+      createdAt: "2025-01-01T00:00:00.000Z",
+      status: "idea",
+      statusChangedAt: "2025-01-01T00:00:00.000Z",
+    },
+    {
+      id: "feature-2",
+      content: "Frost alerts via push",
+      createdAt: "2025-01-01T00:00:00.000Z",
+      status: "idea",
+      statusChangedAt: "2025-01-01T00:00:00.000Z",
+    },
+  ],
+  createdAt: "2025-01-01T00:00:00.000Z",
+  updatedAt: "2025-01-01T00:00:00.000Z",
+};
+
+describe("scoreIdea", () => {
+  it("finds text that only lives in a feature body and reports the feature", () => {
+    const match = scoreIdea(idea, tokenizeSearchText("frost push"));
+    expect(match?.matchedFeature?.id).toBe("feature-2");
+    expect(match?.score).toBeGreaterThan(0);
+  });
+
+  it("requires every term to match somewhere", () => {
+    expect(scoreIdea(idea, tokenizeSearchText("garden frost"))).not.toBeNull();
+    expect(scoreIdea(idea, tokenizeSearchText("garden kitchen"))).toBeNull();
+  });
+
+  it("ranks title matches above feature matches", () => {
+    const titleMatch = scoreIdea(idea, ["garden"])?.score ?? 0;
+    const featureMatch = scoreIdea(idea, ["watering"])?.score ?? 0;
+    expect(titleMatch).toBeGreaterThan(featureMatch);
+  });
+
+  it("matches everything for an empty query", () => {
+    expect(scoreIdea(idea, tokenizeSearchText("   "))).toEqual({ score: 0 });
+  });
+});
+
+describe("highlightTerms", () => {
+  it("bolds every case-insensitive occurrence", () => {
+    expect(highlightTerms("Frost alerts, frost maps", ["frost"])).toBe("**Frost** alerts, **frost** maps");
+  });
+
+  it("escapes regular expression characters", () => {
+    expect(highlightTerms("Costs (USD)", ["(usd)"])).toBe("Costs **(USD)**");
+  });
+
+  it("prefers the longest overlapping term", () => {
+    expect(highlightTerms("apple app", ["app", "apple"])).toBe("**apple** **app**");
+  });
+
+  it("leaves links, URLs, code and bold text intact", () => {
+    const text = "foo [docs](https://foo.dev) see https://foo.dev/x `foo` **foo** and foo";
+
+    expect(highlightTerms(text, ["foo"])).toBe(
+      "**foo** [docs](https://foo.dev) see https://foo.dev/x `foo` **foo** and **foo**",
+    );
+  });
+
+  it("highlights the title, summary and features of a copy", () => {
+    const highlighted = highlightIdea(idea, ["plan"]);
+    expect(highlighted.title).toBe("Garden **Plan**ner");
+    expect(highlighted.summary).toBe("**Plan** raised beds");
+    expect(idea.title).toBe("Garden Planner");
+  });
+});
@@ -0,0 +1,160 @@
+import { Idea, IdeaFeature } from "./ideas";
+
+/**
+ * Scores how well `query` matches `text`: exact > prefix > substring > in-order characters. Zero means no match.
+ */
+export function fuzzyScore(text: string, query: string): number {
+  const haystack = text.trim().toLowerCase();
+  const needle = query.trim().toLowerCase();
+  if (!haystack || !needle) {
+    return 0;
+  }
+  if (haystack === needle) {
+    return 100;
+  }
+  if (haystack.startsWith(needle)) {
+    return 80;
+  }
+  if (haystack.includes(needle)) {
+    return 60;
+  }
+
+  let position = 0;
+  let gaps = 0;
+  for (const char of needle) {
+    const found = haystack.indexOf(char, position);
+    if (found === -1) {
+      return 0;
+    }
+    gaps += found - position;
+    position = found + 1;
+  }
+  return Math.max(1, 40 - gaps);
+}
+
+/**
+ * Picks the active project whose title (or, failing that, a tag) best matches a free-form query.
+ */
+export function findProjectByQuery(projects: Idea[], query?: string): Idea | null {
+  if (!query?.trim()) {
+    return null;
+  }
+
+  let best: { project: Idea; score: number } | null = null;
+  for (const project of projects) {
+    if (project.isArchived) {
+      continue;
+    }
+    const titleScore = fuzzyScore(project.title, query);
+    const tagScore = Math.max(0, ...project.tags.map((tag) => fuzzyScore(tag, query)));
+    // Tags only break ties below a real title match so "ui" prefers a project called "UI Kit" over a tagged one.
+    const score = Math.max(titleScore, tagScore * 0.9);
+    if (score > 0 && (!best || score > best.score)) {
+      best = { project, score };
+    }
+  }
+  return best?.project ?? null;
+}
+
+export type SearchMatch = {
+  score: number;
+  matchedFeature?: IdeaFeature;
+};
+
+const FIELD_WEIGHTS = { title: 10, tag: 6, summary: 4, feature: 3 } as const;
+
+export function tokenizeSearchText(searchText: string): string[] {
+  return searchText.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Scores a project against every search term across title, tags, summary and feature bodies. Each term must match
+ * somewhere; the feature that matched the most terms is reported so the list can show it.
+ */
+export function scoreIdea(idea: Idea, terms: string[]): SearchMatch | null {
+  if (terms.length === 0) {
+    return { score: 0 };
+  }
+
+  const title = idea.title.toLowerCase();
+  const summary = idea.summary?.toLowerCase() ?? "";
+  const tags = idea.tags.map((tag) => tag.toLowerCase());
+  const features = idea.features.map((feature) => ({ feature, text: feature.content.toLowerCase() }));
+  const featureHits = new Map<IdeaFeature, number>();
+
+  let score = 0;
+  for (const term of terms) {
+    let termScore = 0;
+    if (title.includes(term)) {
+      termScore += FIELD_WEIGHTS.title + (title.startsWith(term) ? FIELD_WEIGHTS.title / 2 : 0);
+    }
+    if (tags.some((tag) => tag.includes(term))) {
+      termScore += FIELD_WEIGHTS.tag;
+    }
+    if (summary.includes(term)) {
+      termScore += FIELD_WEIGHTS.summary;
+    }
+    for (const { feature, text } of features) {
+      if (text.includes(term)) {
+        termScore += FIELD_WEIGHTS.feature;
+        featureHits.set(feature, (featureHits.get(feature) ?? 0) + 1);
+      }
+    }
+    if (termScore === 0) {
+      return null;
+    }
+    score += termScore;
+  }
+
+  let matchedFeature: IdeaFeature | undefined;
+  let bestHits = 0;
+  for (const [feature, hits] of featureHits) {
+    if (hits > bestHits) {
+      matchedFeature = feature;
+      bestHits = hits;
+    }
+  }
+  return { score, matchedFeature };
+}
+
+// Links, URLs, inline code and bold text that wrapping a term in `**` would break.
+const PROTECTED_MARKDOWN_PATTERN =
+  /!?\[[^\]]*\]\([^)]*\)|<[^>\s]+>|\b[a-z][a-z\d+.-]*:\/\/\S+|`[^`]*`|\*\*[^*]+\*\*|__[^_]+__/gi;
+
+/**
+ * Wraps every occurrence of the search terms in bold so the Markdown detail shows why a project matched. Longer terms
+ * win over terms they contain, and links, URLs, inline code and bold text are left as they are.
+ */
+export function highlightTerms(text: string, terms: string[]): string {
+  if (terms.length === 0) {
+    return text;
+  }
+  const sorted = [...terms].sort((a, b) => b.length - a.length);
+  const pattern = new RegExp(`(${sorted.map(escapeRegExp).join("|")})`, "gi");
+  const highlight = (segment: string) => segment.replace(pattern, "**$1**");
+
+  let result = "";
+  let lastIndex = 0;
+  for (const match of text.matchAll(PROTECTED_MARKDOWN_PATTERN)) {
+    const index = match.index ?? 0;
+    result += highlight(text.slice(lastIndex, index)) + match[0];
+    lastIndex = index + match[0].length;
+  }
+  return result + highlight(text.slice(lastIndex));
+}
+
+export function highlightIdea(idea: Idea, terms: string[]): Idea {
+  if (terms.length === 0) {
+    return idea;
+  }
+  return {
+    ...idea,
+    title: highlightTerms(idea.title, terms),
+    summary: idea.summary ? highlightTerms(idea.summary, terms) : idea.summary,
+    features: idea.features.map((feature) => ({ ...feature, content: highlightTerms(feature.content, terms) })),
+  };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { makeIdea } from "../test/fixtures";
+import { Idea } from "./ideas";
+import { lastFeatureActivity, moveInOrder, sortIdeas } from "./sort";
+
+const feature = (createdAt: string, statusChangedAt = createdAt) => ({
+  id: `feature-${createdAt}`,
+  content: "Feature",
+  createdAt,
+  status: "idea" as const,
+  statusChangedAt,
+});
+
+const ideas = [
+  makeIdea({ id: "beta", createdAt: "2025-01-03T00:00:00.000Z", updatedAt: "2025-02-01T00:00:00.000Z" }),
+  makeIdea({
+    id: "Alpha",
+    createdAt: "2025-01-01T00:00:00.000Z",
+    updatedAt: "2025-03-01T00:00:00.000Z",
+    features: [feature("2025-01-02T00:00:00.000Z"), feature("2025-01-05T00:00:00.000Z")],
+  }),
+  makeIdea({
+    id: "gamma",
+    createdAt: "2025-01-02T00:00:00.000Z",
+    updatedAt: "2025-01-10T00:00:00.000Z",
+    features: [feature("2025-01-02T00:00:00.000Z", "2025-04-01T00:00:00.000Z")],
+  }),
+];
+
+const ids = (list: Idea[]) => list.map((idea) => idea.id);
+
+describe("sortIdeas", () => {
+  it("sorts by update, creation, title and feature count", () => {
+    expect(ids(sortIdeas(ideas, "updated"))).toEqual(["Alpha", "beta", "gamma"]);
+    expect(ids(sortIdeas(ideas, "created"))).toEqual(["beta", "gamma", "Alpha"]);
+    expect(ids(sortIdeas(ideas, "title"))).toEqual(["Alpha", "beta", "gamma"]);
+    expect(ids(sortIdeas(ideas, "features"))).toEqual(["Alpha", "gamma", "beta"]);
+  });
+
+  it("sorts by the latest feature creation or status change", () => {
+    expect(lastFeatureActivity(ideas[2])).toBe(new Date("2025-04-01T00:00:00.000Z").getTime());
+    expect(ids(sortIdeas(ideas, "activity"))).toEqual(["gamma", "Alpha", "beta"]);
+  });
+
+  it("follows the manual order and puts unknown projects first", () => {
+    expect(ids(sortIdeas(ideas, "manual", ["gamma", "Alpha"]))).toEqual(["beta", "gamma", "Alpha"]);
+  });
+
+  it("does not mutate its input", () => {
+    sortIdeas(ideas, "title");
+    expect(ids(ideas)).toEqual(["beta", "Alpha", "gamma"]);
+  });
+});
+
+describe("moveInOrder", () => {
+  it("moves a project into its neighbour's slot", () => {
+    expect(moveInOrder(["a", "b", "c"], "c", "b")).toEqual(["a", "c", "b"]);
+    expect(moveInOrder(["a", "b", "c"], "a", "b")).toEqual(["b", "a", "c"]);
+    expect(moveInOrder(["a", "b"], "a", "missing")).toEqual(["a", "b"]);
+  });
+});
@@ -0,0 +1,86 @@
+import { Idea } from "./ideas";
+
+export const SORT_MODE_STORAGE_KEY = "raycast-idea-tracker/sort-mode";
+
+export const MANUAL_ORDER_STORAGE_KEY = "raycast-idea-tracker/manual-order";
+
+export type SortMode = "updated" | "created" | "title" | "features" | "activity" | "manual";
+
+export const SORT_MODES: SortMode[] = ["updated", "created", "title", "features", "activity", "manual"];
+
+export const SORT_MODE_LABELS: Record<SortMode, string> = {
+  updated: "Recently Updated",
+  created: "Recently Created",
+  title: "Alphabetical",
+  features: "Most Features",
+  activity: "Recent Feature Activity",
+  manual: "Manual Order",
+};
+
+export const DEFAULT_SORT_MODE: SortMode = "updated";
+
+export function isSortMode(value: unknown): value is SortMode {
+  return SORT_MODES.includes(value as SortMode);
+}
+
+/**
+ * Latest feature creation or status change, falling back to the project's creation date when it has no features.
+ */
+export function lastFeatureActivity(idea: Idea): number {
+  return idea.features.reduce(
+    (latest, feature) =>
+      Math.max(latest, new Date(feature.createdAt).getTime(), new Date(feature.statusChangedAt).getTime()),
+    new Date(idea.createdAt).getTime(),
+  );
+}
+
+/**
+ * Returns a sorted copy. In manual mode projects missing from `manualOrder` (e.g. just created) come first, newest on
+ * top, so they are not lost at the bottom of a long list.
+ */
+export function sortIdeas(ideas: Idea[], mode: SortMode, manualOrder: string[] = []): Idea[] {
+  const byUpdated = (a: Idea, b: Idea) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime();
+  const sorted = [...ideas];
+
+  switch (mode) {
+    case "created":
+      return sorted.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    case "title":
+      return sorted.sort((a, b) => a.title.localeCompare(b.title, undefined, { sensitivity: "base" }));
+    case "features":
+      return sorted.sort((a, b) => b.features.length - a.features.length || byUpdated(a, b));
+    case "activity":
+      return sorted.sort((a, b) => lastFeatureActivity(b) - lastFeatureActivity(a));
+    case "manual": {
+      const positions = new Map(manualOrder.map((id, index) => [id, index]));
+      return sorted.sort((a, b) => {
+        const positionA = positions.get(a.id);
+        const positionB = positions.get(b.id);
+        if (positionA === undefined || positionB === undefined) {
+          if (positionA === positionB) {
+            return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+          }
+          return positionA === undefined ? -1 : 1;
+        }
+        return positionA - positionB;
+      });
+    }
+    default:
+      return sorted.sort(byUpdated);
+  }
+}
+
+/**
+ * Moves `projectId` into `targetId`'s slot, shifting everything in between by one.
+ */
+export function moveInOrder(order: string[], projectId: string, targetId: string): string[] {
+  const from = order.indexOf(projectId);
+  const to = order.indexOf(targetId);
+  if (from === -1 || to === -1 || from === to) {
+    return order;
+  }
+  const next = [...order];
+  next.splice(from, 1);
+  next.splice(to, 0, projectId);
+  return next;
+}
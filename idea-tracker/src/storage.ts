@@ -0,0 +1,67 @@
+import { LocalStorage } from "@raycast/api";
+import {
+  EMPTY_HISTORY,
+  HISTORY_STORAGE_KEY,
+  MutationHistory,
+  diffProjects,
+  readHistory,
+  recordMutation,
+} from "./history";
+import {
+  IDEAS_MIGRATION_SNAPSHOT_KEY,
+  IDEAS_SCHEMA_VERSION_KEY,
+  IDEAS_STORAGE_KEY,
+  INITIAL_SCHEMA_VERSION,
+  Idea,
+  MigrationSnapshot,
+  StoredIdea,
+  migrateIdeas,
+  normalizeIdea,
+} from "./ideas";
+
+/*
+ * Direct LocalStorage access for no-view commands, which cannot use `useIdeasManager`. Values are JSON encoded the
+ * same way `useLocalStorage` encodes them so both sides read each other's writes.
+ */
+
+async function readJson<T>(key: string): Promise<T | undefined> {
+  const raw = await LocalStorage.getItem<string>(key);
+  return raw === undefined ? undefined : (JSON.parse(raw) as T);
+}
+
+async function writeJson(key: string, value: unknown): Promise<void> {
+  await LocalStorage.setItem(key, JSON.stringify(value));
+}
+
+/**
+ * Loads projects, upgrading (and snapshotting) older payloads exactly like the hook does on load.
+ */
+export async function readStoredIdeas(): Promise<Idea[]> {
+  const stored = (await readJson<StoredIdea[]>(IDEAS_STORAGE_KEY)) ?? [];
+  const version = (await readJson<number>(IDEAS_SCHEMA_VERSION_KEY)) ?? INITIAL_SCHEMA_VERSION;
+  const migrated = migrateIdeas(stored, version);
+
+  if (migrated.applied.length > 0) {
+    if (stored.length > 0) {
+      const snapshot: MigrationSnapshot = { version, takenAt: new Date().toISOString(), ideas: stored };
+      await writeJson(IDEAS_MIGRATION_SNAPSHOT_KEY, snapshot);
+    }
+    await writeJson(IDEAS_STORAGE_KEY, migrated.ideas.map(normalizeIdea));
+    await writeJson(IDEAS_SCHEMA_VERSION_KEY, migrated.version);
+    await writeJson(HISTORY_STORAGE_KEY, EMPTY_HISTORY);
+  }
+
+  return migrated.ideas.map(normalizeIdea);
+}
+
+/**
+ * Saves projects and journals the change so it can be undone from List Projects.
+ */
+export async function commitStoredIdeas(before: Idea[], after: Idea[], label: string): Promise<void> {
+  const history = readHistory(await readJson<MutationHistory>(HISTORY_STORAGE_KEY));
+  await writeJson(IDEAS_STORAGE_KEY, after);
+  await writeJson(
+    HISTORY_STORAGE_KEY,
+    recordMutation(history, { label, timestamp: new Date().toISOString(), changes: diffProjects(before, after) }),
+  );
+}
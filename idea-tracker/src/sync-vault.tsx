@@ -0,0 +1,146 @@
+import { Action, ActionPanel, Color, Icon, List, openExtensionPreferences } from "@raycast/api";
+import path from "node:path";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useIdeasManager } from "./use-ideas-manager";
+import { VaultConflict, VaultConflictResolution, VaultSyncPlan } from "./vault";
+
+export default function SyncVaultCommand() {
+  const { isLoading, vaultFolder, syncVault, resolveVaultConflict } = useIdeasManager();
+  const [plan, setPlan] = useState<VaultSyncPlan | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const hasSyncedRef = useRef(false);
+
+  const sync = useCallback(async () => {
+    if (!vaultFolder) {
+      return;
+    }
+    setIsSyncing(true);
+    try {
+      setPlan(await syncVault(vaultFolder));
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [syncVault, vaultFolder]);
+
+  useEffect(() => {
+    if (isLoading || hasSyncedRef.current) {
+      return;
+    }
+    hasSyncedRef.current = true;
+    void sync();
+  }, [isLoading, sync]);
+
+  if (!vaultFolder) {
+    return (
+      <List>
+        <List.EmptyView
+          icon={Icon.Folder}
+          title="Choose a vault folder"
+          description="Set the Vault Folder preference to the folder in your Obsidian vault where projects should live."
+          actions={
+            <ActionPanel>
+              <Action title="Open Extension Preferences" icon={Icon.Gear} onAction={openExtensionPreferences} />
+            </ActionPanel>
+          }
+        />
+      </List>
+    );
+  }
+
+  async function handleResolve(conflict: VaultConflict, keep: VaultConflictResolution) {
+    if (vaultFolder && (await resolveVaultConflict(vaultFolder, conflict, keep))) {
+      setPlan((current) => current && { ...current, conflicts: current.conflicts.filter((item) => item !== conflict) });
+    }
+  }
+
+  const syncActions = (
+    <ActionPanel.Section>
+      <Action
+        title="Sync Again"
+        icon={Icon.ArrowClockwise}
+        shortcut={{ modifiers: ["cmd"], key: "r" }}
+        onAction={() => void sync()}
+      />
+      <Action.ShowInFinder title="Show Vault Folder in Finder" path={vaultFolder} />
+      <Action title="Open Extension Preferences" icon={Icon.Gear} onAction={openExtensionPreferences} />
+    </ActionPanel.Section>
+  );
+
+  const isUpToDate = plan && plan.conflicts.length === 0 && plan.pulled.length === 0 && plan.writes.length === 0;
+
+  return (
+    <List isLoading={isLoading || isSyncing} searchBarPlaceholder="Search synced projects">
+      {!plan || isUpToDate ? (
+        <List.EmptyView
+          icon={Icon.CheckCircle}
+          title={plan ? "Vault is up to date" : "Syncing vault…"}
+          description={vaultFolder}
+          actions={<ActionPanel>{syncActions}</ActionPanel>}
+        />
+      ) : (
+        <>
+          <List.Section title="Conflicts" subtitle={`${plan.conflicts.length}`}>
+            {plan.conflicts.map((conflict) => (
+              <List.Item
+                key={conflict.idea.id}
+                title={conflict.idea.title}
+                subtitle={conflict.fileName}
+                icon={{ source: Icon.ExclamationMark, tintColor: Color.Red }}
+                accessories={[{ text: "Changed in Raycast and the vault" }]}
+                actions={
+                  <ActionPanel>
+                    <ActionPanel.Section>
+                      <Action
+                        title="Keep Raycast Version"
+                        icon={Icon.Upload}
+                        onAction={() => handleResolve(conflict, "raycast")}
+                      />
+                      <Action
+                        title="Keep Vault Version"
+                        icon={Icon.Download}
+                        onAction={() => handleResolve(conflict, "vault")}
+                      />
+                      <Action.Open
+                        title="Open Note"
+                        target={path.join(vaultFolder, conflict.fileName)}
+                        shortcut={{ modifiers: ["cmd"], key: "o" }}
+                      />
+                    </ActionPanel.Section>
+                    {syncActions}
+                  </ActionPanel>
+                }
+              />
+            ))}
+          </List.Section>
+          <List.Section title="Pulled from Vault" subtitle={`${plan.pulled.length}`}>
+            {plan.pulled.map((idea) => (
+              <List.Item
+                key={idea.id}
+                title={idea.title}
+                icon={Icon.Download}
+                actions={<ActionPanel>{syncActions}</ActionPanel>}
+              />
+            ))}
+          </List.Section>
+          <List.Section title="Written to Vault" subtitle={`${plan.writes.length}`}>
+            {plan.writes.map((file) => (
+              <List.Item
+                key={file.fileName}
+                title={file.fileName}
+                icon={Icon.Upload}
+                actions={
+                  <ActionPanel>
+                    <ActionPanel.Section>
+                      <Action.Open title="Open Note" target={path.join(vaultFolder, file.fileName)} />
+                    </ActionPanel.Section>
+                    {syncActions}
+                  </ActionPanel>
+                }
+              />
+            ))}
+          </List.Section>
+        </>
+      )}
+    </List>
+  );
+}
@@ -0,0 +1,172 @@
+import { describe, expect, it } from "vitest";
+import { makeIdea } from "../test/fixtures";
+import { parseIdeasFromMarkdown } from "./ideas";
+import {
+  TAG_COLORS,
+  collectTagUsage,
+  formatIdeasMarkdownByRootTag,
+  groupTagsByRoot,
+  isTagOrDescendant,
+  mergeTagColors,
+  mergeTags,
+  normalizeIdeaTags,
+  normalizeTagColors,
+  removeTag,
+  renameTag,
+  resolveTagColor,
+  tagMatches,
+} from "./tags";
+
+const ideas = [
+  makeIdea({ id: "a", tags: ["UI", "growth"] }),
+  makeIdea({ id: "b", tags: ["ui", "frontend"] }),
+  makeIdea({ id: "c", tags: ["growth"] }),
+];
+const timestamp = "2025-02-01T00:00:00.000Z";
+
+describe("tag usage", () => {
+  it("counts projects per tag, most used first", () => {
+    const usage = collectTagUsage(ideas);
+
+    expect(usage[0]).toEqual({ tag: "growth", count: 2 });
+    expect(usage.slice(1).map((item) => item.tag)).toEqual(["frontend", "UI", "ui"].sort((a, b) => a.localeCompare(b)));
+  });
+});
+
+describe("tag hierarchy", () => {
+  it("matches a parent tag against its descendants only", () => {
+    expect(tagMatches("work/client-a", "work")).toBe(true);
+    expect(tagMatches("Work/Client-A", "work/client-a")).toBe(true);
+    expect(tagMatches("workshop", "work")).toBe(false);
+    expect(tagMatches("work", "work/client-a")).toBe(false);
+  });
+
+  it("groups tags by their top-level segment and fills in missing parents", () => {
+    expect(groupTagsByRoot(["work/client-b", "growth", "work/client-a/urgent"])).toEqual([
+      { root: "growth", tags: ["growth"] },
+      { root: "work", tags: ["work", "work/client-a", "work/client-a/urgent", "work/client-b"] },
+    ]);
+  });
+
+  it("exports projects under their top-level tags", () => {
+    const markdown = formatIdeasMarkdownByRootTag(
+      [
+        makeIdea({ id: "a", tags: ["work/client-a"] }),
+        makeIdea({ id: "b", tags: ["work/client-b", "growth"] }),
+        makeIdea({ id: "c", tags: [] }),
+      ],
+      { formatDate: () => "date" },
+    );
+    const headings = markdown.split("\n").filter((line) => line.startsWith("#"));
+
+    expect(headings).toEqual(["# growth", "## b", "# work", "## a", "## b", "# Untagged", "## c"]);
+  });
+
+  it("imports the grouped export back once per project", () => {
+    const grouped = [
+      { ...makeIdea({ id: "Alpha", tags: ["work/client-a"] }), summary: "First client" },
+      {
+        ...makeIdea({ id: "Beta", tags: ["work/client-b", "home"] }),
+        features: [
+          {
+            id: "f1",
+            content: "Garden plan",
+            createdAt: "2025-01-01T00:00:00.000Z",
+            status: "planned" as const,
+            statusChangedAt: "2025-01-01T00:00:00.000Z",
+          },
+        ],
+      },
+      makeIdea({ id: "Gamma", tags: [] }),
+    ];
+
+    const parsed = parseIdeasFromMarkdown(formatIdeasMarkdownByRootTag(grouped));
+
+    expect(parsed.map((project) => [project.title, project.tags, project.features])).toEqual([
+      ["Beta", ["work/client-b", "home"], [{ content: "Garden plan", status: "planned" }]],
+      ["Alpha", ["work/client-a"], []],
+      ["Gamma", [], []],
+    ]);
+    expect(parsed[1].summary).toBe("First client");
+  });
+});
+
+describe("tag normalization", () => {
+  it("rewrites stored tags and collapses duplicates without touching updatedAt", () => {
+    const normalized = normalizeIdeaTags(ideas, "lowercase");
+
+    expect(normalized?.map((idea) => idea.tags)).toEqual([["ui", "growth"], ["ui", "frontend"], ["growth"]]);
+    expect(normalized?.[0].updatedAt).toBe(ideas[0].updatedAt);
+    expect(normalized?.[1]).toBe(ideas[1]);
+  });
+
+  it("returns null when tags already match the normalization", () => {
+    expect(normalizeIdeaTags(ideas, "none")).toBeNull();
+  });
+
+  it("re-keys colour overrides, keeping the first when tags collapse", () => {
+    expect(normalizeTagColors({ "Side Project": "#FCA5A5", side_project: "#A7F3D0" }, "kebab-case")).toEqual({
+      "side-project": "#FCA5A5",
+    });
+  });
+});
+
+describe("tag edits", () => {
+  it("renames a tag only where it is used", () => {
+    const renamed = renameTag(ideas, "UI", "design", timestamp);
+
+    expect(renamed.map((idea) => idea.tags)).toEqual([["design", "growth"], ["ui", "frontend"], ["growth"]]);
+    expect(renamed[0].updatedAt).toBe(timestamp);
+    expect(renamed[1]).toBe(ideas[1]);
+  });
+
+  it("merges several tags without duplicating the target", () => {
+    const merged = mergeTags(ideas, ["UI", "ui", "frontend"], "frontend", timestamp);
+
+    expect(merged.map((idea) => idea.tags)).toEqual([["frontend", "growth"], ["frontend"], ["growth"]]);
+  });
+
+  it("removes a tag from every project", () => {
+    expect(removeTag(ideas, "growth", timestamp).map((idea) => idea.tags)).toEqual([["UI"], ["ui", "frontend"], []]);
+  });
+
+  it("carries nested tags along with their parent", () => {
+    const nested = [
+      makeIdea({ id: "a", tags: ["work", "work/client-a/urgent", "workshop"] }),
+      makeIdea({ id: "b", tags: ["work/client-b"] }),
+    ];
+
+    expect(renameTag(nested, "work", "jobs", timestamp).map((idea) => idea.tags)).toEqual([
+      ["jobs", "jobs/client-a/urgent", "workshop"],
+      ["jobs/client-b"],
+    ]);
+    expect(removeTag(nested, "work", timestamp).map((idea) => idea.tags)).toEqual([["workshop"], []]);
+    expect(mergeTags(nested, ["work/client-a", "work/client-b"], "work/clients", timestamp)[1].tags).toEqual([
+      "work/clients",
+    ]);
+    expect(renameTag(nested, "work/client-a", "work/acme", timestamp)[0].tags).toEqual([
+      "work",
+      "work/acme/urgent",
+      "workshop",
+    ]);
+    expect(isTagOrDescendant("work/client-b", "work")).toBe(true);
+    expect(isTagOrDescendant("workshop", "work")).toBe(false);
+  });
+});
+
+describe("tag colors", () => {
+  it("prefers overrides over the hashed palette", () => {
+    expect(TAG_COLORS).toContain(resolveTagColor("growth"));
+    expect(resolveTagColor("growth", { growth: "#FCA5A5" })).toBe("#FCA5A5");
+  });
+
+  it("carries overrides through merges and drops them on delete", () => {
+    expect(mergeTagColors({ UI: "#FCA5A5" }, ["UI"], "design")).toEqual({ design: "#FCA5A5" });
+    expect(mergeTagColors({ UI: "#FCA5A5", design: "#BFDBFE" }, ["UI"], "design")).toEqual({ design: "#BFDBFE" });
+    expect(mergeTagColors({ UI: "#FCA5A5" }, ["UI"], "")).toEqual({});
+    expect(mergeTagColors({ work: "#FCA5A5", "work/a": "#BFDBFE" }, ["work"], "jobs")).toEqual({
+      jobs: "#FCA5A5",
+      "jobs/a": "#BFDBFE",
+    });
+  });
+});
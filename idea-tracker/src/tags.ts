@@ -0,0 +1,245 @@
+import {
+  FormatOptions,
+  Idea,
+  TagNormalization,
+  formatIdeaMarkdown,
+  formatIdeasMarkdown,
+  normalizeTag,
+  normalizeTags,
+} from "./ideas";
+
+export const TAG_COLORS_STORAGE_KEY = "raycast-idea-tracker/tag-colors";
+
+export const TAG_COLORS = [
+  "#A5B4FC",
+  "#C4B5FD",
+  "#FDBA8C",
+  "#FBCFE8",
+  "#BFDBFE",
+  "#FDE68A",
+  "#F5D0FE",
+  "#C7D2FE",
+] as const;
+
+export const TAG_COLOR_CHOICES: { name: string; value: string }[] = [
+  { name: "Red", value: "#FCA5A5" },
+  { name: "Orange", value: "#FDBA8C" },
+  { name: "Yellow", value: "#FDE68A" },
+  { name: "Green", value: "#A7F3D0" },
+  { name: "Teal", value: "#99F6E4" },
+  { name: "Blue", value: "#BFDBFE" },
+  { name: "Indigo", value: "#A5B4FC" },
+  { name: "Purple", value: "#C4B5FD" },
+  { name: "Pink", value: "#FBCFE8" },
+  { name: "Gray", value: "#D1D5DB" },
+];
+
+export type TagColorOverrides = Record<string, string>;
+
+export type TagUsage = {
+  tag: string;
+  count: number;
+};
+
+export type TagGroup = {
+  root: string;
+  tags: string[];
+};
+
+/**
+ * Counts projects per tag, most used first and alphabetical within the same count.
+ */
+export function collectTagUsage(ideas: Idea[]): TagUsage[] {
+  const counts = new Map<string, number>();
+  for (const idea of ideas) {
+    for (const tag of new Set(idea.tags)) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+  return Array.from(counts, ([tag, count]) => ({ tag, count })).sort(
+    (a, b) => b.count - a.count || a.tag.localeCompare(b.tag),
+  );
+}
+
+export function collectTags(ideas: Idea[]): string[] {
+  return Array.from(new Set(ideas.flatMap((idea) => idea.tags))).sort((a, b) => a.localeCompare(b));
+}
+
+/*
+ * Tags containing `/` form a hierarchy: `work/client-a` is a child of `work`, and filtering by `work` matches both.
+ */
+
+export function rootTag(tag: string): string {
+  return tag.split("/")[0];
+}
+
+export function tagAncestors(tag: string): string[] {
+  const segments = tag.split("/");
+  return segments.map((_, index) => segments.slice(0, index + 1).join("/"));
+}
+
+export function tagMatches(tag: string, filter: string): boolean {
+  const value = tag.toLowerCase();
+  const prefix = filter.toLowerCase();
+  return value === prefix || value.startsWith(`${prefix}/`);
+}
+
+/**
+ * Groups tags under their top-level segment. Intermediate parents are added even when no project uses them directly,
+ * so every level can be picked as a filter.
+ */
+export function groupTagsByRoot(tags: string[]): TagGroup[] {
+  const groups = new Map<string, Set<string>>();
+  for (const tag of tags) {
+    const members = groups.get(rootTag(tag)) ?? new Set<string>();
+    tagAncestors(tag).forEach((ancestor) => members.add(ancestor));
+    groups.set(rootTag(tag), members);
+  }
+  return Array.from(groups, ([root, members]) => ({
+    root,
+    tags: Array.from(members).sort((a, b) => a.localeCompare(b)),
+  })).sort((a, b) => a.root.localeCompare(b.root));
+}
+
+/**
+ * Exports projects under a heading per top-level tag. A project with several top-level tags appears in each group;
+ * untagged projects come last.
+ */
+export function formatIdeasMarkdownByRootTag(ideas: Idea[], options: FormatOptions = {}): string {
+  if (ideas.length === 0) {
+    return formatIdeasMarkdown(ideas, options);
+  }
+
+  const roots = Array.from(new Set(ideas.flatMap((idea) => idea.tags.map(rootTag)))).sort((a, b) => a.localeCompare(b));
+  const groups = roots.map((root) => ({
+    title: root,
+    ideas: ideas.filter((idea) => idea.tags.some((tag) => rootTag(tag) === root)),
+  }));
+  const untagged = ideas.filter((idea) => idea.tags.length === 0);
+  if (untagged.length > 0) {
+    groups.push({ title: "Untagged", ideas: untagged });
+  }
+
+  return groups
+    .map((group) =>
+      [
+        `# ${group.title}`,
+        group.ideas.map((idea) => formatIdeaMarkdown(idea, { ...options, headingLevel: 2 })).join("\n\n---\n\n"),
+      ].join("\n\n"),
+    )
+    .join("\n\n");
+}
+
+/**
+ * Rewrites stored tags to the configured normalization. Returns `null` when nothing changes so callers can skip the
+ * write; `updatedAt` is left alone because this is a storage fix-up rather than an edit.
+ */
+export function normalizeIdeaTags(ideas: Idea[], normalization: TagNormalization): Idea[] | null {
+  let changed = false;
+  const next = ideas.map((idea) => {
+    const tags = normalizeTags(idea.tags, normalization);
+    if (tags.length === idea.tags.length && tags.every((tag, index) => tag === idea.tags[index])) {
+      return idea;
+    }
+    changed = true;
+    return { ...idea, tags };
+  });
+  return changed ? next : null;
+}
+
+/**
+ * Re-keys colour overrides after normalization; the first override wins when two tags collapse into one.
+ */
+export function normalizeTagColors(overrides: TagColorOverrides, normalization: TagNormalization): TagColorOverrides {
+  const next: TagColorOverrides = {};
+  for (const [tag, color] of Object.entries(overrides)) {
+    const key = normalizeTag(tag, normalization);
+    if (key && !next[key]) {
+      next[key] = color;
+    }
+  }
+  return next;
+}
+
+/**
+ * Whether `tag` is `parent` itself or nested below it. Unlike `tagMatches` this is case-sensitive, because edits apply
+ * to stored tags exactly as written.
+ */
+export function isTagOrDescendant(tag: string, parent: string): boolean {
+  return tag === parent || tag.startsWith(`${parent}/`);
+}
+
+/**
+ * Moves `tag` from under the closest matching source to under `target`, e.g. `work/client-a` → `jobs/client-a`. An
+ * empty target removes the tag and its children. Returns `tag` unchanged when no source matches.
+ */
+function replaceTagPrefix(tag: string, sources: string[], target: string): string {
+  const source = sources.filter((item) => isTagOrDescendant(tag, item)).sort((a, b) => b.length - a.length)[0];
+  if (source === undefined) {
+    return tag;
+  }
+  return target ? `${target}${tag.slice(source.length)}` : "";
+}
+
+/**
+ * Replaces every tag in `sources`, and the tags nested below them, with `target` across all projects, keeping each
+ * project's tag order and dropping duplicates. Only projects whose tags changed get a new `updatedAt`.
+ */
+export function mergeTags(
+  ideas: Idea[],
+  sources: string[],
+  target: string,
+  timestamp: string = new Date().toISOString(),
+): Idea[] {
+  const nextTag = target.trim();
+  return ideas.map((idea) => {
+    if (!idea.tags.some((tag) => sources.some((source) => isTagOrDescendant(tag, source)))) {
+      return idea;
+    }
+    const tags = Array.from(new Set(idea.tags.map((tag) => replaceTagPrefix(tag, sources, nextTag)).filter(Boolean)));
+    return { ...idea, tags, updatedAt: timestamp };
+  });
+}
+
+export function renameTag(ideas: Idea[], from: string, to: string, timestamp?: string): Idea[] {
+  return mergeTags(ideas, [from], to, timestamp);
+}
+
+export function removeTag(ideas: Idea[], tag: string, timestamp?: string): Idea[] {
+  return mergeTags(ideas, [tag], "", timestamp);
+}
+
+/**
+ * Moves colour overrides along with a rename or merge, including those of nested tags; a tag that already has its own
+ * colour keeps it.
+ */
+export function mergeTagColors(overrides: TagColorOverrides, sources: string[], target: string): TagColorOverrides {
+  const next = { ...overrides };
+  const moved: [string, string][] = [];
+  for (const [tag, color] of Object.entries(overrides)) {
+    const replacement = replaceTagPrefix(tag, sources, target);
+    if (replacement !== tag) {
+      delete next[tag];
+      moved.push([replacement, color]);
+    }
+  }
+  for (const [tag, color] of moved) {
+    if (tag && !next[tag]) {
+      next[tag] = color;
+    }
+  }
+  return next;
+}
+
+export function resolveTagColor(tag: string, overrides: TagColorOverrides = {}): string {
+  return overrides[tag] ?? TAG_COLORS[Math.abs(hashCode(tag)) % TAG_COLORS.length];
+}
+
+function hashCode(value: string): number {
+  let hash = 0;
+  for (const char of value) {
+    hash = (hash << 5) - hash + char.charCodeAt(0);
+    hash |= 0;
+  }
+  return hash;
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { Idea } from "./ideas";
+import {
+  DEFAULT_TEMPLATES,
+  createTemplate,
+  removeTemplate,
+  templateFormValues,
+  templateFromIdea,
+  updateTemplate,
+} from "./templates";
+
+const project: Idea = {
+  id: "idea",
+  title: "Newsletter Tool",
+  summary: "  Problem: writers juggle too many apps  ",
+  tags: ["saas", " SaaS", "writing"],
+  isPinned: false,
+  isArchived: false,
+  features: [
+    {
+      id: "f1",
+      content: "Editor",
+      createdAt: "2025-01-01T00:00:00.000Z",
+      status: "done",
+      statusChangedAt: "2025-01-01T00:00:00.000Z",
+    },
+    {
+      id: "f2",
+      content: "Podcast support",
+      createdAt: "2025-01-01T00:00:00.000Z",
+      status: "dropped",
+      statusChangedAt: "2025-01-01T00:00:00.000Z",
+    },
+  ],
+  createdAt: "2025-01-01T00:00:00.000Z",
+  updatedAt: "2025-01-01T00:00:00.000Z",
+};
+
+describe("project templates", () => {
+  it("captures an existing project without dropped features", () => {
+    expect(templateFromIdea(project)).toEqual({
+      name: "Newsletter Tool",
+      summary: "Problem: writers juggle too many apps",
+      tags: ["saas", "writing"],
+      features: ["Editor"],
+    });
+  });
+
+  it("creates, updates and removes templates", () => {
+    const created = createTemplate(
+      { name: " Blog ", summary: "", tags: ["writing"], features: ["Outline", "  "] },
+      () => "t1",
+    );
+    expect(created).toEqual({ id: "t1", name: "Blog", summary: "", tags: ["writing"], features: ["Outline"] });
+
+    const updated = updateTemplate([created], "t1", { ...created, name: "Essay" });
+    expect(updated).toEqual([{ ...created, name: "Essay" }]);
+    expect(removeTemplate(updated, "t1")).toEqual([]);
+  });
+
+  it("prefills project form values", () => {
+    const [saas] = DEFAULT_TEMPLATES;
+
+    expect(templateFormValues(saas)).toEqual({
+      summary: saas.summary,
+      tags: saas.tags,
+      initialFeatures: saas.features.join("\n"),
+    });
+  });
+});
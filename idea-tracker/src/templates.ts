@@ -0,0 +1,89 @@
+import { randomUUID } from "node:crypto";
+import { Idea, parseTagsInput } from "./ideas";
+import { ProjectFormValues } from "./project-form-types";
+
+export const TEMPLATES_STORAGE_KEY = "raycast-idea-tracker/templates";
+
+export type ProjectTemplate = {
+  id: string;
+  name: string;
+  summary: string;
+  tags: string[];
+  features: string[];
+};
+
+export type ProjectTemplateDraft = Omit<ProjectTemplate, "id">;
+
+/**
+ * Seeded until the user edits the list for the first time; from then on the stored list is used as-is.
+ */
+export const DEFAULT_TEMPLATES: ProjectTemplate[] = [
+  {
+    id: "default-saas",
+    name: "SaaS Idea",
+    summary: "Problem:\nTarget customer:\nPricing:\nCompetitors:",
+    tags: ["saas"],
+    features: ["Landing page with waitlist", "Onboarding flow", "Billing"],
+  },
+  {
+    id: "default-blog-post",
+    name: "Blog Post",
+    summary: "Audience:\nKey takeaway:\nOutline:",
+    tags: ["writing"],
+    features: ["Draft outline", "Write first draft", "Edit and publish"],
+  },
+  {
+    id: "default-hardware",
+    name: "Hardware Hack",
+    summary: "Goal:\nParts:\nBudget:",
+    tags: ["hardware"],
+    features: ["Order parts", "Breadboard prototype", "Design enclosure"],
+  },
+];
+
+export function createTemplate(draft: ProjectTemplateDraft, idFactory: () => string = randomUUID): ProjectTemplate {
+  return { ...normalizeDraft(draft), id: idFactory() };
+}
+
+export function updateTemplate(
+  templates: ProjectTemplate[],
+  templateId: string,
+  draft: ProjectTemplateDraft,
+): ProjectTemplate[] {
+  return templates.map((template) =>
+    template.id === templateId ? { ...normalizeDraft(draft), id: template.id } : template,
+  );
+}
+
+export function removeTemplate(templates: ProjectTemplate[], templateId: string): ProjectTemplate[] {
+  return templates.filter((template) => template.id !== templateId);
+}
+
+/**
+ * Captures a project's summary, tags and live features; dropped features are left out of the skeleton.
+ */
+export function templateFromIdea(idea: Idea): ProjectTemplateDraft {
+  return normalizeDraft({
+    name: idea.title,
+    summary: idea.summary ?? "",
+    tags: idea.tags,
+    features: idea.features.filter((feature) => feature.status !== "dropped").map((feature) => feature.content),
+  });
+}
+
+export function templateFormValues(template: ProjectTemplate): Partial<ProjectFormValues> {
+  return {
+    summary: template.summary,
+    tags: template.tags,
+    initialFeatures: template.features.join("\n"),
+  };
+}
+
+function normalizeDraft(draft: ProjectTemplateDraft): ProjectTemplateDraft {
+  return {
+    name: draft.name.trim(),
+    summary: draft.summary.trim(),
+    tags: parseTagsInput(draft.tags),
+    features: draft.features.map((feature) => feature.trim()).filter(Boolean),
+  };
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import { Idea } from "./ideas";
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  addToTrash,
+  parseRetentionDays,
+  purgeExpiredTrash,
+  removeFromTrash,
+  restoreTrashItem,
+  trashExpiryDate,
+  trashFeatures,
+  trashProject,
+  visibleTrash,
+} from "./trash";
+
+const project: Idea = {
+  id: "idea-1",
+  title: "Companion App",
+  summary: undefined,
+  tags: [],
+  isPinned: false,
+  isArchived: false,
+  features: [
+    {
+      id: "feature-1",
+      content: "Sync",
+      createdAt: "2025-01-01T00:00:00.000Z",
+      status: "idea",
+      statusChangedAt: "2025-01-01T00:00:00.000Z",
+    },
+  ],
+  createdAt: "2025-01-01T00:00:00.000Z",
+  updatedAt: "2025-01-01T00:00:00.000Z",
+};
+
+const removedFeature = {
+  id: "feature-2",
+  content: "Widgets",
+  createdAt: "2025-01-01T00:00:00.000Z",
+  status: "planned" as const,
+  statusChangedAt: "2025-01-02T00:00:00.000Z",
+};
+
+describe("addToTrash", () => {
+  it("prepends new items and replaces entries for the same id", () => {
+    const first = trashProject(project, "2025-02-01T00:00:00.000Z");
+    const second = trashProject(project, "2025-03-01T00:00:00.000Z");
+    const feature = trashFeatures(project, [removedFeature], "2025-02-15T00:00:00.000Z");
+
+    expect(addToTrash(addToTrash([first], feature), [second])).toEqual([second, ...feature]);
+  });
+
+  it("removes entries by id", () => {
+    const trash = [
+      trashProject(project, "2025-02-01T00:00:00.000Z"),
+      ...trashFeatures(project, [removedFeature], "2025-02-01T00:00:00.000Z"),
+    ];
+    expect(removeFromTrash(trash, ["idea-1", "missing"]).map((item) => item.id)).toEqual(["feature-2"]);
+  });
+});
+
+describe("visibleTrash", () => {
+  it("hides items that are back in storage", () => {
+    const trash = [
+      trashProject(project, "2025-02-01T00:00:00.000Z"),
+      ...trashFeatures(project, [project.features[0], removedFeature], "2025-02-01T00:00:00.000Z"),
+    ];
+    expect(visibleTrash(trash, [project]).map((item) => item.id)).toEqual(["feature-2"]);
+    expect(visibleTrash(trash, []).map((item) => item.id)).toEqual(["idea-1", "feature-1", "feature-2"]);
+  });
+});
+
+describe("purgeExpiredTrash", () => {
+  const trash = [
+    trashProject(project, "2025-01-01T00:00:00.000Z"),
+    ...trashFeatures(project, [removedFeature], "2025-01-25T00:00:00.000Z"),
+  ];
+
+  it("drops entries older than the retention period", () => {
+    const purged = purgeExpiredTrash(trash, 7, new Date("2025-01-30T00:00:00.000Z"));
+    expect(purged.map((item) => item.id)).toEqual(["feature-2"]);
+  });
+
+  it("keeps everything when retention is disabled", () => {
+    expect(purgeExpiredTrash(trash, 0, new Date("2030-01-01T00:00:00.000Z"))).toEqual(trash);
+    expect(trashExpiryDate(trash[0], 0)).toBeNull();
+  });
+
+  it("computes the purge date", () => {
+    expect(trashExpiryDate(trash[0], 30)?.toISOString()).toBe("2025-01-31T00:00:00.000Z");
+  });
+});
+
+describe("parseRetentionDays", () => {
+  it("falls back to the default for missing or invalid values", () => {
+    expect(parseRetentionDays(undefined)).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    expect(parseRetentionDays("soon")).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    expect(parseRetentionDays("-3")).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    expect(parseRetentionDays("0")).toBe(0);
+    expect(parseRetentionDays("90")).toBe(90);
+  });
+});
+
+describe("restoreTrashItem", () => {
+  it("puts a trashed project back at the front", () => {
+    const other = { ...project, id: "idea-2" };
+    expect(restoreTrashItem([other], trashProject(project, "2025-02-01T00:00:00.000Z"))).toEqual([project, other]);
+  });
+
+  it("appends a trashed feature to its project", () => {
+    const [item] = trashFeatures(project, [removedFeature], "2025-02-01T00:00:00.000Z");
+    const restored = restoreTrashItem([project], item);
+    expect(restored?.[0].features.map((feature) => feature.id)).toEqual(["feature-1", "feature-2"]);
+  });
+
+  it("refuses when the project is missing or the item already exists", () => {
+    const [item] = trashFeatures(project, [removedFeature], "2025-02-01T00:00:00.000Z");
+    expect(restoreTrashItem([], item)).toBeNull();
+    expect(restoreTrashItem([project], trashProject(project, "2025-02-01T00:00:00.000Z"))).toBeNull();
+  });
+});
@@ -0,0 +1,103 @@
+import { Idea, IdeaFeature } from "./ideas";
+
+export const TRASH_STORAGE_KEY = "raycast-idea-tracker/trash";
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export type TrashedProject = {
+  kind: "project";
+  id: string;
+  deletedAt: string;
+  project: Idea;
+};
+
+export type TrashedFeature = {
+  kind: "feature";
+  id: string;
+  deletedAt: string;
+  feature: IdeaFeature;
+  projectId: string;
+  projectTitle: string;
+};
+
+export type TrashItem = TrashedProject | TrashedFeature;
+
+export function trashProject(project: Idea, deletedAt: string): TrashedProject {
+  return { kind: "project", id: project.id, deletedAt, project };
+}
+
+export function trashFeatures(project: Idea, features: IdeaFeature[], deletedAt: string): TrashedFeature[] {
+  return features.map((feature) => ({
+    kind: "feature",
+    id: feature.id,
+    deletedAt,
+    feature,
+    projectId: project.id,
+    projectTitle: project.title,
+  }));
+}
+
+/**
+ * Adds items to the front of the trash. Items share the ID of what they hold, so re-deleting replaces the old entry.
+ */
+export function addToTrash(trash: TrashItem[], items: TrashItem[]): TrashItem[] {
+  const incomingIds = new Set(items.map((item) => item.id));
+  return [...items, ...trash.filter((item) => !incomingIds.has(item.id))];
+}
+
+export function removeFromTrash(trash: TrashItem[], itemIds: string[]): TrashItem[] {
+  const removed = new Set(itemIds);
+  return trash.filter((item) => !removed.has(item.id));
+}
+
+/**
+ * Drops entries whose project or feature is back in storage. Restores remove their entry, so this only catches
+ * entries left behind by older versions.
+ */
+export function visibleTrash(trash: TrashItem[], projects: Idea[]): TrashItem[] {
+  const projectsById = new Map(projects.map((project) => [project.id, project]));
+  return trash.filter((item) => {
+    if (item.kind === "project") {
+      return !projectsById.has(item.id);
+    }
+    const project = projectsById.get(item.projectId);
+    return !project?.features.some((feature) => feature.id === item.id);
+  });
+}
+
+export function purgeExpiredTrash(trash: TrashItem[], retentionDays: number, now: Date = new Date()): TrashItem[] {
+  if (retentionDays <= 0) {
+    return trash;
+  }
+  const cutoff = now.getTime() - retentionDays * 24 * 60 * 60 * 1000;
+  return trash.filter((item) => new Date(item.deletedAt).getTime() >= cutoff);
+}
+
+export function trashExpiryDate(item: TrashItem, retentionDays: number): Date | null {
+  if (retentionDays <= 0) {
+    return null;
+  }
+  return new Date(new Date(item.deletedAt).getTime() + retentionDays * 24 * 60 * 60 * 1000);
+}
+
+export function parseRetentionDays(value?: string): number {
+  const days = Number.parseInt(value ?? "", 10);
+  return Number.isNaN(days) || days < 0 ? DEFAULT_TRASH_RETENTION_DAYS : days;
+}
+
+export function restoreTrashItem(projects: Idea[], item: TrashItem): Idea[] | null {
+  if (item.kind === "project") {
+    if (projects.some((project) => project.id === item.id)) {
+      return null;
+    }
+    return [item.project, ...projects];
+  }
+
+  const target = projects.find((project) => project.id === item.projectId);
+  if (!target || target.features.some((feature) => feature.id === item.id)) {
+    return null;
+  }
+  return projects.map((project) =>
+    project.id === item.projectId ? { ...project, features: [...project.features, item.feature] } : project,
+  );
+}
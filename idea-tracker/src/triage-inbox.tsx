@@ -0,0 +1,130 @@
+import { Action, ActionPanel, Detail, Icon, LaunchType, launchCommand } from "@raycast/api";
+import { useMemo, useState } from "react";
+import { Idea, IdeaFeature, formatAbsoluteDate, isInboxIdea } from "./ideas";
+import { AddProjectForm } from "./project-forms";
+import { ProjectFormValues } from "./project-form-types";
+import { collectTags } from "./tags";
+import { useIdeasManager } from "./use-ideas-manager";
+
+export default function TriageInboxCommand() {
+  const { isLoading, projects, inbox, moveFeatureToProject, promoteFeature, discardFeature } = useIdeasManager();
+  const [skipCount, setSkipCount] = useState(0);
+  const destinations = useMemo(
+    () => projects.filter((project) => !project.isArchived && !isInboxIdea(project)),
+    [projects],
+  );
+
+  const features = inbox?.features ?? [];
+  if (isLoading) {
+    return <Detail isLoading />;
+  }
+
+  if (!inbox || features.length === 0) {
+    return (
+      <Detail
+        navigationTitle="Triage Inbox"
+        markdown={"### Inbox is empty\nUse **Capture Idea** to jot something down, then sort it into a project here."}
+        actions={
+          <ActionPanel>
+            <Action
+              title="Open List Projects"
+              icon={Icon.AppWindowList}
+              onAction={() => launchCommand({ name: "list-projects", type: LaunchType.UserInitiated })}
+            />
+          </ActionPanel>
+        }
+      />
+    );
+  }
+
+  // Acting on a feature removes it from the Inbox, so the same position then shows the next one.
+  const position = skipCount % features.length;
+  const feature = features[position];
+
+  return (
+    <Detail
+      navigationTitle={`Triage Inbox • ${position + 1} of ${features.length}`}
+      markdown={formatTriageMarkdown(feature, position, features.length)}
+      actions={
+        <ActionPanel>
+          <ActionPanel.Section>
+            <ActionPanel.Submenu
+              title="Move to Project"
+              icon={Icon.ArrowRight}
+              shortcut={{ modifiers: ["cmd"], key: "m" }}
+            >
+              {destinations.map((project) => (
+                <Action
+                  key={project.id}
+                  title={project.title}
+                  icon={project.isPinned ? Icon.Star : Icon.Document}
+                  onAction={() => moveFeatureToProject(inbox.id, feature.id, project.id)}
+                />
+              ))}
+            </ActionPanel.Submenu>
+            <Action.Push
+              title="Promote to Project"
+              icon={Icon.PlusCircle}
+              shortcut={{ modifiers: ["cmd"], key: "n" }}
+              target={
+                <PromoteFeatureForm
+                  inbox={inbox}
+                  feature={feature}
+                  availableTags={collectTags(projects)}
+                  onPromote={promoteFeature}
+                />
+              }
+            />
+            <Action
+              title="Skip"
+              icon={Icon.ChevronRight}
+              shortcut={{ modifiers: ["cmd"], key: "arrowRight" }}
+              onAction={() => setSkipCount((count) => count + 1)}
+            />
+            <Action
+              title="Discard"
+              icon={Icon.Trash}
+              style={Action.Style.Destructive}
+              shortcut={{ modifiers: ["ctrl"], key: "x" }}
+              onAction={() => discardFeature(inbox.id, feature.id)}
+            />
+          </ActionPanel.Section>
+        </ActionPanel>
+      }
+    />
+  );
+}
+
+function PromoteFeatureForm({
+  inbox,
+  feature,
+  availableTags,
+  onPromote,
+}: {
+  inbox: Idea;
+  feature: IdeaFeature;
+  availableTags: string[];
+  onPromote: (fromProjectId: string, featureId: string, values: ProjectFormValues) => Promise<Idea | null>;
+}) {
+  return (
+    <AddProjectForm
+      navigationTitle="Promote to Project"
+      initialValues={{ title: feature.content }}
+      availableTags={availableTags}
+      onSubmit={async (values) => {
+        const created = await onPromote(inbox.id, feature.id, values);
+        return created !== null;
+      }}
+    />
+  );
+}
+
+function formatTriageMarkdown(feature: IdeaFeature, position: number, total: number): string {
+  return [
+    `# ${feature.content}`,
+    "",
+    `Captured ${formatAbsoluteDate(feature.createdAt)}`,
+    "",
+    `_${position + 1} of ${total} in the Inbox. Move it to a project, promote it to its own project, or discard it._`,
+  ].join("\n");
+}
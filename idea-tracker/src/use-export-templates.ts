@@ -0,0 +1,41 @@
+import {
+  DEFAULT_EXPORT_TEMPLATES,
+  EXPORT_TEMPLATES_STORAGE_KEY,
+  ExportTemplate,
+  ExportTemplateDraft,
+  createExportTemplate,
+  removeExportTemplate,
+  updateExportTemplate,
+  validateExportTemplate,
+} from "./export-templates";
+import { useStoredCollection } from "./use-stored-collection";
+
+function validateDraft(draft: ExportTemplateDraft) {
+  const error = validateExportTemplate(draft.body);
+  return error ? { title: "Template has a syntax error", message: error } : undefined;
+}
+
+export function useExportTemplates() {
+  const { isLoading, items, saveItem, updateItem, deleteItem } = useStoredCollection<
+    ExportTemplate,
+    ExportTemplateDraft
+  >({
+    storageKey: EXPORT_TEMPLATES_STORAGE_KEY,
+    defaultItems: DEFAULT_EXPORT_TEMPLATES,
+    label: "Export template",
+    deleteActionTitle: "Delete Template",
+    deleteMessage: "Exports already written are not affected.",
+    create: createExportTemplate,
+    update: updateExportTemplate,
+    remove: removeExportTemplate,
+    validate: validateDraft,
+  });
+
+  return {
+    isLoading,
+    exportTemplates: items,
+    saveExportTemplate: saveItem,
+    updateExportTemplate: updateItem,
+    deleteExportTemplate: deleteItem,
+  };
+}
@@ -1,27 +1,52 @@
 import { renderHook, act } from "@testing-library/react";
 import { beforeEach, describe, expect, it, vi } from "vitest";
-import { confirmAlert, showToast } from "@raycast/api";
-import { __resetStorage } from "@raycast/utils";
+import { Toast, confirmAlert, getPreferenceValues, showToast } from "@raycast/api";
+import { __getStorageItem, __resetStorage, __setStorageItem } from "@raycast/utils";
 import { useIdeasManager } from "./use-ideas-manager";
-import { readFile } from "node:fs/promises";
+import {
+  CURRENT_SCHEMA_VERSION,
+  IDEAS_MIGRATION_SNAPSHOT_KEY,
+  IDEAS_SCHEMA_VERSION_KEY,
+  IDEAS_STORAGE_KEY,
+  INBOX_PROJECT_ID,
+  Idea,
+} from "./ideas";
+import { defaultImportAction } from "./importers";
+import { TAG_COLORS_STORAGE_KEY } from "./tags";
+import { SORT_MODE_STORAGE_KEY } from "./sort";
+import { TRASH_STORAGE_KEY } from "./trash";
+import { mkdir, readFile, readdir, writeFile } from "node:fs/promises";
 
 vi.mock("node:fs/promises", () => {
+  const mkdirMock = vi.fn();
   const readFileMock = vi.fn();
+  const readdirMock = vi.fn();
+  const writeFileMock = vi.fn();
   return {
+    mkdir: mkdirMock,
     readFile: readFileMock,
-    default: { readFile: readFileMock },
+    readdir: readdirMock,
+    writeFile: writeFileMock,
+    default: { mkdir: mkdirMock, readFile: readFileMock, readdir: readdirMock, writeFile: writeFileMock },
   };
 });
 
 const readFileMock = readFile as unknown as vi.Mock;
+const writeFileMock = writeFile as unknown as vi.Mock;
+const mkdirMock = mkdir as unknown as vi.Mock;
+const readdirMock = readdir as unknown as vi.Mock;
 
 describe("useIdeasManager", () => {
   beforeEach(() => {
     showToast.mockReset();
     confirmAlert.mockReset();
     confirmAlert.mockResolvedValue(true);
+    getPreferenceValues.mockReturnValue({});
     __resetStorage();
     readFileMock.mockReset();
+    writeFileMock.mockReset();
+    mkdirMock.mockReset();
+    readdirMock.mockReset();
   });
 
   it("creates a project with normalized fields", async () => {
@@ -31,7 +56,7 @@ describe("useIdeasManager", () => {
       const created = await result.current.createProject({
         title: "Launch App",
         summary: "  Build MVP  ",
-        tags: "alpha, beta",
+        tags: ["alpha", "beta"],
         initialFeatures: "Signup flow\n\nAnalytics dashboard",
       });
       expect(created).not.toBeNull();
@@ -42,7 +67,9 @@ describe("useIdeasManager", () => {
     expect(project.summary).toBe("Build MVP");
     expect(project.tags).toEqual(["alpha", "beta"]);
     expect(project.features.map((feature) => feature.content)).toEqual(["Signup flow", "Analytics dashboard"]);
-    expect(showToast).toHaveBeenCalledWith("success", "Project added", "Launch App");
+    expect(showToast).toHaveBeenCalledWith(
+      expect.objectContaining({ style: "success", title: "Project added", message: "Launch App" }),
+    );
   });
 
   it("appends features to an existing project", async () => {
@@ -60,6 +87,28 @@ describe("useIdeasManager", () => {
     expect(result.current.projects[0].features.map((feature) => feature.content)).toContain("Rewrite onboarding");
   });
 
+  it("updates feature status and stamps the change", async () => {
+    const { result } = renderHook(() => useIdeasManager());
+    await act(async () => {
+      await result.current.createProject({ title: "Roadmap", initialFeatures: "Beta invites" });
+    });
+    const project = result.current.projects[0];
+    const feature = project.features[0];
+    expect(feature.status).toBe("idea");
+
+    await act(async () => {
+      const updated = await result.current.setFeatureStatus(project.id, feature.id, "in-progress");
+      expect(updated?.features[0].status).toBe("in-progress");
+    });
+
+    const updatedFeature = result.current.projects[0].features[0];
+    expect(updatedFeature.status).toBe("in-progress");
+    expect(updatedFeature.statusChangedAt >= feature.statusChangedAt).toBe(true);
+    expect(showToast).toHaveBeenCalledWith(
+      expect.objectContaining({ style: "success", title: "Marked as In Progress", message: "Beta invites" }),
+    );
+  });
+
   it("archives projects and clears pins", async () => {
     const { result } = renderHook(() => useIdeasManager());
     await act(async () => {
@@ -113,7 +162,11 @@ describe("useIdeasManager", () => {
     const { result } = renderHook(() => useIdeasManager());
 
     await act(async () => {
-      const imported = await result.current.importProjectsFromMarkdown("/tmp/projects.md");
+      const candidates = await result.current.readImportFile("/tmp/projects.md");
+      expect(candidates.map((candidate) => candidate.duplicateOf)).toEqual([undefined, undefined]);
+      const imported = await result.current.importProjects(
+        candidates.map((candidate) => ({ project: candidate.project, action: "create" })),
+      );
       expect(imported).toBe(2);
     });
 
@@ -123,6 +176,772 @@ describe("useIdeasManager", () => {
       "Realtime sync",
       "Push notifications",
     ]);
-    expect(showToast).toHaveBeenCalledWith("success", "Imported 2 projects", undefined);
+    expect(showToast).toHaveBeenCalledWith(
+      expect.objectContaining({ style: "success", title: "Imported 2 projects", message: undefined }),
+    );
+  });
+
+  it("re-imports an exported project without turning metadata into features", async () => {
+    const markdown = [
+      "# Launch Companion App",
+      "",
+      "Mobile app to support core desktop product.",
+      "",
+      "**Status:** Pinned",
+      "",
+      "**Tags:** mobile, retention",
+      "",
+      "- Created: 2025-01-01T00:00:00.000Z",
+      "- Updated: 2025-01-02T12:00:00.000Z",
+      "",
+      "## Features",
+      "",
+      "- [x] Realtime sync",
+      "- [ ] Push notifications _(In Progress)_",
+    ].join("\n");
+
+    readFileMock.mockResolvedValueOnce(markdown);
+
+    const { result } = renderHook(() => useIdeasManager());
+
+    await act(async () => {
+      const [candidate] = await result.current.readImportFile("/tmp/export.md");
+      await result.current.importProjects([{ project: candidate.project, action: "create" }]);
+    });
+
+    const [project] = result.current.projects;
+    expect(project.summary).toBe("Mobile app to support core desktop product.");
+    expect(project.tags).toEqual(["mobile", "retention"]);
+    expect(project.isPinned).toBe(true);
+    expect(project.createdAt).toBe("2025-01-01T00:00:00.000Z");
+    expect(project.features.map((feature) => [feature.content, feature.status])).toEqual([
+      ["Realtime sync", "done"],
+      ["Push notifications", "in-progress"],
+    ]);
+  });
+
+  it("merges only new features when the same file is imported again", async () => {
+    const { result } = renderHook(() => useIdeasManager());
+
+    readFileMock.mockResolvedValueOnce("# Launch Companion App\n- Realtime sync");
+    await act(async () => {
+      const [candidate] = await result.current.readImportFile("/tmp/projects.md");
+      await result.current.importProjects([{ project: candidate.project, action: "create" }]);
+    });
+
+    readFileMock.mockResolvedValueOnce("# launch companion  app\n- Realtime sync\n- Push notifications");
+    await act(async () => {
+      const candidates = await result.current.readImportFile("/tmp/projects.md");
+      expect(candidates[0].duplicateOf?.id).toBe(result.current.projects[0].id);
+      const imported = await result.current.importProjects(
+        candidates.map((candidate) => ({
+          project: candidate.project,
+          action: defaultImportAction(candidate),
+          targetId: candidate.duplicateOf?.id,
+        })),
+      );
+      expect(imported).toBe(1);
+    });
+
+    expect(result.current.projects).toHaveLength(1);
+    expect(result.current.projects[0].features.map((feature) => feature.content)).toEqual([
+      "Realtime sync",
+      "Push notifications",
+    ]);
+    expect(showToast).toHaveBeenCalledWith(
+      expect.objectContaining({ title: "Merged 1 project", message: "Launch Companion App" }),
+    );
+  });
+
+  it("writes export files, creating subfolders as needed", async () => {
+    const { result } = renderHook(() => useIdeasManager());
+
+    let target: string | null = null;
+    await act(async () => {
+      target = await result.current.writeExport("/tmp/exports", [
+        { fileName: "export/a.md", contents: "# A" },
+        { fileName: "export/b.md", contents: "# B" },
+      ]);
+    });
+
+    expect(target).toBe("/tmp/exports/export");
+    expect(mkdirMock).toHaveBeenCalledWith("/tmp/exports/export", { recursive: true });
+    expect(writeFileMock).toHaveBeenCalledWith("/tmp/exports/export/a.md", "# A", "utf8");
+    expect(writeFileMock).toHaveBeenCalledWith("/tmp/exports/export/b.md", "# B", "utf8");
+  });
+
+  it("writes new projects to the vault and pulls edits made there", async () => {
+    const { result } = renderHook(() => useIdeasManager());
+    await act(async () => {
+      await result.current.createProject({ title: "Launch App", tags: ["mobile"] });
+    });
+
+    readdirMock.mockResolvedValue([]);
+    await act(async () => {
+      await result.current.syncVault("/vault");
+    });
+    const [filePath, written] = writeFileMock.mock.calls[0];
+    expect(filePath).toBe("/vault/launch-app.md");
+    expect(written).toContain("tags:\n  - mobile");
+
+    writeFileMock.mockReset();
+    readdirMock.mockResolvedValue([{ name: "launch-app.md", isFile: () => true }]);
+    readFileMock.mockResolvedValue(written.replace("# Launch App", "# Launch Companion"));
+    await act(async () => {
+      const plan = await result.current.syncVault("/vault");
+      expect(plan?.pulled).toHaveLength(1);
+      expect(plan?.conflicts).toEqual([]);
+    });
+
+    expect(result.current.projects[0].title).toBe("Launch Companion");
+    expect(writeFileMock.mock.calls[0][0]).toBe("/vault/launch-app.md");
+  });
+
+  it("writes a backup and restores it by merging", async () => {
+    const { result } = renderHook(() => useIdeasManager());
+    await act(async () => {
+      await result.current.createProject({ title: "Keep Me", tags: ["ops"] });
+    });
+
+    let filePath: string | null = null;
+    await act(async () => {
+      filePath = await result.current.writeBackup("/tmp/backups", "ops");
+    });
+
+    expect(filePath).toMatch(/^\/tmp\/backups\/idea-tracker-backup-.+\.json$/);
+    const [, contents] = writeFileMock.mock.calls[0];
+    readFileMock.mockResolvedValueOnce(contents);
+
+    await act(async () => {
+      await result.current.deleteProject(result.current.projects[0].id);
+    });
+    expect(result.current.projects).toHaveLength(0);
+
+    await act(async () => {
+      const backup = await result.current.readBackup("/tmp/backups/backup.json");
+      expect(backup?.tagFilter).toBe("ops");
+      expect(await result.current.restoreFromBackup(backup!, "merge")).toBe(true);
+    });
+
+    expect(result.current.projects.map((project) => project.title)).toEqual(["Keep Me"]);
+    expect(result.current.projects[0].tags).toEqual(["ops"]);
+  });
+
+  it("reports invalid backup files", async () => {
+    readFileMock.mockResolvedValueOnce(JSON.stringify({ version: 1 }));
+    const { result } = renderHook(() => useIdeasManager());
+
+    await act(async () => {
+      expect(await result.current.readBackup("/tmp/broken.json")).toBeNull();
+    });
+
+    expect(showToast).toHaveBeenCalledWith(
+      "failure",
+      "Invalid backup file",
+      "Backup file does not contain an ideas list",
+    );
+  });
+
+  it("migrates legacy storage on load and keeps a snapshot for rollback", async () => {
+    const legacy = [
+      {
+        id: "idea-1",
+        title: "Legacy",
+        features: [{ id: "feature-1", content: "Old bullet", createdAt: "2024-01-01T00:00:00.000Z" }],
+        createdAt: "2024-01-01T00:00:00.000Z",
+        updatedAt: "2024-01-01T00:00:00.000Z",
+      },
+    ];
+    __setStorageItem(IDEAS_STORAGE_KEY, legacy);
+
+    const { result } = renderHook(() => useIdeasManager());
+    await act(async () => {});
+
+    expect(__getStorageItem(IDEAS_SCHEMA_VERSION_KEY)).toBe(CURRENT_SCHEMA_VERSION);
+    expect(__getStorageItem(IDEAS_STORAGE_KEY)).toEqual([
+      expect.objectContaining({
+        tags: [],
+        isPinned: false,
+        features: [expect.objectContaining({ status: "idea", statusChangedAt: "2024-01-01T00:00:00.000Z" })],
+      }),
+    ]);
+    expect(result.current.migrationSnapshot).toEqual(expect.objectContaining({ version: 1, ideas: legacy }));
+
+    expect(result.current.undoLabel).toBeUndefined();
+
+    await act(async () => {
+      await result.current.appendFeature("idea-1", "Post-upgrade change");
+    });
+    await act(async () => {
+      expect(await result.current.rollbackMigration()).toBe(true);
+    });
+
+    expect(result.current.projects[0].features.map((feature) => feature.content)).toEqual(["Old bullet"]);
+    expect(result.current.undoLabel).toBeUndefined();
+    expect(__getStorageItem(IDEAS_SCHEMA_VERSION_KEY)).toBe(CURRENT_SCHEMA_VERSION);
+    expect(__getStorageItem(IDEAS_MIGRATION_SNAPSHOT_KEY)).toBeUndefined();
+  });
+
+  it("records the schema version without a snapshot on a fresh install", async () => {
+    renderHook(() => useIdeasManager());
+    await act(async () => {});
+
+    expect(__getStorageItem(IDEAS_SCHEMA_VERSION_KEY)).toBe(CURRENT_SCHEMA_VERSION);
+    expect(__getStorageItem(IDEAS_MIGRATION_SNAPSHOT_KEY)).toBeUndefined();
+  });
+
+  it("undoes and redoes mutations from the journal", async () => {
+    const { result } = renderHook(() => useIdeasManager());
+    await act(async () => {
+      await result.current.createProject({ title: "Journal", initialFeatures: "First\nSecond" });
+    });
+    const projectId = result.current.projects[0].id;
+
+    await act(async () => {
+      await result.current.editFeatures(projectId, ["First", ""]);
+    });
+    expect(result.current.projects[0].features).toHaveLength(1);
+    expect(result.current.undoLabel).toBe("Features updated");
+
+    await act(async () => {
+      expect(await result.current.undo()).toBe(true);
+    });
+    expect(result.current.projects[0].features.map((feature) => feature.content)).toEqual(["First", "Second"]);
+    expect(result.current.redoLabel).toBe("Features updated");
+    expect(result.current.undoLabel).toBe("Project added");
+
+    await act(async () => {
+      expect(await result.current.redo()).toBe(true);
+    });
+    expect(result.current.projects[0].features).toHaveLength(1);
+    expect(result.current.redoLabel).toBeUndefined();
+  });
+
+  it("keeps writes made to other projects since the undone mutation", async () => {
+    const { result } = renderHook(() => useIdeasManager());
+    await act(async () => {
+      await result.current.createProject({ title: "Edited" });
+    });
+    await act(async () => {
+      await result.current.createProject({ title: "Untouched" });
+    });
+    const edited = result.current.projects.find((project) => project.title === "Edited");
+    await act(async () => {
+      await result.current.appendFeature(edited?.id ?? "", "Journaled");
+    });
+
+    // Stands in for an unjournaled write such as the tag normalization pass.
+    const stored = __getStorageItem(IDEAS_STORAGE_KEY) as Idea[];
+    __setStorageItem(
+      IDEAS_STORAGE_KEY,
+      stored.map((project) => (project.title === "Untouched" ? { ...project, tags: ["external"] } : project)),
+    );
+    const { result: fresh } = renderHook(() => useIdeasManager());
+    await act(async () => {
+      expect(await fresh.current.undo()).toBe(true);
+    });
+
+    const projects = __getStorageItem(IDEAS_STORAGE_KEY) as Idea[];
+    expect(projects.find((project) => project.title === "Untouched")?.tags).toEqual(["external"]);
+    expect(projects.find((project) => project.title === "Edited")?.features).toEqual([]);
+  });
+
+  it("offers undo from the success toast", async () => {
+    const { result } = renderHook(() => useIdeasManager());
+    await act(async () => {
+      await result.current.createProject({ title: "Keep" });
+    });
+    const projectId = result.current.projects[0].id;
+
+    await act(async () => {
+      await result.current.deleteProject(projectId);
+    });
+    expect(result.current.projects).toHaveLength(0);
+
+    const toastCalls = (showToast as unknown as vi.Mock).mock.calls as [Toast.Options][];
+    const deleteToast = toastCalls.find(([options]) => options.title === "Project moved to trash")?.[0];
+    expect(deleteToast?.primaryAction?.title).toBe("Undo");
+
+    await act(async () => {
+      deleteToast?.primaryAction?.onAction?.({} as Toast);
+    });
+
+    expect(result.current.projects.map((project) => project.title)).toEqual(["Keep"]);
+  });
+
+  it("clears redo once a new mutation is recorded", async () => {
+    const { result } = renderHook(() => useIdeasManager());
+    await act(async () => {
+      await result.current.createProject({ title: "One" });
+    });
+    await act(async () => {
+      await result.current.undo();
+    });
+    expect(result.current.redoLabel).toBe("Project added");
+
+    await act(async () => {
+      await result.current.createProject({ title: "Two" });
+    });
+    expect(result.current.redoLabel).toBeUndefined();
+    await act(async () => {
+      expect(await result.current.redo()).toBe(false);
+    });
+    expect(showToast).toHaveBeenCalledWith("failure", "Nothing to redo");
+  });
+
+  it("keeps the Inbox from being deleted", async () => {
+    const { result } = renderHook(() => useIdeasManager());
+    await act(async () => {
+      await result.current.appendFeature(INBOX_PROJECT_ID, "Loose thought");
+    });
+    expect(result.current.inbox?.features.map((feature) => feature.content)).toEqual(["Loose thought"]);
+
+    await act(async () => {
+      await result.current.deleteProject(INBOX_PROJECT_ID);
+    });
+
+    expect(confirmAlert).not.toHaveBeenCalled();
+    expect(showToast).toHaveBeenCalledWith(
+      "failure",
+      "The Inbox cannot be deleted",
+      "Triage or discard its features instead.",
+    );
+    expect(result.current.inbox).toBeDefined();
+  });
+
+  it("triages Inbox features by moving, promoting and discarding", async () => {
+    const { result } = renderHook(() => useIdeasManager());
+    await act(async () => {
+      await result.current.createProject({ title: "Garden" });
+    });
+    await act(async () => {
+      await result.current.appendFeature(INBOX_PROJECT_ID, "Compost bin\nBird feeder app\nNoise");
+    });
+    const garden = result.current.projects.find((project) => project.title === "Garden");
+    const [compost, feeder, noise] = result.current.inbox?.features ?? [];
+
+    await act(async () => {
+      await result.current.moveFeatureToProject(INBOX_PROJECT_ID, compost.id, garden?.id ?? "");
+    });
+    expect(result.current.projects.find((project) => project.title === "Garden")?.features).toEqual([compost]);
+
+    await act(async () => {
+      const created = await result.current.promoteFeature(INBOX_PROJECT_ID, feeder.id, { title: "Bird Feeder" });
+      expect(created?.title).toBe("Bird Feeder");
+    });
+
+    await act(async () => {
+      expect(await result.current.discardFeature(INBOX_PROJECT_ID, noise.id)).toBe(true);
+    });
+
+    expect(result.current.inbox?.features).toEqual([]);
+    expect(result.current.projects.map((project) => project.title)).toContain("Bird Feeder");
+    expect(result.current.trash).toEqual([expect.objectContaining({ kind: "feature", id: noise.id })]);
+  });
+
+  it("reorders, moves and copies individual features", async () => {
+    const { result } = renderHook(() => useIdeasManager());
+    await act(async () => {
+      await result.current.createProject({ title: "Target" });
+    });
+    await act(async () => {
+      await result.current.createProject({ title: "Source", initialFeatures: "First\nSecond" });
+    });
+    const source = result.current.projects.find((project) => project.title === "Source");
+    const target = result.current.projects.find((project) => project.title === "Target");
+    const [first, second] = source?.features ?? [];
+
+    await act(async () => {
+      await result.current.moveFeatureWithinProject(source?.id ?? "", second.id, -1);
+    });
+    const findProject = (title: string) => result.current.projects.find((project) => project.title === title);
+    expect(findProject("Source")?.features.map((feature) => feature.id)).toEqual([second.id, first.id]);
+
+    await act(async () => {
+      await result.current.copyFeatureToProject(source?.id ?? "", first.id, target?.id ?? "");
+    });
+    await act(async () => {
+      await result.current.moveFeatureToProject(source?.id ?? "", second.id, target?.id ?? "");
+    });
+
+    expect(findProject("Source")?.features).toEqual([first]);
+    const targetFeatures = findProject("Target")?.features ?? [];
+    expect(targetFeatures.map((feature) => feature.content)).toEqual(["First", "Second"]);
+    expect(targetFeatures[0].id).not.toBe(first.id);
+    expect(targetFeatures[0].createdAt).toBe(first.createdAt);
+    expect(targetFeatures[1]).toEqual(second);
+  });
+
+  it("does not move features out of an archived project", async () => {
+    const { result } = renderHook(() => useIdeasManager());
+    await act(async () => {
+      await result.current.createProject({ title: "Target" });
+    });
+    await act(async () => {
+      await result.current.createProject({ title: "Source", initialFeatures: "Only" });
+    });
+    const findProject = (title: string) => result.current.projects.find((project) => project.title === title);
+    const source = findProject("Source");
+    await act(async () => {
+      await result.current.toggleArchive(source?.id ?? "", true);
+    });
+
+    await act(async () => {
+      await result.current.moveFeatureToProject(
+        source?.id ?? "",
+        source?.features[0].id ?? "",
+        findProject("Target")?.id ?? "",
+      );
+    });
+
+    expect(findProject("Source")?.features.map((feature) => feature.content)).toEqual(["Only"]);
+    expect(findProject("Target")?.features).toEqual([]);
+    expect(showToast).toHaveBeenCalledWith(Toast.Style.Failure, "Project is archived");
+  });
+
+  it("merges one project into another and splits it back out", async () => {
+    const { result } = renderHook(() => useIdeasManager());
+    await act(async () => {
+      await result.current.createProject({ title: "Target", tags: ["a"], initialFeatures: "Shared" });
+    });
+    await act(async () => {
+      await result.current.createProject({ title: "Source", tags: ["b"], initialFeatures: "Shared\nExtra" });
+    });
+    const findProject = (title: string) => result.current.projects.find((project) => project.title === title);
+
+    await act(async () => {
+      await result.current.mergeProjects(findProject("Source")?.id ?? "", findProject("Target")?.id ?? "");
+    });
+
+    expect(result.current.projects.map((project) => project.title)).toEqual(["Target"]);
+    const merged = result.current.projects[0];
+    expect(merged.tags).toEqual(["a", "b"]);
+    expect(merged.features.map((feature) => feature.content)).toEqual(["Shared", "Extra"]);
+
+    await act(async () => {
+      await result.current.splitProject(merged.id, [merged.features[1].id], "Carved");
+    });
+
+    expect(findProject("Target")?.features.map((feature) => feature.content)).toEqual(["Shared"]);
+    expect(findProject("Carved")?.tags).toEqual(["a", "b"]);
+    expect(findProject("Carved")?.features.map((feature) => feature.content)).toEqual(["Extra"]);
+  });
+
+  it("updates a feature's notes, links and attachments", async () => {
+    const { result } = renderHook(() => useIdeasManager());
+    await act(async () => {
+      await result.current.createProject({ title: "Docs", initialFeatures: "Outline" });
+    });
+    const project = result.current.projects[0];
+
+    await act(async () => {
+      const updated = await result.current.updateFeature(project.id, project.features[0].id, {
+        content: "Outline v2",
+        notes: "Keep it short",
+        links: [{ title: "Spec", url: "https://example.com" }],
+        attachments: ["/tmp/outline.pdf"],
+      });
+      expect(updated).not.toBeNull();
+    });
+
+    expect(result.current.projects[0].features[0]).toMatchObject({
+      id: project.features[0].id,
+      content: "Outline v2",
+      notes: "Keep it short",
+      links: [{ title: "Spec", url: "https://example.com" }],
+      attachments: ["/tmp/outline.pdf"],
+    });
+
+    await act(async () => {
+      expect(await result.current.updateFeature(project.id, project.features[0].id, { content: " " })).toBeNull();
+    });
+    expect(showToast).toHaveBeenCalledWith("failure", "Feature text cannot be empty");
+  });
+
+  it("duplicates a project with or without its features", async () => {
+    const { result } = renderHook(() => useIdeasManager());
+    await act(async () => {
+      await result.current.createProject({ title: "Original", tags: ["a"], initialFeatures: "One\nTwo" });
+    });
+    const original = result.current.projects[0];
+
+    await act(async () => {
+      await result.current.duplicateProject(original.id, true);
+    });
+    const copy = result.current.projects.find((project) => project.title === "Original (copy)");
+    expect(copy?.id).not.toBe(original.id);
+    expect(copy?.tags).toEqual(["a"]);
+    expect(copy?.features.map((feature) => feature.content)).toEqual(["One", "Two"]);
+    expect(copy?.features.map((feature) => feature.id)).not.toContain(original.features[0].id);
+
+    await act(async () => {
+      await result.current.duplicateProject(original.id, false);
+    });
+    const copies = result.current.projects.filter((project) => project.title === "Original (copy)");
+    expect(copies.map((project) => project.features.length).sort()).toEqual([0, 2]);
+
+    await act(async () => {
+      await result.current.undo();
+    });
+    expect(result.current.projects).toHaveLength(2);
+  });
+
+  it("sorts projects by the chosen mode and keeps a manual order", async () => {
+    const { result } = renderHook(() => useIdeasManager());
+    for (const title of ["Bravo", "Alpha", "Charlie"]) {
+      await act(async () => {
+        await result.current.createProject({ title });
+      });
+    }
+
+    await act(async () => {
+      await result.current.setSortMode("title");
+    });
+    expect(result.current.sortMode).toBe("title");
+    expect(result.current.projects.map((project) => project.title)).toEqual(["Alpha", "Bravo", "Charlie"]);
+    expect(showToast).toHaveBeenCalledWith("success", "Sorted by Alphabetical");
+
+    showToast.mockClear();
+    await act(async () => {
+      await result.current.setSortMode("created", { silent: true });
+    });
+    expect(result.current.sortMode).toBe("created");
+    expect(showToast).not.toHaveBeenCalled();
+
+    await act(async () => {
+      await result.current.setSortMode("manual");
+    });
+    const [first, second, third] = result.current.projects;
+    await act(async () => {
+      await result.current.moveProject(second.id, first.id);
+    });
+    expect(result.current.projects.map((project) => project.id)).toEqual([second.id, first.id, third.id]);
+  });
+
+  it("renames, merges and deletes tags across projects", async () => {
+    const { result } = renderHook(() => useIdeasManager());
+    await act(async () => {
+      await result.current.createProject({ title: "One", newTags: "UI, growth" });
+    });
+    await act(async () => {
+      await result.current.createProject({ title: "Two", tags: ["ui"] });
+    });
+    await act(async () => {
+      await result.current.setTagColor("UI", "#FCA5A5");
+    });
+    const tagsOf = (title: string) => result.current.projects.find((project) => project.title === title)?.tags;
+
+    await act(async () => {
+      await result.current.mergeProjectTags(["UI", "ui"], "design");
+    });
+    expect(tagsOf("One")).toEqual(["design", "growth"]);
+    expect(tagsOf("Two")).toEqual(["design"]);
+    expect(result.current.tagColors).toEqual({ design: "#FCA5A5" });
+
+    await act(async () => {
+      await result.current.deleteTag("growth");
+    });
+    expect(confirmAlert).toHaveBeenCalled();
+    expect(tagsOf("One")).toEqual(["design"]);
+  });
+
+  it("deletes nested tags with their parent, matching the normalized name", async () => {
+    getPreferenceValues.mockReturnValue({ tagNormalization: "lowercase" });
+    const { result } = renderHook(() => useIdeasManager());
+    await act(async () => {
+      await result.current.createProject({ title: "Client", tags: ["work/client-a", "home"] });
+    });
+
+    await act(async () => {
+      expect(await result.current.deleteTag("Work")).toBe(true);
+    });
+
+    expect(confirmAlert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        title: 'Delete tag "work"?',
+        message: "It will be removed, along with the tags nested under it, from 1 project.",
+      }),
+    );
+    expect(result.current.projects[0].tags).toEqual(["home"]);
+  });
+
+  it("normalizes stored and new tags with the configured preference", async () => {
+    getPreferenceValues.mockReturnValue({ tagNormalization: "kebab-case" });
+    __setStorageItem(IDEAS_SCHEMA_VERSION_KEY, CURRENT_SCHEMA_VERSION);
+    __setStorageItem(IDEAS_STORAGE_KEY, [
+      {
+        id: "idea-1",
+        title: "Existing",
+        tags: ["Side Project", "side project", "B2B"],
+        isPinned: false,
+        isArchived: false,
+        features: [],
+        createdAt: "2025-01-01T00:00:00.000Z",
+        updatedAt: "2025-01-01T00:00:00.000Z",
+      },
+    ]);
+    __setStorageItem(TAG_COLORS_STORAGE_KEY, { "Side Project": "#FCA5A5" });
+
+    const { result } = renderHook(() => useIdeasManager());
+    await act(async () => {});
+
+    expect(result.current.projects[0].tags).toEqual(["side-project", "b2b"]);
+    expect(result.current.projects[0].updatedAt).toBe("2025-01-01T00:00:00.000Z");
+    expect(__getStorageItem(TAG_COLORS_STORAGE_KEY)).toEqual({ "side-project": "#FCA5A5" });
+
+    await act(async () => {
+      await result.current.createProject({ title: "New", tags: ["side-project"], newTags: "Side_Project, Fresh Idea" });
+    });
+    expect(result.current.projects.find((project) => project.title === "New")?.tags).toEqual([
+      "side-project",
+      "fresh-idea",
+    ]);
+  });
+
+  it("moves deleted projects to the trash and restores them", async () => {
+    const { result } = renderHook(() => useIdeasManager());
+    await act(async () => {
+      await result.current.createProject({ title: "Trash Me", initialFeatures: "Keep this" });
+    });
+    const projectId = result.current.projects[0].id;
+
+    await act(async () => {
+      await result.current.deleteProject(projectId);
+    });
+
+    expect(result.current.projects).toHaveLength(0);
+    expect(result.current.trash).toEqual([
+      expect.objectContaining({
+        kind: "project",
+        id: projectId,
+        project: expect.objectContaining({ title: "Trash Me" }),
+      }),
+    ]);
+
+    await act(async () => {
+      expect(await result.current.restoreFromTrash(projectId)).toBe(true);
+    });
+
+    expect(result.current.projects.map((project) => project.title)).toEqual(["Trash Me"]);
+    expect(result.current.projects[0].features.map((feature) => feature.content)).toEqual(["Keep this"]);
+    expect(result.current.trash).toEqual([]);
+    expect(__getStorageItem(TRASH_STORAGE_KEY)).toEqual([]);
+
+    await act(async () => {
+      await result.current.undo();
+    });
+
+    expect(result.current.projects).toHaveLength(0);
+    expect(result.current.trash.map((item) => item.id)).toEqual([projectId]);
+
+    await act(async () => {
+      await result.current.undo();
+    });
+
+    expect(result.current.projects.map((project) => project.title)).toEqual(["Trash Me"]);
+    expect(__getStorageItem(TRASH_STORAGE_KEY)).toEqual([]);
+  });
+
+  it("restores into the stored order rather than the displayed sort", async () => {
+    __setStorageItem(SORT_MODE_STORAGE_KEY, "title");
+    const { result } = renderHook(() => useIdeasManager());
+    for (const title of ["Alpha", "Charlie", "Bravo"]) {
+      await act(async () => {
+        await result.current.createProject({ title });
+      });
+    }
+    const bravo = result.current.projects.find((project) => project.title === "Bravo");
+
+    await act(async () => {
+      await result.current.deleteProject(bravo?.id ?? "");
+    });
+    await act(async () => {
+      await result.current.restoreFromTrash(bravo?.id ?? "");
+    });
+
+    const stored = __getStorageItem(IDEAS_STORAGE_KEY) as { title: string }[];
+    expect(stored.map((project) => project.title)).toEqual(["Bravo", "Charlie", "Alpha"]);
+  });
+
+  it("drops trash entries left behind for items that are back in storage", async () => {
+    const { result } = renderHook(() => useIdeasManager());
+    await act(async () => {
+      await result.current.createProject({ title: "Restored Earlier" });
+    });
+    const project = result.current.projects[0];
+
+    __setStorageItem(TRASH_STORAGE_KEY, [
+      { kind: "project", id: project.id, deletedAt: new Date().toISOString(), project },
+    ]);
+    renderHook(() => useIdeasManager());
+    await act(async () => {});
+
+    expect(__getStorageItem(TRASH_STORAGE_KEY)).toEqual([]);
+  });
+
+  it("moves features blanked in the editor to the trash", async () => {
+    const { result } = renderHook(() => useIdeasManager());
+    await act(async () => {
+      await result.current.createProject({ title: "Editor", initialFeatures: "One\nTwo\nThree" });
+    });
+    const project = result.current.projects[0];
+
+    await act(async () => {
+      await result.current.editFeatures(project.id, ["One", "  ", "Three"]);
+    });
+
+    expect(result.current.projects[0].features.map((feature) => [feature.id, feature.content])).toEqual([
+      [project.features[0].id, "One"],
+      [project.features[2].id, "Three"],
+    ]);
+    expect(result.current.trash).toEqual([
+      expect.objectContaining({ kind: "feature", id: project.features[1].id, projectTitle: "Editor" }),
+    ]);
+
+    await act(async () => {
+      await result.current.restoreFromTrash(project.features[1].id);
+    });
+    expect(result.current.projects[0].features.map((feature) => feature.content)).toEqual(["One", "Three", "Two"]);
+  });
+
+  it("purges trash entries older than the retention period on load", async () => {
+    __setStorageItem(TRASH_STORAGE_KEY, [
+      {
+        kind: "project",
+        id: "old",
+        deletedAt: "2020-01-01T00:00:00.000Z",
+        project: { id: "old", title: "Old", tags: [], features: [], isPinned: false, isArchived: false },
+      },
+      {
+        kind: "project",
+        id: "recent",
+        deletedAt: new Date().toISOString(),
+        project: { id: "recent", title: "Recent", tags: [], features: [], isPinned: false, isArchived: false },
+      },
+    ]);
+
+    const { result } = renderHook(() => useIdeasManager());
+    await act(async () => {});
+
+    expect(result.current.trash.map((item) => item.id)).toEqual(["recent"]);
+    expect(__getStorageItem(TRASH_STORAGE_KEY)).toHaveLength(1);
+  });
+
+  it("deletes trash entries permanently after confirmation", async () => {
+    const { result } = renderHook(() => useIdeasManager());
+    await act(async () => {
+      await result.current.createProject({ title: "Gone" });
+    });
+    const projectId = result.current.projects[0].id;
+    await act(async () => {
+      await result.current.deleteProject(projectId);
+    });
+
+    await act(async () => {
+      expect(await result.current.deleteFromTrash([projectId])).toBe(true);
+    });
+
+    expect(result.current.trash).toEqual([]);
+    expect(__getStorageItem(TRASH_STORAGE_KEY)).toEqual([]);
   });
 });
@@ -1,27 +1,387 @@
-import { Alert, Toast, confirmAlert, showToast } from "@raycast/api";
-import { readFile } from "node:fs/promises";
-import { useCallback, useMemo } from "react";
+import { Alert, Toast, confirmAlert, getPreferenceValues, showToast } from "@raycast/api";
+import { mkdir, readFile, readdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { useCallback, useEffect, useMemo, useRef } from "react";
 import { useLocalStorage } from "@raycast/utils";
+import { IdeasBackup, RestoreMode, applyBackup, backupFileName, createBackup, parseBackup } from "./backup";
+import { ExportFile } from "./export";
 import {
+  ImportCandidate,
+  ImportChoice,
+  ImportFormat,
+  applyImportChoices,
+  parseImportFile,
+  previewImport,
+} from "./importers";
+import {
+  EMPTY_HISTORY,
+  HISTORY_STORAGE_KEY,
+  HistoryEntry,
+  MutationHistory,
+  applyProjectChanges,
+  diffProjects,
+  readHistory,
+  recordMutation,
+  redoMutation,
+  undoMutation,
+} from "./history";
+import {
+  CURRENT_SCHEMA_VERSION,
+  FEATURE_STATUS_LABELS,
+  FeatureDetails,
+  FeatureStatus,
+  IDEAS_MIGRATION_SNAPSHOT_KEY,
+  IDEAS_SCHEMA_VERSION_KEY,
   IDEAS_STORAGE_KEY,
+  INBOX_PROJECT_ID,
+  INITIAL_SCHEMA_VERSION,
   Idea,
+  MigrationSnapshot,
+  TagNormalization,
+  appendFeaturesToIdea,
+  applyFeatureStatus,
+  copyFeature,
   createFeaturesFromText,
   createIdea,
+  duplicateIdea,
+  ensureInbox,
+  formatAbsoluteDate,
+  isInboxIdea,
+  isTagNormalization,
   mergeFeatureBodies,
+  mergeIdeas,
+  migrateIdeas,
+  moveFeature,
   normalizeIdea,
-  parseIdeasFromMarkdown,
+  normalizeTag,
   parseTagsInput,
+  reorderFeature,
+  splitIdea,
+  updateFeatureDetails,
 } from "./ideas";
 import { ProjectFormValues } from "./project-form-types";
+import {
+  DEFAULT_SORT_MODE,
+  MANUAL_ORDER_STORAGE_KEY,
+  SORT_MODE_LABELS,
+  SORT_MODE_STORAGE_KEY,
+  SortMode,
+  isSortMode,
+  moveInOrder,
+  sortIdeas,
+} from "./sort";
+import {
+  TAG_COLORS_STORAGE_KEY,
+  TagColorOverrides,
+  isTagOrDescendant,
+  mergeTagColors,
+  mergeTags,
+  normalizeIdeaTags,
+  normalizeTagColors,
+  removeTag,
+} from "./tags";
+import {
+  TRASH_STORAGE_KEY,
+  TrashItem,
+  addToTrash,
+  parseRetentionDays,
+  purgeExpiredTrash,
+  removeFromTrash,
+  restoreTrashItem,
+  trashFeatures,
+  trashProject,
+  visibleTrash,
+} from "./trash";
+import {
+  VAULT_SYNC_STORAGE_KEY,
+  VaultConflict,
+  VaultConflictResolution,
+  VaultFile,
+  VaultSyncPlan,
+  VaultSyncState,
+  planVaultSync,
+  resolveVaultConflict as settleVaultConflict,
+} from "./vault";
+
+type Preferences = {
+  trashRetentionDays?: string;
+  tagNormalization?: string;
+  vaultFolder?: string;
+};
+
+function parseProjectTags(values: ProjectFormValues, normalization: TagNormalization): string[] {
+  return parseTagsInput([...(values.tags ?? []), values.newTags ?? ""], normalization);
+}
+
+function createProjectFromValues(
+  title: string,
+  values: ProjectFormValues,
+  timestamp: string,
+  normalization: TagNormalization,
+): Idea {
+  return createIdea({
+    title,
+    summary: values.summary,
+    tags: parseProjectTags(values, normalization),
+    features: createFeaturesFromText(values.initialFeatures),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  });
+}
 
 export function useIdeasManager() {
-  const { value: storedProjects, setValue: setProjects, isLoading } = useLocalStorage<Idea[]>(IDEAS_STORAGE_KEY, []);
+  const {
+    value: storedProjects,
+    setValue: setProjects,
+    isLoading: isProjectsLoading,
+  } = useLocalStorage<Idea[]>(IDEAS_STORAGE_KEY, []);
+  const {
+    value: schemaVersion,
+    setValue: setSchemaVersion,
+    isLoading: isSchemaVersionLoading,
+  } = useLocalStorage<number>(IDEAS_SCHEMA_VERSION_KEY);
+  const {
+    value: migrationSnapshot,
+    setValue: setMigrationSnapshot,
+    removeValue: removeMigrationSnapshot,
+  } = useLocalStorage<MigrationSnapshot>(IDEAS_MIGRATION_SNAPSHOT_KEY);
+
+  const { value: history, setValue: setHistory } = useLocalStorage<MutationHistory>(HISTORY_STORAGE_KEY, EMPTY_HISTORY);
+  // Toast actions outlive the render that created them, so undo/redo read the journal and the projects they patch
+  // through refs.
+  const historyRef = useRef<MutationHistory>(EMPTY_HISTORY);
+  historyRef.current = readHistory(history);
+  const storedProjectsRef = useRef<Idea[]>([]);
+  storedProjectsRef.current = storedProjects ?? [];
+
+  // Journal entries describe projects in the current schema, so anything that rewrites storage wholesale clears them.
+  const clearHistory = useCallback(async () => {
+    historyRef.current = EMPTY_HISTORY;
+    await setHistory(EMPTY_HISTORY);
+  }, [setHistory]);
+
+  const isLoading = isProjectsLoading || isSchemaVersionLoading;
+  const storedSchemaVersion = schemaVersion ?? INITIAL_SCHEMA_VERSION;
+
+  const isMigratingRef = useRef(false);
+
+  useEffect(() => {
+    if (isLoading || isMigratingRef.current || storedSchemaVersion >= CURRENT_SCHEMA_VERSION) {
+      return;
+    }
+
+    isMigratingRef.current = true;
+    const existing = storedProjects ?? [];
+    const migrated = migrateIdeas(existing, storedSchemaVersion);
+    void (async () => {
+      if (existing.length > 0) {
+        await setMigrationSnapshot({
+          version: storedSchemaVersion,
+          takenAt: new Date().toISOString(),
+          ideas: existing,
+        });
+      }
+      await setProjects(migrated.ideas.map(normalizeIdea));
+      await setSchemaVersion(migrated.version);
+      await clearHistory();
+      isMigratingRef.current = false;
+    })();
+  }, [
+    isLoading,
+    storedSchemaVersion,
+    storedProjects,
+    clearHistory,
+    setMigrationSnapshot,
+    setProjects,
+    setSchemaVersion,
+  ]);
+
+  const { value: storedSortMode, setValue: setStoredSortMode } = useLocalStorage<SortMode>(
+    SORT_MODE_STORAGE_KEY,
+    DEFAULT_SORT_MODE,
+  );
+  const { value: manualOrder, setValue: setManualOrder } = useLocalStorage<string[]>(MANUAL_ORDER_STORAGE_KEY, []);
+  const sortMode = isSortMode(storedSortMode) ? storedSortMode : DEFAULT_SORT_MODE;
 
   const projects = useMemo(() => {
-    return [...(storedProjects ?? []).map(normalizeIdea)].sort(
-      (a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime(),
-    );
-  }, [storedProjects]);
+    return sortIdeas((storedProjects ?? []).map(normalizeIdea), sortMode, manualOrder);
+  }, [manualOrder, sortMode, storedProjects]);
+
+  const {
+    value: storedTrash,
+    setValue: setTrash,
+    isLoading: isTrashLoading,
+  } = useLocalStorage<TrashItem[]>(TRASH_STORAGE_KEY, []);
+  const preferences = getPreferenceValues<Preferences>();
+  const trashRetentionDays = parseRetentionDays(preferences.trashRetentionDays);
+  const tagNormalization: TagNormalization = isTagNormalization(preferences.tagNormalization)
+    ? preferences.tagNormalization
+    : "none";
+
+  useEffect(() => {
+    if (isLoading || isTrashLoading || !storedTrash) {
+      return;
+    }
+    const purged = visibleTrash(purgeExpiredTrash(storedTrash, trashRetentionDays), storedProjects ?? []);
+    if (purged.length !== storedTrash.length) {
+      void setTrash(purged);
+    }
+  }, [isLoading, isTrashLoading, storedProjects, storedTrash, trashRetentionDays, setTrash]);
+
+  const {
+    value: storedTagColors,
+    setValue: setTagColors,
+    isLoading: isTagColorsLoading,
+  } = useLocalStorage<TagColorOverrides>(TAG_COLORS_STORAGE_KEY, {});
+  const tagColors = useMemo(() => storedTagColors ?? {}, [storedTagColors]);
+
+  // Existing tags are brought in line with the normalization preference once storage is migrated.
+  const isNormalizingTagsRef = useRef(false);
+
+  useEffect(() => {
+    if (
+      isLoading ||
+      isTagColorsLoading ||
+      isNormalizingTagsRef.current ||
+      tagNormalization === "none" ||
+      storedSchemaVersion < CURRENT_SCHEMA_VERSION
+    ) {
+      return;
+    }
+
+    const normalized = normalizeIdeaTags((storedProjects ?? []).map(normalizeIdea), tagNormalization);
+    if (!normalized) {
+      return;
+    }
+
+    isNormalizingTagsRef.current = true;
+    void (async () => {
+      await setProjects(normalized);
+      await setTagColors(normalizeTagColors(tagColors, tagNormalization));
+      isNormalizingTagsRef.current = false;
+    })();
+  }, [
+    isLoading,
+    isTagColorsLoading,
+    storedProjects,
+    storedSchemaVersion,
+    tagColors,
+    tagNormalization,
+    setProjects,
+    setTagColors,
+  ]);
+
+  const inbox = useMemo(() => projects.find(isInboxIdea), [projects]);
+
+  const trash = useMemo(() => visibleTrash(storedTrash ?? [], projects), [storedTrash, projects]);
+  // Like the journal below, undo/redo can run from a stale toast action, so trash edits go through a ref.
+  const trashRef = useRef<TrashItem[]>([]);
+  trashRef.current = storedTrash ?? [];
+
+  const updateTrash = useCallback(
+    async (added: TrashItem[] = [], removed: TrashItem[] = []) => {
+      if (added.length === 0 && removed.length === 0) {
+        return;
+      }
+      const removedIds = removed.map((item) => item.id);
+      const next = addToTrash(removeFromTrash(trashRef.current, removedIds), added);
+      trashRef.current = next;
+      await setTrash(next);
+    },
+    [setTrash],
+  );
+
+  const commitProjects = useCallback(
+    async (next: Idea[], label: string, trashChanges: Pick<HistoryEntry, "trashAdded" | "trashRemoved"> = {}) => {
+      const nextHistory = recordMutation(historyRef.current, {
+        label,
+        timestamp: new Date().toISOString(),
+        changes: diffProjects(storedProjects ?? [], next),
+        ...trashChanges,
+      });
+      await setProjects(next);
+      storedProjectsRef.current = next;
+      await updateTrash(trashChanges.trashAdded, trashChanges.trashRemoved);
+      historyRef.current = nextHistory;
+      await setHistory(nextHistory);
+    },
+    [setHistory, setProjects, storedProjects, updateTrash],
+  );
+
+  const undo = useCallback(async (): Promise<boolean> => {
+    const result = undoMutation(historyRef.current);
+    if (!result) {
+      await showToast(Toast.Style.Failure, "Nothing to undo");
+      return false;
+    }
+
+    const next = applyProjectChanges(storedProjectsRef.current, result.entry.changes, "undo");
+    await setProjects(next);
+    storedProjectsRef.current = next;
+    await updateTrash(result.entry.trashRemoved, result.entry.trashAdded);
+    historyRef.current = result.history;
+    await setHistory(result.history);
+    await showToast(Toast.Style.Success, "Undone", result.entry.label);
+    return true;
+  }, [setHistory, setProjects, updateTrash]);
+
+  const redo = useCallback(async (): Promise<boolean> => {
+    const result = redoMutation(historyRef.current);
+    if (!result) {
+      await showToast(Toast.Style.Failure, "Nothing to redo");
+      return false;
+    }
+
+    const next = applyProjectChanges(storedProjectsRef.current, result.entry.changes, "redo");
+    await setProjects(next);
+    storedProjectsRef.current = next;
+    await updateTrash(result.entry.trashAdded, result.entry.trashRemoved);
+    historyRef.current = result.history;
+    await setHistory(result.history);
+    await showToast(Toast.Style.Success, "Redone", result.entry.label);
+    return true;
+  }, [setHistory, setProjects, updateTrash]);
+
+  const showUndoableToast = useCallback(
+    async (title: string, message?: string) => {
+      await showToast({
+        style: Toast.Style.Success,
+        title,
+        message,
+        primaryAction: {
+          title: "Undo",
+          shortcut: { modifiers: ["cmd"], key: "z" },
+          onAction: () => void undo(),
+        },
+      });
+    },
+    [undo],
+  );
+
+  // Saved views apply their sort silently; the toast confirms only an explicit sort change.
+  const setSortMode = useCallback(
+    async (mode: SortMode, options: { silent?: boolean } = {}) => {
+      await setStoredSortMode(mode);
+      if (!options.silent) {
+        await showToast(Toast.Style.Success, `Sorted by ${SORT_MODE_LABELS[mode]}`);
+      }
+    },
+    [setStoredSortMode],
+  );
+
+  // Manual order is a view preference rather than project data, so it stays out of the undo journal.
+  const moveProject = useCallback(
+    async (projectId: string, targetId: string) => {
+      await setManualOrder(
+        moveInOrder(
+          projects.map((project) => project.id),
+          projectId,
+          targetId,
+        ),
+      );
+    },
+    [projects, setManualOrder],
+  );
 
   const createProject = useCallback(
     async (values: ProjectFormValues): Promise<Idea | null> => {
@@ -31,28 +391,18 @@ export function useIdeasManager() {
         return null;
       }
 
-      const now = new Date().toISOString();
-      const tags = parseTagsInput(values.tags);
-      const features = createFeaturesFromText(values.initialFeatures);
-      const nextProject = createIdea({
-        title,
-        summary: values.summary,
-        tags,
-        features,
-        createdAt: now,
-        updatedAt: now,
-      });
+      const nextProject = createProjectFromValues(title, values, new Date().toISOString(), tagNormalization);
 
       try {
-        await setProjects([nextProject, ...(storedProjects ?? [])]);
-        await showToast(Toast.Style.Success, "Project added", title);
+        await commitProjects([nextProject, ...(storedProjects ?? [])], "Project added");
+        await showUndoableToast("Project added", title);
         return normalizeIdea(nextProject);
       } catch (error) {
         await showToast(Toast.Style.Failure, "Failed to add project", String(error));
         return null;
       }
     },
-    [setProjects, storedProjects],
+    [commitProjects, showUndoableToast, storedProjects, tagNormalization],
   );
 
   const updateProject = useCallback(
@@ -63,7 +413,7 @@ export function useIdeasManager() {
         return null;
       }
 
-      const tags = parseTagsInput(values.tags);
+      const tags = parseProjectTags(values, tagNormalization);
       const now = new Date().toISOString();
 
       const updated = (storedProjects ?? []).map((project) => {
@@ -79,12 +429,12 @@ export function useIdeasManager() {
         };
       });
 
-      await setProjects(updated);
-      await showToast(Toast.Style.Success, "Project updated");
+      await commitProjects(updated, "Project updated");
+      await showUndoableToast("Project updated");
       const updatedProject = updated.find((project) => project.id === projectId);
       return updatedProject ? normalizeIdea(updatedProject) : null;
     },
-    [setProjects, storedProjects],
+    [commitProjects, showUndoableToast, storedProjects, tagNormalization],
   );
 
   const appendFeature = useCallback(
@@ -95,7 +445,7 @@ export function useIdeasManager() {
         return null;
       }
 
-      const existing = storedProjects ?? [];
+      const existing = projectId === INBOX_PROJECT_ID ? ensureInbox(storedProjects ?? []) : (storedProjects ?? []);
       const project = existing.find((item) => item.id === projectId);
       if (!project) {
         await showToast(Toast.Style.Failure, "Project not found");
@@ -107,34 +457,70 @@ export function useIdeasManager() {
         return null;
       }
 
-      const now = new Date().toISOString();
-      const newFeatures = createFeaturesFromText(trimmed, { timestamp: now });
-      if (newFeatures.length === 0) {
+      const updatedProjects = existing.map((item) =>
+        item.id === projectId ? appendFeaturesToIdea(normalizeIdea(item), trimmed) : item,
+      );
+
+      await commitProjects(updatedProjects, "Feature appended");
+      await showUndoableToast("Feature appended");
+      const updatedProject = updatedProjects.find((item) => item.id === projectId);
+      return updatedProject ? normalizeIdea(updatedProject) : null;
+    },
+    [commitProjects, showUndoableToast, storedProjects],
+  );
+
+  const editFeatures = useCallback(
+    async (projectId: string, featureBodies: string[]): Promise<Idea | null> => {
+      const existing = storedProjects ?? [];
+      const project = existing.find((item) => item.id === projectId);
+      if (!project) {
+        await showToast(Toast.Style.Failure, "Project not found");
         return null;
       }
 
+      if (project.isArchived) {
+        await showToast(Toast.Style.Failure, "Project is archived");
+        return null;
+      }
+
+      const now = new Date().toISOString();
+      const updatedFeatures = mergeFeatureBodies(project.features, featureBodies, { timestamp: now });
+      const hasChanges =
+        updatedFeatures.length !== project.features.length ||
+        updatedFeatures.some(
+          (feature, index) =>
+            project.features[index]?.id !== feature.id || project.features[index]?.content !== feature.content,
+        );
+      const keptIds = new Set(updatedFeatures.map((feature) => feature.id));
+      const removedFeatures = normalizeIdea(project).features.filter((feature) => !keptIds.has(feature.id));
       const updatedProjects = existing.map((item) => {
         if (item.id !== projectId) {
           return item;
         }
-
         return {
           ...item,
-          features: [...item.features, ...newFeatures],
-          updatedAt: now,
+          features: updatedFeatures,
+          updatedAt: hasChanges ? now : item.updatedAt,
         };
       });
 
-      await setProjects(updatedProjects);
-      await showToast(Toast.Style.Success, "Feature appended");
+      await commitProjects(updatedProjects, "Features updated", {
+        trashAdded: trashFeatures(normalizeIdea(project), removedFeatures, now),
+      });
+      await showUndoableToast(
+        "Features updated",
+        removedFeatures.length > 0
+          ? `${removedFeatures.length} feature${removedFeatures.length === 1 ? "" : "s"} moved to trash`
+          : undefined,
+      );
       const updatedProject = updatedProjects.find((item) => item.id === projectId);
       return updatedProject ? normalizeIdea(updatedProject) : null;
     },
-    [setProjects, storedProjects],
+    [commitProjects, showUndoableToast, storedProjects],
   );
 
-  const editFeatures = useCallback(
-    async (projectId: string, featureBodies: string[]): Promise<Idea | null> => {
+  const setFeatureStatus = useCallback(
+    async (projectId: string, featureId: string, status: FeatureStatus): Promise<Idea | null> => {
       const existing = storedProjects ?? [];
       const project = existing.find((item) => item.id === projectId);
       if (!project) {
@@ -147,28 +533,68 @@ export function useIdeasManager() {
         return null;
       }
 
+      const feature = normalizeIdea(project).features.find((item) => item.id === featureId);
+      if (!feature) {
+        await showToast(Toast.Style.Failure, "Feature not found");
+        return null;
+      }
+
       const now = new Date().toISOString();
-      const updatedFeatures = mergeFeatureBodies(project.features, featureBodies, { timestamp: now });
-      const hasChanges =
-        updatedFeatures.length !== project.features.length ||
-        updatedFeatures.some((feature, index) => project.features[index]?.content !== feature.content);
       const updatedProjects = existing.map((item) => {
         if (item.id !== projectId) {
           return item;
         }
         return {
           ...item,
-          features: updatedFeatures,
-          updatedAt: hasChanges ? now : item.updatedAt,
+          features: normalizeIdea(item).features.map((entry) =>
+            entry.id === featureId ? applyFeatureStatus(entry, status, now) : entry,
+          ),
+          updatedAt: now,
         };
       });
 
-      await setProjects(updatedProjects);
-      await showToast(Toast.Style.Success, "Features updated");
+      const label = `Marked as ${FEATURE_STATUS_LABELS[status]}`;
+      await commitProjects(updatedProjects, label);
+      await showUndoableToast(label, feature.content);
       const updatedProject = updatedProjects.find((item) => item.id === projectId);
       return updatedProject ? normalizeIdea(updatedProject) : null;
     },
-    [setProjects, storedProjects],
+    [commitProjects, showUndoableToast, storedProjects],
+  );
+
+  const updateFeature = useCallback(
+    async (projectId: string, featureId: string, details: FeatureDetails): Promise<Idea | null> => {
+      const existing = storedProjects ?? [];
+      const project = existing.find((item) => item.id === projectId);
+      if (!project) {
+        await showToast(Toast.Style.Failure, "Project not found");
+        return null;
+      }
+
+      if (project.isArchived) {
+        await showToast(Toast.Style.Failure, "Project is archived");
+        return null;
+      }
+
+      if (!details.content.trim()) {
+        await showToast(Toast.Style.Failure, "Feature text cannot be empty");
+        return null;
+      }
+
+      const updatedProject = updateFeatureDetails(normalizeIdea(project), featureId, details);
+      if (!updatedProject) {
+        await showToast(Toast.Style.Failure, "Feature not found");
+        return null;
+      }
+
+      await commitProjects(
+        existing.map((item) => (item.id === projectId ? updatedProject : item)),
+        "Feature updated",
+      );
+      await showUndoableToast("Feature updated", details.content.trim());
+      return updatedProject;
+    },
+    [commitProjects, showUndoableToast, storedProjects],
   );
 
   const togglePin = useCallback(
@@ -186,14 +612,20 @@ export function useIdeasManager() {
         };
       });
 
-      await setProjects(updated);
-      await showToast(Toast.Style.Success, pin ? "Project pinned" : "Project unpinned");
+      const label = pin ? "Project pinned" : "Project unpinned";
+      await commitProjects(updated, label);
+      await showUndoableToast(label);
     },
-    [setProjects, storedProjects],
+    [commitProjects, showUndoableToast, storedProjects],
   );
 
   const toggleArchive = useCallback(
     async (projectId: string, archive: boolean) => {
+      if (archive && projectId === INBOX_PROJECT_ID) {
+        await showToast(Toast.Style.Failure, "The Inbox cannot be archived");
+        return;
+      }
+
       const now = new Date().toISOString();
       const updated = (storedProjects ?? []).map((item) => {
         if (item.id !== projectId) {
@@ -207,79 +639,658 @@ export function useIdeasManager() {
         };
       });
 
-      await setProjects(updated);
-      await showToast(Toast.Style.Success, archive ? "Project archived" : "Project restored");
+      const label = archive ? "Project archived" : "Project restored";
+      await commitProjects(updated, label);
+      await showUndoableToast(label);
     },
-    [setProjects, storedProjects],
+    [commitProjects, showUndoableToast, storedProjects],
   );
 
   const deleteProject = useCallback(
     async (projectId: string) => {
+      if (projectId === INBOX_PROJECT_ID) {
+        await showToast(Toast.Style.Failure, "The Inbox cannot be deleted", "Triage or discard its features instead.");
+        return;
+      }
+
+      const project = (storedProjects ?? []).find((item) => item.id === projectId);
+      if (!project) {
+        await showToast(Toast.Style.Failure, "Project not found");
+        return;
+      }
+
       const confirmed = await confirmAlert({
-        title: "Delete project?",
-        message: "This will permanently remove the project and all captured features.",
-        primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+        title: "Move project to trash?",
+        message:
+          trashRetentionDays > 0
+            ? `You can restore it from View Trash for ${trashRetentionDays} days.`
+            : "You can restore it from View Trash until you delete it there.",
+        primaryAction: { title: "Move to Trash", style: Alert.ActionStyle.Destructive },
       });
 
       if (!confirmed) {
         return;
       }
 
+      const now = new Date().toISOString();
       const next = (storedProjects ?? []).filter((item) => item.id !== projectId);
-      await setProjects(next);
-      await showToast(Toast.Style.Success, "Project deleted");
+      await commitProjects(next, "Project moved to trash", { trashAdded: [trashProject(normalizeIdea(project), now)] });
+      await showUndoableToast("Project moved to trash", project.title);
+    },
+    [commitProjects, showUndoableToast, storedProjects, trashRetentionDays],
+  );
+
+  const moveFeatureToProject = useCallback(
+    async (fromProjectId: string, featureId: string, toProjectId: string): Promise<Idea | null> => {
+      const existing = (storedProjects ?? []).map(normalizeIdea);
+      const source = existing.find((item) => item.id === fromProjectId);
+      const target = existing.find((item) => item.id === toProjectId);
+      if (!source || !target) {
+        await showToast(Toast.Style.Failure, "Project not found");
+        return null;
+      }
+
+      if (source.isArchived || target.isArchived) {
+        await showToast(Toast.Style.Failure, "Project is archived");
+        return null;
+      }
+
+      const moved = moveFeature(existing, fromProjectId, featureId, toProjectId);
+      if (!moved) {
+        await showToast(Toast.Style.Failure, "Feature not found");
+        return null;
+      }
+
+      await commitProjects(moved, "Feature moved");
+      await showUndoableToast("Feature moved", `To ${target.title}`);
+      return moved.find((item) => item.id === toProjectId) ?? null;
+    },
+    [commitProjects, showUndoableToast, storedProjects],
+  );
+
+  const copyFeatureToProject = useCallback(
+    async (fromProjectId: string, featureId: string, toProjectId: string): Promise<Idea | null> => {
+      const existing = (storedProjects ?? []).map(normalizeIdea);
+      const target = existing.find((item) => item.id === toProjectId);
+      if (!target) {
+        await showToast(Toast.Style.Failure, "Project not found");
+        return null;
+      }
+
+      if (target.isArchived) {
+        await showToast(Toast.Style.Failure, "Project is archived");
+        return null;
+      }
+
+      const copied = copyFeature(existing, fromProjectId, featureId, toProjectId);
+      if (!copied) {
+        await showToast(Toast.Style.Failure, "Feature not found");
+        return null;
+      }
+
+      await commitProjects(copied, "Feature copied");
+      await showUndoableToast("Feature copied", `To ${target.title}`);
+      return copied.find((item) => item.id === toProjectId) ?? null;
+    },
+    [commitProjects, showUndoableToast, storedProjects],
+  );
+
+  const moveFeatureWithinProject = useCallback(
+    async (projectId: string, featureId: string, offset: number): Promise<Idea | null> => {
+      const existing = storedProjects ?? [];
+      const project = existing.find((item) => item.id === projectId);
+      if (!project) {
+        await showToast(Toast.Style.Failure, "Project not found");
+        return null;
+      }
+
+      if (project.isArchived) {
+        await showToast(Toast.Style.Failure, "Project is archived");
+        return null;
+      }
+
+      const reordered = reorderFeature(normalizeIdea(project), featureId, offset);
+      if (!reordered) {
+        return null;
+      }
+
+      // Reordering is too small to warrant a toast, but it still lands in the undo journal.
+      await commitProjects(
+        existing.map((item) => (item.id === projectId ? reordered : item)),
+        offset < 0 ? "Feature moved up" : "Feature moved down",
+      );
+      return reordered;
+    },
+    [commitProjects, storedProjects],
+  );
+
+  const promoteFeature = useCallback(
+    async (fromProjectId: string, featureId: string, values: ProjectFormValues): Promise<Idea | null> => {
+      const title = values.title?.trim();
+      if (!title) {
+        await showToast(Toast.Style.Failure, "Project name is required");
+        return null;
+      }
+
+      const existing = storedProjects ?? [];
+      const source = existing.find((item) => item.id === fromProjectId);
+      if (!source || !normalizeIdea(source).features.some((feature) => feature.id === featureId)) {
+        await showToast(Toast.Style.Failure, "Feature not found");
+        return null;
+      }
+
+      const now = new Date().toISOString();
+      const nextProject = createProjectFromValues(title, values, now, tagNormalization);
+      const updatedProjects = existing.map((item) =>
+        item.id === fromProjectId
+          ? { ...item, features: item.features.filter((feature) => feature.id !== featureId), updatedAt: now }
+          : item,
+      );
+
+      await commitProjects([nextProject, ...updatedProjects], "Feature promoted to project");
+      await showUndoableToast("Feature promoted to project", title);
+      return normalizeIdea(nextProject);
+    },
+    [commitProjects, showUndoableToast, storedProjects, tagNormalization],
+  );
+
+  const discardFeature = useCallback(
+    async (projectId: string, featureId: string): Promise<boolean> => {
+      const existing = storedProjects ?? [];
+      const project = existing.find((item) => item.id === projectId);
+      const feature = project ? normalizeIdea(project).features.find((item) => item.id === featureId) : undefined;
+      if (!project || !feature) {
+        await showToast(Toast.Style.Failure, "Feature not found");
+        return false;
+      }
+
+      const now = new Date().toISOString();
+      const updatedProjects = existing.map((item) =>
+        item.id === projectId
+          ? { ...item, features: item.features.filter((entry) => entry.id !== featureId), updatedAt: now }
+          : item,
+      );
+
+      await commitProjects(updatedProjects, "Feature moved to trash", {
+        trashAdded: trashFeatures(normalizeIdea(project), [feature], now),
+      });
+      await showUndoableToast("Feature moved to trash", feature.content);
+      return true;
+    },
+    [commitProjects, showUndoableToast, storedProjects],
+  );
+
+  const mergeProjects = useCallback(
+    async (sourceId: string, targetId: string): Promise<Idea | null> => {
+      const existing = (storedProjects ?? []).map(normalizeIdea);
+      const source = existing.find((item) => item.id === sourceId);
+      const target = existing.find((item) => item.id === targetId);
+      if (!source || !target || sourceId === targetId) {
+        await showToast(Toast.Style.Failure, "Project not found");
+        return null;
+      }
+
+      if (sourceId === INBOX_PROJECT_ID) {
+        await showToast(Toast.Style.Failure, "The Inbox cannot be merged", "Triage its features instead.");
+        return null;
+      }
+
+      const merged = mergeIdeas(target, source);
+      const updatedProjects = existing
+        .filter((item) => item.id !== sourceId)
+        .map((item) => (item.id === targetId ? merged : item));
+
+      await commitProjects(updatedProjects, "Projects merged");
+      await showUndoableToast("Projects merged", `${source.title} → ${target.title}`);
+      return merged;
+    },
+    [commitProjects, showUndoableToast, storedProjects],
+  );
+
+  const splitProject = useCallback(
+    async (projectId: string, featureIds: string[], title: string): Promise<Idea | null> => {
+      const existing = storedProjects ?? [];
+      const project = existing.find((item) => item.id === projectId);
+      if (!project) {
+        await showToast(Toast.Style.Failure, "Project not found");
+        return null;
+      }
+
+      if (!title.trim()) {
+        await showToast(Toast.Style.Failure, "Project name is required");
+        return null;
+      }
+
+      const result = splitIdea(normalizeIdea(project), featureIds, { title });
+      if (!result) {
+        await showToast(Toast.Style.Failure, "Select at least one feature");
+        return null;
+      }
+
+      await commitProjects(
+        [result.created, ...existing.map((item) => (item.id === projectId ? result.original : item))],
+        "Project split",
+      );
+      const count = result.created.features.length;
+      await showUndoableToast(
+        "Project split",
+        `${count} feature${count === 1 ? "" : "s"} moved to ${result.created.title}`,
+      );
+      return result.created;
     },
-    [setProjects, storedProjects],
+    [commitProjects, showUndoableToast, storedProjects],
   );
 
-  const importProjectsFromMarkdown = useCallback(
-    async (filePath: string): Promise<number> => {
+  const duplicateProject = useCallback(
+    async (projectId: string, includeFeatures: boolean): Promise<Idea | null> => {
+      const existing = storedProjects ?? [];
+      const project = existing.find((item) => item.id === projectId);
+      if (!project) {
+        await showToast(Toast.Style.Failure, "Project not found");
+        return null;
+      }
+
+      const duplicate = duplicateIdea(normalizeIdea(project), { includeFeatures });
+      await commitProjects([duplicate, ...existing], "Project duplicated");
+      await showUndoableToast("Project duplicated", duplicate.title);
+      return duplicate;
+    },
+    [commitProjects, showUndoableToast, storedProjects],
+  );
+
+  // Tag edits run against normalized tags so they also reach projects the normalization pass has not rewritten yet.
+  const tagEditProjects = useMemo(() => {
+    const existing = storedProjects ?? [];
+    return normalizeIdeaTags(existing.map(normalizeIdea), tagNormalization) ?? existing;
+  }, [storedProjects, tagNormalization]);
+
+  const mergeProjectTags = useCallback(
+    async (sources: string[], target: string): Promise<boolean> => {
+      const nextTag = normalizeTag(target, tagNormalization);
+      if (!nextTag) {
+        await showToast(Toast.Style.Failure, "Tag name is required");
+        return false;
+      }
+
+      const replaced = Array.from(new Set(sources.map((tag) => normalizeTag(tag, tagNormalization) || tag))).filter(
+        (tag) => tag !== nextTag,
+      );
+      if (replaced.length === 0) {
+        return true;
+      }
+
+      const label =
+        replaced.length === 1 && sources.length === 1
+          ? `Renamed tag to ${nextTag}`
+          : `Merged ${replaced.length} tags into ${nextTag}`;
+      await commitProjects(mergeTags(tagEditProjects, replaced, nextTag), label);
+      await setTagColors(mergeTagColors(tagColors, replaced, nextTag));
+      await showUndoableToast(label);
+      return true;
+    },
+    [commitProjects, setTagColors, showUndoableToast, tagColors, tagEditProjects, tagNormalization],
+  );
+
+  const deleteTag = useCallback(
+    async (tagName: string): Promise<boolean> => {
+      const tag = normalizeTag(tagName, tagNormalization) || tagName;
+      const count = tagEditProjects.filter((project) =>
+        project.tags.some((item) => isTagOrDescendant(item, tag)),
+      ).length;
+      const confirmed = await confirmAlert({
+        title: `Delete tag "${tag}"?`,
+        message: `It will be removed, along with the tags nested under it, from ${count} project${count === 1 ? "" : "s"}.`,
+        primaryAction: { title: "Delete Tag", style: Alert.ActionStyle.Destructive },
+      });
+      if (!confirmed) {
+        return false;
+      }
+
+      await commitProjects(removeTag(tagEditProjects, tag), `Deleted tag ${tag}`);
+      await setTagColors(mergeTagColors(tagColors, [tag], ""));
+      await showUndoableToast(`Deleted tag ${tag}`);
+      return true;
+    },
+    [commitProjects, setTagColors, showUndoableToast, tagColors, tagEditProjects, tagNormalization],
+  );
+
+  const setTagColor = useCallback(
+    async (tag: string, color?: string) => {
+      const next = { ...tagColors };
+      if (color) {
+        next[tag] = color;
+      } else {
+        delete next[tag];
+      }
+      await setTagColors(next);
+    },
+    [setTagColors, tagColors],
+  );
+
+  const restoreFromTrash = useCallback(
+    async (itemId: string): Promise<boolean> => {
+      const item = trash.find((entry) => entry.id === itemId);
+      if (!item) {
+        await showToast(Toast.Style.Failure, "Item not found in trash");
+        return false;
+      }
+
+      const restored = restoreTrashItem(storedProjects ?? [], item);
+      if (!restored) {
+        await showToast(
+          Toast.Style.Failure,
+          "Restore the project first",
+          item.kind === "feature" ? item.projectTitle : "",
+        );
+        return false;
+      }
+
+      const label = item.kind === "project" ? "Project restored from trash" : "Feature restored from trash";
+      await commitProjects(restored, label, { trashRemoved: [item] });
+      await showUndoableToast(label, item.kind === "project" ? item.project.title : item.feature.content);
+      return true;
+    },
+    [commitProjects, showUndoableToast, storedProjects, trash],
+  );
+
+  const deleteFromTrash = useCallback(
+    async (itemIds: string[]): Promise<boolean> => {
+      if (itemIds.length === 0) {
+        return false;
+      }
+
+      const confirmed = await confirmAlert({
+        title: itemIds.length === 1 ? "Delete permanently?" : `Delete ${itemIds.length} items permanently?`,
+        message: "This cannot be undone.",
+        primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+      });
+      if (!confirmed) {
+        return false;
+      }
+
+      await updateTrash(
+        [],
+        trashRef.current.filter((item) => itemIds.includes(item.id)),
+      );
+      await showToast(Toast.Style.Success, itemIds.length === 1 ? "Deleted permanently" : "Trash emptied");
+      return true;
+    },
+    [updateTrash],
+  );
+
+  // The format is detected from the extension and contents unless the caller picks one. Nothing is saved until the
+  // preview's choices come back through `importProjects`.
+  const readImportFile = useCallback(
+    async (filePath: string, format?: ImportFormat): Promise<ImportCandidate[]> => {
       try {
-        const markdown = await readFile(filePath, "utf8");
-        const parsed = parseIdeasFromMarkdown(markdown);
+        const contents = await readFile(filePath, "utf8");
+        const parsed = parseImportFile(filePath, contents, format).projects;
         if (parsed.length === 0) {
           await showToast(Toast.Style.Failure, "No projects found in file");
-          return 0;
+          return [];
         }
-        const now = new Date().toISOString();
-        const importedProjects = parsed.map((project) => {
-          const features =
-            project.features.length > 0 ? createFeaturesFromText(project.features.join("\n"), { timestamp: now }) : [];
-          return createIdea({
-            title: project.title,
-            features,
-            createdAt: now,
-            updatedAt: now,
-          });
-        });
-
-        await setProjects([...importedProjects, ...(storedProjects ?? [])]);
-        const count = importedProjects.length;
-        await showToast(
-          Toast.Style.Success,
-          `Imported ${count} project${count === 1 ? "" : "s"}`,
-          count === 1 ? importedProjects[0]?.title : undefined,
-        );
-        return count;
+        return previewImport(parsed, storedProjects ?? []);
       } catch (error) {
         await showToast(Toast.Style.Failure, "Failed to import projects", String(error));
+        return [];
+      }
+    },
+    [storedProjects],
+  );
+
+  const importProjects = useCallback(
+    async (choices: ImportChoice[]): Promise<number> => {
+      const { ideas, created, merged } = applyImportChoices(storedProjects ?? [], choices);
+      const count = created.length + merged.length;
+      if (count === 0) {
+        await showToast(Toast.Style.Failure, "Nothing to import", "Every project was skipped or already up to date");
         return 0;
       }
+
+      const parts = [
+        created.length > 0 ? `Imported ${created.length} project${created.length === 1 ? "" : "s"}` : undefined,
+        merged.length > 0 ? `Merged ${merged.length} project${merged.length === 1 ? "" : "s"}` : undefined,
+      ].filter((part): part is string => Boolean(part));
+      const label = parts.join(", ");
+      await commitProjects(ideas, label);
+      await showUndoableToast(label, count === 1 ? (created[0] ?? merged[0])?.title : undefined);
+      return count;
     },
-    [setProjects, storedProjects],
+    [commitProjects, showUndoableToast, storedProjects],
   );
 
+  const writeBackup = useCallback(
+    async (folderPath: string, tagFilter?: string): Promise<string | null> => {
+      try {
+        const backup = createBackup(storedProjects ?? [], { tagFilter });
+        const filePath = path.join(folderPath, backupFileName(backup.exportedAt));
+        await writeFile(filePath, JSON.stringify(backup, null, 2), "utf8");
+        const count = backup.ideas.length;
+        await showToast(Toast.Style.Success, `Backed up ${count} project${count === 1 ? "" : "s"}`, filePath);
+        return filePath;
+      } catch (error) {
+        await showToast(Toast.Style.Failure, "Failed to write backup", String(error));
+        return null;
+      }
+    },
+    [storedProjects],
+  );
+
+  // Returns the single written file, or the subfolder when an export produced one file per project.
+  const writeExport = useCallback(async (folderPath: string, files: ExportFile[]): Promise<string | null> => {
+    if (files.length === 0) {
+      await showToast(Toast.Style.Failure, "Nothing to export");
+      return null;
+    }
+
+    try {
+      const filePaths = files.map((file) => path.join(folderPath, file.fileName));
+      for (const [index, filePath] of filePaths.entries()) {
+        await mkdir(path.dirname(filePath), { recursive: true });
+        await writeFile(filePath, files[index].contents, "utf8");
+      }
+      const target = filePaths.length === 1 ? filePaths[0] : path.dirname(filePaths[0]);
+      await showToast(Toast.Style.Success, `Exported ${files.length} file${files.length === 1 ? "" : "s"}`, target);
+      return target;
+    } catch (error) {
+      await showToast(Toast.Style.Failure, "Failed to export projects", String(error));
+      return null;
+    }
+  }, []);
+
+  const { value: vaultSyncState, setValue: setVaultSyncState } =
+    useLocalStorage<VaultSyncState>(VAULT_SYNC_STORAGE_KEY);
+
+  // Only top-level `.md` files are read; notes without a frontmatter `id` are left untouched.
+  const syncVault = useCallback(
+    async (folderPath: string): Promise<VaultSyncPlan | null> => {
+      try {
+        const entries = await readdir(folderPath, { withFileTypes: true });
+        const files: VaultFile[] = [];
+        for (const entry of entries) {
+          if (entry.isFile() && entry.name.toLowerCase().endsWith(".md")) {
+            files.push({ fileName: entry.name, contents: await readFile(path.join(folderPath, entry.name), "utf8") });
+          }
+        }
+
+        const plan = planVaultSync((storedProjects ?? []).map(normalizeIdea), files, vaultSyncState, folderPath);
+        // Store pulled projects before recording them as synced, so a failed commit pulls them again next time.
+        if (plan.pulled.length > 0) {
+          const count = plan.pulled.length;
+          await commitProjects(plan.ideas, `Pulled ${count} project${count === 1 ? "" : "s"} from vault`);
+        }
+        for (const file of plan.writes) {
+          await writeFile(path.join(folderPath, file.fileName), file.contents, "utf8");
+        }
+        await setVaultSyncState(plan.state);
+
+        const conflictCount = plan.conflicts.length;
+        const message = [
+          `${plan.pulled.length} pulled`,
+          `${plan.writes.length} written`,
+          ...(conflictCount > 0 ? [`${conflictCount} conflict${conflictCount === 1 ? "" : "s"}`] : []),
+        ].join(" · ");
+        if (plan.pulled.length > 0) {
+          await showUndoableToast("Vault synced", message);
+        } else {
+          await showToast(conflictCount > 0 ? Toast.Style.Failure : Toast.Style.Success, "Vault synced", message);
+        }
+        return plan;
+      } catch (error) {
+        await showToast(Toast.Style.Failure, "Failed to sync vault", String(error));
+        return null;
+      }
+    },
+    [commitProjects, setVaultSyncState, showUndoableToast, storedProjects, vaultSyncState],
+  );
+
+  const resolveVaultConflict = useCallback(
+    async (folderPath: string, conflict: VaultConflict, keep: VaultConflictResolution): Promise<boolean> => {
+      const current = (storedProjects ?? []).map(normalizeIdea);
+      const idea = current.find((project) => project.id === conflict.idea.id);
+      if (!idea) {
+        await showToast(Toast.Style.Failure, "Project not found");
+        return false;
+      }
+
+      try {
+        const resolution = settleVaultConflict(idea, conflict, keep);
+        const label = "Kept vault version";
+        if (resolution.idea !== idea) {
+          await commitProjects(
+            current.map((project) => (project.id === idea.id ? resolution.idea : project)),
+            label,
+          );
+        }
+        await writeFile(path.join(folderPath, resolution.file.fileName), resolution.file.contents, "utf8");
+        const records = vaultSyncState?.folder === folderPath ? vaultSyncState.notes : {};
+        await setVaultSyncState({
+          folder: folderPath,
+          syncedAt: vaultSyncState?.syncedAt ?? new Date().toISOString(),
+          notes: { ...records, [idea.id]: resolution.record },
+        });
+
+        if (resolution.idea === idea) {
+          await showToast(
+            Toast.Style.Success,
+            keep === "vault" ? "Vault note matches project" : "Kept Raycast version",
+            idea.title,
+          );
+          return true;
+        }
+        await showUndoableToast(label, resolution.idea.title);
+        return true;
+      } catch (error) {
+        await showToast(Toast.Style.Failure, "Failed to resolve conflict", String(error));
+        return false;
+      }
+    },
+    [commitProjects, setVaultSyncState, showUndoableToast, storedProjects, vaultSyncState],
+  );
+
+  const readBackup = useCallback(async (filePath: string): Promise<IdeasBackup | null> => {
+    try {
+      return parseBackup(await readFile(filePath, "utf8"));
+    } catch (error) {
+      await showToast(
+        Toast.Style.Failure,
+        "Invalid backup file",
+        error instanceof Error ? error.message : String(error),
+      );
+      return null;
+    }
+  }, []);
+
+  const restoreFromBackup = useCallback(
+    async (backup: IdeasBackup, mode: RestoreMode): Promise<boolean> => {
+      try {
+        const count = backup.ideas.length;
+        const label = `Restored ${count} project${count === 1 ? "" : "s"}`;
+        await commitProjects(applyBackup(storedProjects ?? [], backup.ideas, mode), label);
+        await showUndoableToast(label, mode === "replace" ? "Replaced existing projects" : "Merged by project ID");
+        return true;
+      } catch (error) {
+        await showToast(Toast.Style.Failure, "Failed to restore backup", String(error));
+        return false;
+      }
+    },
+    [commitProjects, showUndoableToast, storedProjects],
+  );
+
+  const rollbackMigration = useCallback(async (): Promise<boolean> => {
+    if (!migrationSnapshot) {
+      await showToast(Toast.Style.Failure, "No migration snapshot available");
+      return false;
+    }
+
+    const confirmed = await confirmAlert({
+      title: "Roll back storage migration?",
+      message: `Projects will be restored to how they were before the upgrade on ${formatAbsoluteDate(
+        migrationSnapshot.takenAt,
+      )}. Changes made since then will be lost.`,
+      primaryAction: { title: "Roll Back", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) {
+      return false;
+    }
+
+    // The snapshot is upgraded again so storage never holds an older schema than the running code expects.
+    const restored = migrateIdeas(migrationSnapshot.ideas, migrationSnapshot.version);
+    await setProjects(restored.ideas.map(normalizeIdea));
+    await setSchemaVersion(restored.version);
+    await removeMigrationSnapshot();
+    await clearHistory();
+    await showToast(Toast.Style.Success, "Rolled back migration");
+    return true;
+  }, [clearHistory, migrationSnapshot, removeMigrationSnapshot, setProjects, setSchemaVersion]);
+
   return {
     isLoading,
     projects,
     rawProjects: storedProjects ?? [],
+    inbox,
+    sortMode,
+    setSortMode,
+    moveProject,
     createProject,
     updateProject,
     appendFeature,
     editFeatures,
+    setFeatureStatus,
+    updateFeature,
     togglePin,
     toggleArchive,
     deleteProject,
-    importProjectsFromMarkdown,
+    moveFeatureToProject,
+    copyFeatureToProject,
+    moveFeatureWithinProject,
+    promoteFeature,
+    discardFeature,
+    mergeProjects,
+    splitProject,
+    duplicateProject,
+    tagColors,
+    mergeProjectTags,
+    deleteTag,
+    setTagColor,
+    readImportFile,
+    importProjects,
+    writeBackup,
+    writeExport,
+    syncVault,
+    resolveVaultConflict,
+    readBackup,
+    restoreFromBackup,
+    migrationSnapshot,
+    rollbackMigration,
+    trash,
+    trashRetentionDays,
+    vaultFolder: preferences.vaultFolder || undefined,
+    restoreFromTrash,
+    deleteFromTrash,
+    undoLabel: history?.undo[history.undo.length - 1]?.label,
+    redoLabel: history?.redo[history.redo.length - 1]?.label,
+    undo,
+    redo,
   };
 }
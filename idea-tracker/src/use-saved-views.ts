@@ -0,0 +1,26 @@
+import {
+  SAVED_VIEWS_STORAGE_KEY,
+  SavedView,
+  SavedViewDraft,
+  createSavedView,
+  removeSavedView,
+  updateSavedView,
+} from "./saved-views";
+import { useStoredCollection } from "./use-stored-collection";
+
+const NO_VIEWS: SavedView[] = [];
+
+export function useSavedViews() {
+  const { isLoading, items, saveItem, updateItem, deleteItem } = useStoredCollection<SavedView, SavedViewDraft>({
+    storageKey: SAVED_VIEWS_STORAGE_KEY,
+    defaultItems: NO_VIEWS,
+    label: "View",
+    deleteActionTitle: "Delete View",
+    deleteMessage: "Projects are not affected.",
+    create: createSavedView,
+    update: updateSavedView,
+    remove: removeSavedView,
+  });
+
+  return { isLoading, views: items, saveView: saveItem, updateView: updateItem, deleteView: deleteItem };
+}
@@ -0,0 +1,108 @@
+import { Alert, Toast, confirmAlert, showToast } from "@raycast/api";
+import { useLocalStorage } from "@raycast/utils";
+import { useCallback } from "react";
+
+type NamedItem = { id: string; name: string };
+
+export type StoredCollectionOptions<T extends NamedItem, D extends { name: string }> = {
+  storageKey: string;
+  defaultItems: T[];
+  /** Capitalized noun used in toasts, e.g. "View" → "View saved". */
+  label: string;
+  deleteActionTitle: string;
+  deleteMessage: string;
+  create: (draft: D) => T;
+  update: (items: T[], itemId: string, draft: D) => T[];
+  remove: (items: T[], itemId: string) => T[];
+  /** Returns a failure title and message when the draft cannot be saved beyond a missing name. */
+  validate?: (draft: D) => { title: string; message?: string } | undefined;
+};
+
+/**
+ * Named items kept in one LocalStorage array, with the save, update and confirm-delete flow shared by saved views
+ * and templates.
+ */
+export function useStoredCollection<T extends NamedItem, D extends { name: string }>(
+  options: StoredCollectionOptions<T, D>,
+) {
+  const { storageKey, defaultItems, label, deleteActionTitle, deleteMessage, create, update, remove, validate } =
+    options;
+  const { value: storedItems, setValue: setItems, isLoading } = useLocalStorage<T[]>(storageKey, defaultItems);
+  const items = storedItems ?? defaultItems;
+
+  const validateDraft = useCallback(
+    async (draft: D): Promise<boolean> => {
+      if (!draft.name.trim()) {
+        await showToast(Toast.Style.Failure, `${label} name is required`);
+        return false;
+      }
+      const failure = validate?.(draft);
+      if (failure) {
+        await showToast(Toast.Style.Failure, failure.title, failure.message);
+        return false;
+      }
+      return true;
+    },
+    [label, validate],
+  );
+
+  const saveItem = useCallback(
+    async (draft: D): Promise<T | null> => {
+      if (!(await validateDraft(draft))) {
+        return null;
+      }
+
+      const item = create(draft);
+      await setItems([...items, item]);
+      await showToast(Toast.Style.Success, `${label} saved`, item.name);
+      return item;
+    },
+    [create, items, label, setItems, validateDraft],
+  );
+
+  const updateItem = useCallback(
+    async (itemId: string, draft: D): Promise<T | null> => {
+      if (!(await validateDraft(draft))) {
+        return null;
+      }
+
+      const updated = update(items, itemId, draft);
+      const item = updated.find((candidate) => candidate.id === itemId);
+      if (!item) {
+        await showToast(Toast.Style.Failure, `${label} not found`);
+        return null;
+      }
+
+      await setItems(updated);
+      await showToast(Toast.Style.Success, `${label} updated`, item.name);
+      return item;
+    },
+    [items, label, setItems, update, validateDraft],
+  );
+
+  const deleteItem = useCallback(
+    async (itemId: string): Promise<boolean> => {
+      const item = items.find((candidate) => candidate.id === itemId);
+      if (!item) {
+        await showToast(Toast.Style.Failure, `${label} not found`);
+        return false;
+      }
+
+      const confirmed = await confirmAlert({
+        title: `Delete "${item.name}"?`,
+        message: deleteMessage,
+        primaryAction: { title: deleteActionTitle, style: Alert.ActionStyle.Destructive },
+      });
+      if (!confirmed) {
+        return false;
+      }
+
+      await setItems(remove(items, itemId));
+      await showToast(Toast.Style.Success, `${label} deleted`, item.name);
+      return true;
+    },
+    [deleteActionTitle, deleteMessage, items, label, remove, setItems],
+  );
+
+  return { isLoading, items, saveItem, updateItem, deleteItem };
+}
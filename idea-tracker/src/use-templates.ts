@@ -0,0 +1,34 @@
+import {
+  DEFAULT_TEMPLATES,
+  ProjectTemplate,
+  ProjectTemplateDraft,
+  TEMPLATES_STORAGE_KEY,
+  createTemplate,
+  removeTemplate,
+  updateTemplate,
+} from "./templates";
+import { useStoredCollection } from "./use-stored-collection";
+
+export function useTemplates() {
+  const { isLoading, items, saveItem, updateItem, deleteItem } = useStoredCollection<
+    ProjectTemplate,
+    ProjectTemplateDraft
+  >({
+    storageKey: TEMPLATES_STORAGE_KEY,
+    defaultItems: DEFAULT_TEMPLATES,
+    label: "Template",
+    deleteActionTitle: "Delete Template",
+    deleteMessage: "Projects created from it are not affected.",
+    create: createTemplate,
+    update: updateTemplate,
+    remove: removeTemplate,
+  });
+
+  return {
+    isLoading,
+    templates: items,
+    saveTemplate: saveItem,
+    updateTemplate: updateItem,
+    deleteTemplate: deleteItem,
+  };
+}
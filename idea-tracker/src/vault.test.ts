@@ -0,0 +1,179 @@
+import { describe, expect, it } from "vitest";
+import { Idea } from "./ideas";
+import {
+  VaultSyncState,
+  applyVaultNote,
+  formatVaultNote,
+  hashVaultNote,
+  parseVaultNote,
+  planVaultSync,
+  resolveVaultConflict,
+} from "./vault";
+
+const project: Idea = {
+  id: "launch",
+  title: "Launch Companion",
+  summary: "Mobile app",
+  tags: ["mobile", "work/client-a"],
+  isPinned: true,
+  isArchived: false,
+  features: [
+    {
+      id: "f1",
+      content: "Realtime sync",
+      createdAt: "2025-01-01T00:00:00.000Z",
+      status: "done",
+      statusChangedAt: "2025-01-02T00:00:00.000Z",
+      notes: "Use CRDTs",
+    },
+    {
+      id: "f2",
+      content: "Widgets",
+      createdAt: "2025-01-01T00:00:00.000Z",
+      status: "planned",
+      statusChangedAt: "2025-01-01T00:00:00.000Z",
+    },
+  ],
+  createdAt: "2025-01-01T00:00:00.000Z",
+  updatedAt: "2025-01-03T00:00:00.000Z",
+};
+
+const folder = "/vault/Ideas";
+const syncedAt = "2025-02-01T00:00:00.000Z";
+
+function syncedState(contents: string, updatedAt = project.updatedAt): VaultSyncState {
+  return { folder, syncedAt, notes: { launch: { fileName: "launch.md", updatedAt, hash: hashVaultNote(contents) } } };
+}
+
+describe("vault notes", () => {
+  it("writes YAML frontmatter and a task list", () => {
+    expect(formatVaultNote(project)).toBe(
+      [
+        "---",
+        "id: launch",
+        "tags:",
+        "  - mobile",
+        "  - work/client-a",
+        "status: pinned",
+        "created: 2025-01-01T00:00:00.000Z",
+        "updated: 2025-01-03T00:00:00.000Z",
+        "---",
+        "",
+        "# Launch Companion",
+        "",
+        "Mobile app",
+        "",
+        "## Features",
+        "",
+        "- [x] Realtime sync",
+        "  > Use CRDTs",
+        "- [ ] Widgets _(Planned)_",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("reads notes back, including Obsidian-style inline lists and quoted values", () => {
+    expect(parseVaultNote(formatVaultNote(project))).toMatchObject({
+      id: "launch",
+      title: "Launch Companion",
+      summary: "Mobile app",
+      tags: ["mobile", "work/client-a"],
+      status: "pinned",
+      updatedAt: project.updatedAt,
+      features: [
+        { content: "Realtime sync", status: "done", notes: "Use CRDTs" },
+        { content: "Widgets", status: "planned" },
+      ],
+    });
+
+    const edited = parseVaultNote(
+      '---\nid: "launch"\ntags: [ops, "#side project"]\nstatus: Archived\n---\n# Renamed\n',
+    );
+    expect(edited).toMatchObject({ id: "launch", title: "Renamed", tags: ["ops", "side project"], status: "archived" });
+    expect(edited?.features).toBeUndefined();
+    expect(parseVaultNote("# Meeting notes\n\n- [ ] Not a project")).toBeNull();
+  });
+
+  it("applies edits while keeping matched feature history", () => {
+    const note = parseVaultNote(
+      formatVaultNote(project).replace("- [ ] Widgets _(Planned)_", "- [x] Widgets\n- [ ] Apple Watch"),
+    );
+    const updated = applyVaultNote(project, note!, { timestamp: syncedAt, idFactory: () => "f3" });
+
+    expect(updated.updatedAt).toBe(syncedAt);
+    expect(updated.features).toEqual([
+      project.features[0],
+      { ...project.features[1], status: "done", statusChangedAt: syncedAt },
+      { id: "f3", content: "Apple Watch", createdAt: syncedAt, status: "idea", statusChangedAt: syncedAt },
+    ]);
+    expect(applyVaultNote(project, parseVaultNote(formatVaultNote(project))!)).toBe(project);
+  });
+});
+
+describe("planVaultSync", () => {
+  it("writes new projects under unique slugs", () => {
+    const other = { ...project, id: "other", title: "Launch: Companion!" };
+    const plan = planVaultSync(
+      [project, other],
+      [{ fileName: "launch-companion.md", contents: "# Notes" }],
+      undefined,
+      folder,
+      { timestamp: syncedAt },
+    );
+
+    expect(plan.writes.map((file) => file.fileName)).toEqual(["launch-companion-2.md", "launch-companion-3.md"]);
+    expect(plan.state.notes.launch).toEqual({
+      fileName: "launch-companion-2.md",
+      updatedAt: project.updatedAt,
+      hash: hashVaultNote(plan.writes[0].contents),
+    });
+  });
+
+  it("pulls vault edits and pushes Raycast edits since the last sync", () => {
+    const synced = formatVaultNote(project);
+    const edited = synced.replace("# Launch Companion", "# Companion App");
+
+    const pulled = planVaultSync(
+      [project],
+      [{ fileName: "launch.md", contents: edited }],
+      syncedState(synced),
+      folder,
+      { timestamp: syncedAt },
+    );
+    expect(pulled.pulled.map((idea) => idea.title)).toEqual(["Companion App"]);
+    expect(pulled.ideas[0].title).toBe("Companion App");
+    expect(pulled.writes[0].contents).toContain(`updated: ${syncedAt}`);
+
+    const renamed = { ...project, title: "Companion", updatedAt: syncedAt };
+    const pushed = planVaultSync([renamed], [{ fileName: "launch.md", contents: synced }], syncedState(synced), folder);
+    expect(pushed.pulled).toEqual([]);
+    expect(pushed.writes).toEqual([{ fileName: "launch.md", contents: formatVaultNote(renamed) }]);
+
+    const idle = planVaultSync([project], [{ fileName: "launch.md", contents: synced }], syncedState(synced), folder);
+    expect(idle.writes).toEqual([]);
+    expect(idle.state.notes).toEqual(syncedState(synced).notes);
+  });
+
+  it("reports a conflict when both sides changed and leaves them alone", () => {
+    const synced = formatVaultNote(project);
+    const edited = synced.replace("Mobile app", "Mobile app for iOS");
+    const renamed = { ...project, title: "Companion", updatedAt: syncedAt };
+    const plan = planVaultSync([renamed], [{ fileName: "launch.md", contents: edited }], syncedState(synced), folder);
+
+    expect(plan.writes).toEqual([]);
+    expect(plan.ideas).toEqual([renamed]);
+    expect(plan.conflicts).toHaveLength(1);
+    expect(plan.state.notes).toEqual(syncedState(synced).notes);
+
+    const keptVault = resolveVaultConflict(renamed, plan.conflicts[0], "vault", { timestamp: syncedAt });
+    expect(keptVault.idea).toMatchObject({ title: "Launch Companion", summary: "Mobile app for iOS" });
+    const keptRaycast = resolveVaultConflict(renamed, plan.conflicts[0], "raycast");
+    expect(keptRaycast.idea).toBe(renamed);
+    expect(keptRaycast.record).toEqual({
+      fileName: "launch.md",
+      updatedAt: syncedAt,
+      hash: hashVaultNote(formatVaultNote(renamed)),
+    });
+  });
+});
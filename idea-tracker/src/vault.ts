@@ -0,0 +1,356 @@
+import { createHash, randomUUID } from "node:crypto";
+import { projectSlug } from "./export";
+import {
+  Idea,
+  IdeaFeature,
+  MarkdownImportFeature,
+  applyFeatureStatus,
+  formatFeatureListMarkdown,
+  isInboxIdea,
+  parseExportedDate,
+  parseFeatureListMarkdown,
+  parseTagsInput,
+} from "./ideas";
+
+export const VAULT_SYNC_STORAGE_KEY = "raycast-idea-tracker/vault-sync";
+
+export type VaultProjectStatus = "active" | "pinned" | "archived";
+
+export type VaultNote = {
+  id: string;
+  title: string;
+  summary?: string;
+  tags: string[];
+  status: VaultProjectStatus;
+  createdAt?: string;
+  updatedAt?: string;
+  /** Undefined when the note has no `## Features` heading, so a reworded note never wipes the feature list. */
+  features?: MarkdownImportFeature[];
+};
+
+export type VaultFile = {
+  fileName: string;
+  contents: string;
+};
+
+/** What a note and its project looked like when they were last in sync. */
+export type VaultNoteRecord = {
+  fileName: string;
+  updatedAt: string;
+  hash: string;
+};
+
+export type VaultSyncState = {
+  folder: string;
+  syncedAt: string;
+  notes: Record<string, VaultNoteRecord>;
+};
+
+export type VaultConflict = {
+  idea: Idea;
+  note: VaultNote;
+  fileName: string;
+};
+
+export type VaultConflictResolution = "raycast" | "vault";
+
+export type VaultSyncPlan = {
+  /** Every project in storage order, with vault edits applied. */
+  ideas: Idea[];
+  pulled: Idea[];
+  writes: VaultFile[];
+  conflicts: VaultConflict[];
+  state: VaultSyncState;
+};
+
+type VaultSyncOptions = {
+  timestamp?: string;
+  idFactory?: () => string;
+};
+
+export function formatVaultNote(idea: Idea): string {
+  const lines = [
+    "---",
+    `id: ${formatYamlValue(idea.id)}`,
+    ...(idea.tags.length > 0 ? ["tags:", ...idea.tags.map((tag) => `  - ${formatYamlValue(tag)}`)] : ["tags: []"]),
+    `status: ${vaultStatus(idea)}`,
+    `created: ${formatYamlValue(idea.createdAt)}`,
+    `updated: ${formatYamlValue(idea.updatedAt)}`,
+    "---",
+    "",
+    `# ${idea.title}`,
+    "",
+  ];
+  if (idea.summary) {
+    lines.push(idea.summary, "");
+  }
+  lines.push("## Features", "", ...formatFeatureListMarkdown(idea.features));
+  return `${lines.join("\n").trimEnd()}\n`;
+}
+
+/**
+ * Reads a note written by `formatVaultNote`. Returns null for notes without a frontmatter `id`, which are ordinary
+ * vault notes rather than projects.
+ */
+export function parseVaultNote(contents: string): VaultNote | null {
+  const lines = contents.split(/\r?\n/);
+  if (lines[0]?.trim() !== "---") {
+    return null;
+  }
+  const end = lines.findIndex((line, index) => index > 0 && line.trim() === "---");
+  if (end === -1) {
+    return null;
+  }
+
+  const frontmatter = parseFrontmatter(lines.slice(1, end));
+  const id = typeof frontmatter.id === "string" ? frontmatter.id : "";
+  if (!id) {
+    return null;
+  }
+
+  const body = lines.slice(end + 1);
+  const titleIndex = body.findIndex((line) => /^#\s+\S/.test(line.trim()));
+  const featuresIndex = body.findIndex((line) => /^##\s+Features$/i.test(line.trim()));
+  const summaryEnd = featuresIndex === -1 ? body.length : featuresIndex;
+  const summary = body
+    .slice(titleIndex + 1, summaryEnd)
+    .join("\n")
+    .trim();
+  const tags = frontmatter.tags ?? [];
+  const status = typeof frontmatter.status === "string" ? frontmatter.status.toLowerCase() : "";
+
+  return {
+    id,
+    title: titleIndex === -1 ? "Untitled Project" : body[titleIndex].trim().replace(/^#\s+/, ""),
+    ...(summary ? { summary } : {}),
+    tags: parseTagsInput((Array.isArray(tags) ? tags : [tags]).map((tag) => tag.replace(/^#/, ""))),
+    status: status === "pinned" || status === "archived" ? status : "active",
+    createdAt: parseFrontmatterDate(frontmatter.created),
+    updatedAt: parseFrontmatterDate(frontmatter.updated),
+    ...(featuresIndex === -1 ? {} : { features: parseFeatureListMarkdown(body.slice(featuresIndex + 1)) }),
+  };
+}
+
+/**
+ * Applies a note's edits to its project. Features are matched by text so unchanged ones keep their IDs and history.
+ * Returns the same object when the note holds nothing new.
+ */
+export function applyVaultNote(idea: Idea, note: VaultNote, options: VaultSyncOptions = {}): Idea {
+  const timestamp = options.timestamp ?? new Date().toISOString();
+  const makeId = options.idFactory ?? randomUUID;
+  const unmatched = [...idea.features];
+  const features =
+    note.features?.map((parsed): IdeaFeature => {
+      const index = unmatched.findIndex((feature) => feature.content === parsed.content);
+      const existing =
+        index === -1
+          ? {
+              id: makeId(),
+              content: parsed.content,
+              createdAt: timestamp,
+              status: parsed.status ?? "idea",
+              statusChangedAt: timestamp,
+            }
+          : unmatched.splice(index, 1)[0];
+      return {
+        ...applyFeatureStatus(existing, parsed.status ?? existing.status, timestamp),
+        notes: parsed.notes || undefined,
+        links: parsed.links?.length ? parsed.links : undefined,
+        attachments: parsed.attachments?.length ? parsed.attachments : undefined,
+      };
+    }) ?? idea.features;
+
+  const next: Idea = {
+    ...idea,
+    title: note.title,
+    summary: note.summary,
+    tags: note.tags,
+    isPinned: note.status === "pinned",
+    isArchived: note.status === "archived" && !isInboxIdea(idea),
+    features,
+    createdAt: note.createdAt ?? idea.createdAt,
+  };
+  return JSON.stringify(next) === JSON.stringify(idea) ? idea : { ...next, updatedAt: timestamp };
+}
+
+/**
+ * Works out what a sync does. A side counts as changed when it differs from the record taken at the last sync:
+ * the note's contents hash for the vault and `updatedAt` for Raycast. When both changed, the project is reported as a
+ * conflict and left alone on both sides. Notes seen for the first time fall back to comparing `updated` dates.
+ */
+export function planVaultSync(
+  ideas: Idea[],
+  files: VaultFile[],
+  previous: VaultSyncState | undefined,
+  folder: string,
+  options: VaultSyncOptions = {},
+): VaultSyncPlan {
+  const timestamp = options.timestamp ?? new Date().toISOString();
+  const records = previous?.folder === folder ? previous.notes : {};
+  const notesById = new Map<string, { file: VaultFile; note: VaultNote }>();
+  for (const file of files) {
+    const note = parseVaultNote(file.contents);
+    if (note && !notesById.has(note.id)) {
+      notesById.set(note.id, { file, note });
+    }
+  }
+
+  // macOS volumes are usually case-insensitive, so names are reserved in lowercase.
+  const takenNames = new Set(files.map((file) => file.fileName.toLowerCase()));
+  const plan: VaultSyncPlan = {
+    ideas: [],
+    pulled: [],
+    writes: [],
+    conflicts: [],
+    state: { folder, syncedAt: timestamp, notes: {} },
+  };
+
+  const write = (idea: Idea, fileName: string, existing?: string) => {
+    const contents = formatVaultNote(idea);
+    if (contents !== existing) {
+      plan.writes.push({ fileName, contents });
+    }
+    plan.state.notes[idea.id] = { fileName, updatedAt: idea.updatedAt, hash: hashVaultNote(contents) };
+  };
+
+  for (const idea of ideas) {
+    const record = records[idea.id];
+    const match = notesById.get(idea.id);
+    if (!match) {
+      const fileName =
+        record && !takenNames.has(record.fileName.toLowerCase())
+          ? record.fileName
+          : uniqueNoteFileName(idea.title, takenNames);
+      takenNames.add(fileName.toLowerCase());
+      plan.ideas.push(idea);
+      write(idea, fileName);
+      continue;
+    }
+
+    const { file, note } = match;
+    const vaultChanged = record
+      ? hashVaultNote(file.contents) !== record.hash
+      : (note.updatedAt ?? "") > idea.updatedAt;
+    const localChanged = record ? idea.updatedAt !== record.updatedAt : !vaultChanged;
+
+    if (vaultChanged && localChanged) {
+      plan.ideas.push(idea);
+      plan.conflicts.push({ idea, note, fileName: file.fileName });
+      if (record) {
+        plan.state.notes[idea.id] = record;
+      }
+    } else if (vaultChanged) {
+      const next = applyVaultNote(idea, note, { ...options, timestamp });
+      if (next !== idea) {
+        plan.pulled.push(next);
+      }
+      plan.ideas.push(next);
+      write(next, file.fileName, file.contents);
+    } else if (localChanged) {
+      plan.ideas.push(idea);
+      write(idea, file.fileName, file.contents);
+    } else {
+      plan.ideas.push(idea);
+      plan.state.notes[idea.id] = record;
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Settles a conflict by keeping one side and rewriting the note from the result, returning the project, the note to
+ * write and the record to store for the next sync.
+ */
+export function resolveVaultConflict(
+  idea: Idea,
+  conflict: VaultConflict,
+  keep: VaultConflictResolution,
+  options: VaultSyncOptions = {},
+): { idea: Idea; file: VaultFile; record: VaultNoteRecord } {
+  const resolved = keep === "vault" ? applyVaultNote(idea, conflict.note, options) : idea;
+  const contents = formatVaultNote(resolved);
+  return {
+    idea: resolved,
+    file: { fileName: conflict.fileName, contents },
+    record: { fileName: conflict.fileName, updatedAt: resolved.updatedAt, hash: hashVaultNote(contents) },
+  };
+}
+
+export function hashVaultNote(contents: string): string {
+  return createHash("sha1").update(contents.replace(/\r\n/g, "\n")).digest("hex");
+}
+
+function vaultStatus(idea: Idea): VaultProjectStatus {
+  return idea.isArchived ? "archived" : idea.isPinned ? "pinned" : "active";
+}
+
+function uniqueNoteFileName(title: string, takenNames: Set<string>): string {
+  const slug = projectSlug(title);
+  let fileName = `${slug}.md`;
+  for (let count = 2; takenNames.has(fileName); count += 1) {
+    fileName = `${slug}-${count}.md`;
+  }
+  return fileName;
+}
+
+/**
+ * Plain YAML scalars are kept unquoted so Obsidian shows them as typed; anything YAML would reinterpret is quoted.
+ */
+function formatYamlValue(value: string): string {
+  return /^[A-Za-z0-9][\w./:+-]*$/.test(value) && !/^(true|false|null|yes|no|[-+]?\d+(\.\d+)?)$/i.test(value)
+    ? value
+    : JSON.stringify(value);
+}
+
+/**
+ * Understands the subset of YAML Obsidian writes for properties: `key: value`, inline `[a, b]` lists and `- item`
+ * lists.
+ */
+function parseFrontmatter(lines: string[]): Record<string, string | string[]> {
+  const values: Record<string, string | string[]> = {};
+  let listKey: string | null = null;
+  for (const line of lines) {
+    const itemMatch = line.match(/^\s*-\s+(.*)$/);
+    if (listKey && itemMatch) {
+      (values[listKey] as string[]).push(parseYamlScalar(itemMatch[1]));
+      continue;
+    }
+
+    listKey = null;
+    const match = line.match(/^([\w-]+):\s*(.*)$/);
+    if (!match) {
+      continue;
+    }
+    const [, key, raw] = match;
+    const inlineList = raw.trim().match(/^\[(.*)\]$/);
+    if (!raw.trim()) {
+      values[key] = [];
+      listKey = key;
+    } else if (inlineList) {
+      values[key] = inlineList[1].split(",").map(parseYamlScalar).filter(Boolean);
+    } else {
+      values[key] = parseYamlScalar(raw);
+    }
+  }
+  return values;
+}
+
+function parseYamlScalar(raw: string): string {
+  const value = raw.trim();
+  if (value.startsWith('"') && value.endsWith('"') && value.length > 1) {
+    try {
+      return String(JSON.parse(value));
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'") && value.length > 1) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  return value;
+}
+
+function parseFrontmatterDate(value: string | string[] | undefined): string | undefined {
+  return typeof value === "string" ? parseExportedDate(value) : undefined;
+}
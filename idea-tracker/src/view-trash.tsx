@@ -0,0 +1,107 @@
+import { Action, ActionPanel, Icon, List } from "@raycast/api";
+import { formatAbsoluteDate, formatIdeaMarkdown, formatRelativeTime } from "./ideas";
+import { TrashItem, trashExpiryDate } from "./trash";
+import { useIdeasManager } from "./use-ideas-manager";
+
+export default function ViewTrashCommand() {
+  const { isLoading, trash, trashRetentionDays, restoreFromTrash, deleteFromTrash } = useIdeasManager();
+  const trashedProjects = trash.filter((item) => item.kind === "project");
+  const trashedFeatures = trash.filter((item) => item.kind === "feature");
+
+  const listItemProps = {
+    retentionDays: trashRetentionDays,
+    allItemIds: trash.map((item) => item.id),
+    onRestore: restoreFromTrash,
+    onDelete: deleteFromTrash,
+  };
+
+  return (
+    <List isLoading={isLoading} isShowingDetail={trash.length > 0} searchBarPlaceholder="Search trash">
+      {trash.length === 0 ? (
+        <List.EmptyView
+          icon={Icon.Trash}
+          title="Trash is empty"
+          description={
+            trashRetentionDays > 0
+              ? `Deleted projects and features stay here for ${trashRetentionDays} days.`
+              : "Deleted projects and features stay here until you remove them."
+          }
+        />
+      ) : (
+        <>
+          <List.Section title="Projects" subtitle={`${trashedProjects.length}`}>
+            {trashedProjects.map((item) => (
+              <TrashListItem key={item.id} item={item} {...listItemProps} />
+            ))}
+          </List.Section>
+          <List.Section title="Features" subtitle={`${trashedFeatures.length}`}>
+            {trashedFeatures.map((item) => (
+              <TrashListItem key={item.id} item={item} {...listItemProps} />
+            ))}
+          </List.Section>
+        </>
+      )}
+    </List>
+  );
+}
+
+function TrashListItem({
+  item,
+  retentionDays,
+  allItemIds,
+  onRestore,
+  onDelete,
+}: {
+  item: TrashItem;
+  retentionDays: number;
+  allItemIds: string[];
+  onRestore: (itemId: string) => Promise<boolean>;
+  onDelete: (itemIds: string[]) => Promise<boolean>;
+}) {
+  const expiresAt = trashExpiryDate(item, retentionDays);
+  const accessories: List.Item.Accessory[] = [
+    { text: formatRelativeTime(item.deletedAt), tooltip: `Deleted ${formatAbsoluteDate(item.deletedAt)}` },
+  ];
+  if (expiresAt) {
+    accessories.push({ icon: Icon.Clock, tooltip: `Purged ${formatAbsoluteDate(expiresAt.toISOString())}` });
+  }
+
+  return (
+    <List.Item
+      id={item.id}
+      title={item.kind === "project" ? item.project.title : item.feature.content}
+      subtitle={item.kind === "feature" ? item.projectTitle : undefined}
+      icon={item.kind === "project" ? Icon.Document : Icon.Dot}
+      keywords={item.kind === "feature" ? [item.projectTitle] : item.project.tags}
+      accessories={accessories}
+      detail={
+        <List.Item.Detail
+          markdown={
+            item.kind === "project"
+              ? formatIdeaMarkdown(item.project, { formatDate: formatAbsoluteDate })
+              : `# ${item.feature.content}\n\nFrom **${item.projectTitle}**`
+          }
+        />
+      }
+      actions={
+        <ActionPanel>
+          <Action title="Restore" icon={Icon.ArrowCounterClockwise} onAction={() => onRestore(item.id)} />
+          <Action
+            title="Delete Permanently"
+            icon={Icon.Trash}
+            style={Action.Style.Destructive}
+            shortcut={{ modifiers: ["ctrl"], key: "x" }}
+            onAction={() => onDelete([item.id])}
+          />
+          <Action
+            title="Empty Trash"
+            icon={Icon.Trash}
+            style={Action.Style.Destructive}
+            shortcut={{ modifiers: ["ctrl", "shift"], key: "x" }}
+            onAction={() => onDelete(allItemIds)}
+          />
+        </ActionPanel>
+      }
+    />
+  );
+}
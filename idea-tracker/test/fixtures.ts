@@ -0,0 +1,17 @@
+import { Idea } from "../src/ideas";
+
+export function makeIdea(overrides: Partial<Idea> = {}): Idea {
+  const id = overrides.id ?? "idea";
+  return {
+    id,
+    title: id,
+    summary: undefined,
+    tags: [],
+    isPinned: false,
+    isArchived: false,
+    features: [],
+    createdAt: "2025-01-01T00:00:00.000Z",
+    updatedAt: "2025-01-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
@@ -5,3 +5,4 @@ export const Alert = { ActionStyle: { Destructive: "destructive" } } as const;
 
 export const showToast = vi.fn();
 export const confirmAlert = vi.fn();
+export const getPreferenceValues = vi.fn(() => ({}));
@@ -4,10 +4,8 @@ const storage = new Map<string, unknown>();
 
 type Setter<T> = T | ((current: T) => T);
 
-export function useLocalStorage<T>(key: string, defaultValue: T) {
-  const [value, setValueState] = useState<T>(() =>
-    storage.has(key) ? (storage.get(key) as T) : defaultValue,
-  );
+export function useLocalStorage<T>(key: string, defaultValue?: T) {
+  const [value, setValueState] = useState<T>(() => (storage.has(key) ? (storage.get(key) as T) : (defaultValue as T)));
   const ref = useRef(value);
   ref.current = value;
 
@@ -18,9 +16,16 @@ export function useLocalStorage<T>(key: string, defaultValue: T) {
     setValueState(resolved);
   };
 
+  const removeValue = async () => {
+    storage.delete(key);
+    ref.current = undefined as T;
+    setValueState(undefined as T);
+  };
+
   return {
     value,
     setValue,
+    removeValue,
     isLoading: false,
   };
 }
@@ -28,3 +33,11 @@ export function useLocalStorage<T>(key: string, defaultValue: T) {
 export function __resetStorage() {
   storage.clear();
 }
+
+export function __setStorageItem(key: string, value: unknown) {
+  storage.set(key, value);
+}
+
+export function __getStorageItem(key: string) {
+  return storage.get(key);
+}